@@ -1,5 +1,9 @@
 import dotenv from "dotenv";
 import { MCPServer } from "mcp-framework";
+import { AUTH_ENV_PREFIXES, AUTH_OPTION_NAMES, describeAuthEnv } from "./utils/auth.js";
+import { getCacheTtlMs } from "./utils/documentLoader.js";
+import { getMongoMaxLimit, getMongoMaxTimeMs, warnAboutMongoWriteAccess } from "./utils/mongoSafety.js";
+import { describeRedactionEnv } from "./utils/redaction.js";
 
 function parseCommandLineArgs() {
   const args = process.argv.slice(2);
@@ -8,9 +12,10 @@ function parseCommandLineArgs() {
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     
-    if (arg.startsWith('--') && arg.includes('=')) {
-      const [key, value] = arg.slice(2).split('=', 2);
-      parsedArgs[key] = value;
+    // Only the first '=' separates the name; tokens and secrets often contain more
+    const eq = arg.indexOf('=');
+    if (arg.startsWith('--') && eq !== -1) {
+      parsedArgs[arg.slice(2, eq)] = arg.slice(eq + 1);
       continue;
     }
     
@@ -42,6 +47,26 @@ function setEnvFromArgs(args: Record<string, string>) {
     process.env.MONGODB_CONNECTION_STRING = args['mongodb-connection-string'];
   }
   
+  if (args['mongodb-max-time-ms']) {
+    process.env.MONGODB_MAX_TIME_MS = args['mongodb-max-time-ms'];
+  }
+  
+  if (args['mongodb-max-limit']) {
+    process.env.MONGODB_MAX_LIMIT = args['mongodb-max-limit'];
+  }
+  
+  if (args['mongodb-databases']) {
+    process.env.MONGODB_DATABASES = args['mongodb-databases'];
+  }
+  
+  if (args['mongodb-read-preference']) {
+    process.env.MONGODB_READ_PREFERENCE = args['mongodb-read-preference'];
+  }
+  
+  if (args['sql-database-url']) {
+    process.env.SQL_DATABASE_URL = args['sql-database-url'];
+  }
+  
   
   if (args['erd-api-url']) {
     process.env.ERD_API_URL = args['erd-api-url'];
@@ -53,6 +78,29 @@ function setEnvFromArgs(args: Record<string, string>) {
   }
   
   
+  // ERD/Swagger authentication, e.g. --swagger-api-bearer-token or --api-oauth2-client-id
+  for (const prefix of Object.values(AUTH_ENV_PREFIXES)) {
+    for (const option of AUTH_OPTION_NAMES) {
+      const envName = `${prefix}${option}`;
+      const argName = envName.toLowerCase().replace(/_/g, '-');
+      
+      if (args[argName]) {
+        process.env[envName] = args[argName];
+      }
+    }
+  }
+  
+  
+  if (args['config']) {
+    process.env.BACKEND_EXPLORER_CONFIG = args['config'];
+  }
+  
+  
+  if (args['cache-ttl']) {
+    process.env.SOURCE_CACHE_TTL = args['cache-ttl'];
+  }
+  
+  
   if (args['port']) {
     process.env.PORT = args['port'];
   }
@@ -72,8 +120,16 @@ setEnvFromArgs(args);
 
 process.stderr.write("Backend Explorer MCP server started with configuration:\n");
 process.stderr.write(`- ERD API: ${process.env.ERD_API_URL ? "Set" : "Not Set"}\n`);
+process.stderr.write(`- ERD API auth: ${describeAuthEnv("erd")}\n`);
 process.stderr.write(`- Swagger API: ${process.env.SWAGGER_API_URL ? "Set" : "Not Set"}\n`);
+process.stderr.write(`- Swagger API auth: ${describeAuthEnv("swagger")}\n`);
 process.stderr.write(`- MongoDB: ${process.env.MONGODB_URI || process.env.MONGODB_CONNECTION_STRING ? "Set" : "Not Set"}\n`);
+process.stderr.write(`- MongoDB databases: ${process.env.MONGODB_DATABASES || "All except admin, local and config"}\n`);
+process.stderr.write(`- MongoDB limits: maxTimeMS ${getMongoMaxTimeMs()}, at most ${getMongoMaxLimit()} documents, read preference ${process.env.MONGODB_READ_PREFERENCE || "primary"}\n`);
+process.stderr.write(`- MongoDB redaction: ${describeRedactionEnv()}\n`);
+process.stderr.write(`- SQL database: ${process.env.SQL_DATABASE_URL ? "Set" : "Not Set"}\n`);
+process.stderr.write(`- Backends config: ${process.env.BACKEND_EXPLORER_CONFIG || "Not Set"}\n`);
+process.stderr.write(`- Document cache TTL: ${getCacheTtlMs() / 1000}s\n`);
 process.stderr.write(`- Port: ${process.env.PORT || 3333}\n`);
 process.stderr.write(`- Transport: ${args['stdio'] || args['transport'] === 'stdio' ? "stdio" : "http-stream"}\n`);
 
@@ -103,4 +159,7 @@ process.on('uncaughtException', (error) => {
 server.start().catch((error) => {
   console.error("서버 시작 오류:", error);
   process.exit(1);
-});
\ No newline at end of file
+});
+
+// Runs in the background so an unreachable database does not delay startup
+warnAboutMongoWriteAccess();
\ No newline at end of file
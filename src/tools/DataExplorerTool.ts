@@ -3,9 +3,17 @@ import { z } from "zod";
 import ERDTool from "./ERDTool.js";
 import MongoDBTool from "./MongoDBTool.js";
 import SwaggerTool from "./SwaggerTool.js";
+import {
+  backendSelectionSchema,
+  BackendSelection,
+  ResolvedBackend,
+  resolveBackend,
+  sourceNotConfiguredMessage,
+} from "../utils/backendConfig.js";
 
-interface DataExplorerToolInput {
+interface DataExplorerToolInput extends BackendSelection {
   query: string;
+  database?: string;
   options?: {
     format?: string;
     limit?: number;
@@ -26,33 +34,24 @@ class DataExplorerTool extends MCPTool<DataExplorerToolInput> {
   private erdTool: ERDTool;
   private swaggerTool: SwaggerTool;
   private mongodbTool: MongoDBTool;
-  
-  // Track which data sources are available
-  private availableDataSources: {
-    erd: boolean;
-    swagger: boolean;
-    mongodb: boolean;
-  };
 
   constructor() {
     super();
     this.erdTool = new ERDTool();
     this.swaggerTool = new SwaggerTool();
     this.mongodbTool = new MongoDBTool();
-    
-    // Check if environment variables are set
-    this.availableDataSources = {
-      erd: !!process.env.ERD_API_URL,
-      swagger: !!process.env.SWAGGER_API_URL,
-      mongodb: !!process.env.MONGODB_URI || !!process.env.MONGODB_CONNECTION_STRING,
-    };
   }
 
   schema = {
+    ...backendSelectionSchema,
     query: {
       type: z.string(),
       description: "The query string describing what information you are looking for (e.g., 'users table properties', 'talktalkInfo structure')",
     },
+    database: {
+      type: z.string().optional(),
+      description: "MongoDB database to look in (see mongodb_explorer listDatabases). Defaults to the database in the connection string.",
+    },
     options: {
       type: z.object({
         format: z.enum(["json", "markdown"]).optional().default("json"),
@@ -95,27 +94,31 @@ class DataExplorerTool extends MCPTool<DataExplorerToolInput> {
       }
       
       
+      // Check which data sources are configured for the selected backend
+      const backend = await resolveBackend(input);
+      const selection: BackendSelection = { backend: input.backend, environment: input.environment };
+      
       const sources: SourceData = {
-        erd: { available: this.availableDataSources.erd, result: null },
-        swagger: { available: this.availableDataSources.swagger, result: null },
-        mongodb: { available: this.availableDataSources.mongodb, result: null }
+        erd: { available: !!backend.erdUrl, result: null },
+        swagger: { available: !!backend.swaggerUrl, result: null },
+        mongodb: { available: !!backend.mongodbUri, result: null }
       };
       
       // Gather data from available sources
       if (sources.erd.available) {
-        sources.erd.result = await this.getERDInfo(entityName, format);
+        sources.erd.result = await this.getERDInfo(entityName, format, selection);
       }
       
       if (sources.swagger.available) {
-        sources.swagger.result = await this.getSwaggerInfo(entityName, format);
+        sources.swagger.result = await this.getSwaggerInfo(entityName, format, selection);
       }
       
       if (sources.mongodb.available) {
-        sources.mongodb.result = await this.getMongoDBInfo(entityName, format, input.options?.limit || 10);
+        sources.mongodb.result = await this.getMongoDBInfo(entityName, format, input.options?.limit || 10, selection, input.database);
       }
       
       if (format === "markdown") {
-        const markdown = this.combineMarkdownResults(input.query, entityName, sources);
+        const markdown = this.combineMarkdownResults(input.query, entityName, sources, backend);
         const markdownResponse = {
           content: [
             {
@@ -128,9 +131,11 @@ class DataExplorerTool extends MCPTool<DataExplorerToolInput> {
       }
       
       // Combine results for JSON response
-      const resultObj: { query: string, entityName: string, sources: { [key: string]: any } } = {
+      const resultObj: { query: string, entityName: string, backend: string, environment?: string, sources: { [key: string]: any } } = {
         query: input.query,
         entityName,
+        backend: backend.name,
+        environment: backend.environment,
         sources: {}
       };
       
@@ -139,7 +144,7 @@ class DataExplorerTool extends MCPTool<DataExplorerToolInput> {
           resultObj.sources[source] = data.result;
         } else {
           resultObj.sources[source] = { 
-            message: `${source.toUpperCase()} data source is not configured. Set appropriate environment variables.` 
+            message: `${source.toUpperCase()} data source is not configured: ${sourceNotConfiguredMessage(source as "erd" | "swagger" | "mongodb", backend)}` 
           };
         }
       }
@@ -167,10 +172,10 @@ class DataExplorerTool extends MCPTool<DataExplorerToolInput> {
     }
   }
   
-  private async getERDInfo(entityName: string, format: string): Promise<any> {
+  private async getERDInfo(entityName: string, format: string, selection: BackendSelection): Promise<any> {
     try {
       // Get all ERD data
-      const response = await this.erdTool.execute({ options: { format } });
+      const response = await this.erdTool.execute({ ...selection, options: { format } });
       
       if (!response?.content || !Array.isArray(response.content) || response.content.length === 0) {
         return { message: "Failed to retrieve ERD data: Invalid response format" };
@@ -219,10 +224,11 @@ class DataExplorerTool extends MCPTool<DataExplorerToolInput> {
     }
   }
   
-  private async getSwaggerInfo(entityName: string, format: string): Promise<any> {
+  private async getSwaggerInfo(entityName: string, format: string, selection: BackendSelection): Promise<any> {
     try {
       // First try to find a path directly matching the entity name
       const directPathResponse = await this.swaggerTool.execute({ 
+        ...selection,
         options: { 
           format,
           path: `/${entityName}`
@@ -238,8 +244,25 @@ class DataExplorerTool extends MCPTool<DataExplorerToolInput> {
         return { message: "Failed to retrieve Swagger data: Response not in text format" };
       }
       
-      // Get all paths
-      const allResponse = await this.swaggerTool.execute({ options: { format } });
+      // Use the direct path result when it matched anything
+      if (format === 'json') {
+        try {
+          const directPathData = JSON.parse(directPathContent.text);
+          if (directPathData.paths && Object.keys(directPathData.paths).length > 0) {
+            return directPathData;
+          }
+        } catch (e) {
+          // Ignore error and continue with all paths
+        }
+      } else if (format === 'markdown') {
+        const directPathSection = this.extractMarkdownSection(directPathContent.text, entityName);
+        if (directPathSection) {
+          return directPathSection;
+        }
+      }
+      
+      // Only fetch the whole document when the direct lookup found nothing
+      const allResponse = await this.swaggerTool.execute({ ...selection, options: { format } });
       
       if (!allResponse?.content || !Array.isArray(allResponse.content) || allResponse.content.length === 0) {
         return { message: "Failed to retrieve Swagger data: Invalid response format" };
@@ -252,16 +275,6 @@ class DataExplorerTool extends MCPTool<DataExplorerToolInput> {
       
       try {
         if (format === 'json') {
-          // Try to use the direct path result first
-          try {
-            const directPathData = JSON.parse(directPathContent.text);
-            if (directPathData.paths && Object.keys(directPathData.paths).length > 0) {
-              return directPathData;
-            }
-          } catch (e) {
-            // Ignore error and continue with all paths
-          }
-          
           // Process all swagger data
           const swaggerData = JSON.parse(allContent.text);
           
@@ -296,13 +309,6 @@ class DataExplorerTool extends MCPTool<DataExplorerToolInput> {
           };
         } else if (format === 'markdown') {
           // For markdown, extract the relevant sections
-          // Try direct path first
-          const directPathSection = this.extractMarkdownSection(directPathContent.text, entityName);
-          if (directPathSection) {
-            return directPathSection;
-          }
-          
-          // Try all paths
           const relevantSections = this.extractMarkdownSection(allContent.text, entityName);
           if (relevantSections) {
             return relevantSections;
@@ -320,11 +326,13 @@ class DataExplorerTool extends MCPTool<DataExplorerToolInput> {
     }
   }
   
-  private async getMongoDBInfo(entityName: string, format: string, limit: number): Promise<any> {
+  private async getMongoDBInfo(entityName: string, format: string, limit: number, selection: BackendSelection, database?: string): Promise<any> {
     try {
       // First try to describe the collection
       const schemaResponse = await this.mongodbTool.execute({
+        ...selection,
         action: "describeCollection",
+        database,
         collection: entityName,
         options: { format, limit }
       });
@@ -352,7 +360,9 @@ class DataExplorerTool extends MCPTool<DataExplorerToolInput> {
       
       // Get sample data
       const sampleResponse = await this.mongodbTool.execute({
+        ...selection,
         action: "sampleData",
+        database,
         collection: entityName,
         options: { format, limit: 2 } // Limit to just 2 samples for brevity
       });
@@ -418,11 +428,16 @@ class DataExplorerTool extends MCPTool<DataExplorerToolInput> {
   private combineMarkdownResults(
     query: string, 
     entityName: string, 
-    sources: { [key: string]: { available: boolean, result: any } }
+    sources: { [key: string]: { available: boolean, result: any } },
+    backend: ResolvedBackend
   ): string {
     let markdown = `# Comprehensive Information about '${entityName}'\n\n`;
     markdown += `Query: "${query}"\n\n`;
     
+    if (backend.fromConfig) {
+      markdown += `Backend: ${backend.name}${backend.environment ? ` (${backend.environment})` : ''}\n\n`;
+    }
+    
     // List available data sources
     const availableSources = Object.entries(sources)
       .filter(([_, data]) => data.available)
@@ -435,7 +450,7 @@ class DataExplorerTool extends MCPTool<DataExplorerToolInput> {
     // Add ERD information
     markdown += "## Database Schema (ERD)\n\n";
     if (!sources.erd.available) {
-      markdown += "ERD data source is not configured. Please set ERD_API_URL in environment variables.\n\n";
+      markdown += `ERD data source is not configured: ${sourceNotConfiguredMessage("erd", backend)}.\n\n`;
     } else {
       const erdResult = sources.erd.result;
       
@@ -475,7 +490,7 @@ class DataExplorerTool extends MCPTool<DataExplorerToolInput> {
     // Add Swagger information
     markdown += "## API Documentation (Swagger)\n\n";
     if (!sources.swagger.available) {
-      markdown += "Swagger data source is not configured. Please set SWAGGER_API_URL in environment variables.\n\n";
+      markdown += `Swagger data source is not configured: ${sourceNotConfiguredMessage("swagger", backend)}.\n\n`;
     } else {
       const swaggerResult = sources.swagger.result;
       
@@ -538,7 +553,7 @@ class DataExplorerTool extends MCPTool<DataExplorerToolInput> {
     // Add MongoDB information
     markdown += "## MongoDB Data\n\n";
     if (!sources.mongodb.available) {
-      markdown += "MongoDB data source is not configured. Please set MONGODB_URI or MONGODB_CONNECTION_STRING in environment variables.\n\n";
+      markdown += `MongoDB data source is not configured: ${sourceNotConfiguredMessage("mongodb", backend)}.\n\n`;
     } else {
       const mongoResult = sources.mongodb.result;
       
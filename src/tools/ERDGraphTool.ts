@@ -0,0 +1,206 @@
+import { MCPTool } from "mcp-framework";
+import { z } from "zod";
+import { backendSelectionSchema, BackendSelection, resolveBackend, sourceNotConfiguredMessage } from "../utils/backendConfig.js";
+import {
+  buildErdEdges,
+  ErdEdge,
+  ErdJoinPath,
+  ErdNeighbour,
+  findJoinPaths,
+  findNeighbours,
+  inboundEdges,
+  joinCondition,
+} from "../utils/erdGraph.js";
+import { ErdModel, findTableName, normalizeErd, tableNames } from "../utils/erdModel.js";
+import { loadErdDocument } from "../utils/erdSources.js";
+import { closestMatches } from "../utils/swaggerFilter.js";
+
+const DEFAULT_PATH_DEPTH = 4;
+const DEFAULT_MAX_PATHS = 3;
+const DEFAULT_NEIGHBOUR_DEPTH = 1;
+
+interface ERDGraphToolInput extends BackendSelection {
+  action: "joinPath" | "references" | "neighbours";
+  table: string;
+  targetTable?: string;
+  options?: {
+    format?: string;
+    depth?: number;
+    maxPaths?: number;
+  };
+}
+
+class ERDGraphTool extends MCPTool<ERDGraphToolInput> {
+  name = "navigate_erd";
+  description = "Navigates the relationships in the ERD: shortest join paths between two tables, tables that reference a table, and the tables within N relation hops. Every hop includes its join columns.";
+
+  schema = {
+    ...backendSelectionSchema,
+    action: {
+      type: z.enum(["joinPath", "references", "neighbours"]),
+      description: "'joinPath' finds how 'table' connects to 'targetTable', 'references' lists the foreign keys pointing at 'table', 'neighbours' lists the tables around 'table'",
+    },
+    table: {
+      type: z.string(),
+      description: "Table to start from",
+    },
+    targetTable: {
+      type: z.string().optional(),
+      description: "Table to connect to. Required when action is 'joinPath'.",
+    },
+    options: {
+      type: z.object({
+        format: z.enum(["json", "markdown"]).optional().default("json"),
+        depth: z.number().int().min(1).max(10).optional(),
+        maxPaths: z.number().int().min(1).max(20).optional(),
+      }).optional(),
+      description: "Response format ('json' or 'markdown'); 'depth' is the maximum number of hops (default 4 for joinPath, 1 for neighbours); 'maxPaths' limits the join paths returned (default 3)",
+    },
+  };
+
+  async execute(input: ERDGraphToolInput): Promise<any> {
+    try {
+      const format = input.options?.format || "json";
+      const backend = await resolveBackend(input);
+
+      if (!backend.erdUrl) {
+        return this.textResponse(sourceNotConfiguredMessage("erd", backend));
+      }
+
+      const model = normalizeErd(await loadErdDocument(backend.erdUrl, backend.erdAuth));
+      if (!model) {
+        return this.textResponse("ERD data has no 'tables' array, so its relationships cannot be navigated.");
+      }
+
+      const edges = buildErdEdges(model);
+      const table = findTableName(model, input.table);
+      if (!table) {
+        return this.textResponse(this.tableNotFound(model, input.table));
+      }
+
+      let result;
+      switch (input.action) {
+        case "joinPath": {
+          if (!input.targetTable) {
+            return this.textResponse("Target table is required.");
+          }
+          const targetTable = findTableName(model, input.targetTable);
+          if (!targetTable) {
+            return this.textResponse(this.tableNotFound(model, input.targetTable));
+          }
+          const paths = findJoinPaths(
+            edges,
+            table,
+            targetTable,
+            input.options?.depth ?? DEFAULT_PATH_DEPTH,
+            input.options?.maxPaths ?? DEFAULT_MAX_PATHS,
+          );
+          result = { from: table, to: targetTable, paths };
+          break;
+        }
+        case "references":
+          result = { table, references: inboundEdges(edges, table) };
+          break;
+        case "neighbours":
+          result = { table, neighbours: findNeighbours(edges, table, input.options?.depth ?? DEFAULT_NEIGHBOUR_DEPTH) };
+          break;
+        default:
+          return this.textResponse("Unknown action");
+      }
+
+      if (format === "markdown") {
+        return this.textResponse(this.convertToMarkdown(result, input.action));
+      }
+      return this.textResponse(JSON.stringify(result, null, 2));
+    } catch (error) {
+      console.error("ERDGraphTool unexpected error:", error);
+      let errorMessage = "Unknown error";
+
+      if (error instanceof Error) {
+        errorMessage = `Failed to navigate ERD relationships: ${error.message}`;
+      }
+
+      return this.textResponse(errorMessage);
+    }
+  }
+
+  private textResponse(text: string) {
+    return {
+      content: [
+        {
+          type: "text",
+          text
+        }
+      ]
+    };
+  }
+
+  private tableNotFound(model: ErdModel, name: string): string {
+    const suggestions = closestMatches(name, tableNames(model));
+    return `Table '${name}' was not found in the ERD.${suggestions.length > 0 ? ` Did you mean: ${suggestions.join(", ")}?` : ""}`;
+  }
+
+  private edgeLabel(edge: ErdEdge): string {
+    return `${edge.type || "relation"}${edge.inferred ? " (inferred from column name)" : ""}`;
+  }
+
+  private convertToMarkdown(data: any, action: string): string {
+    try {
+      let markdown = "";
+
+      switch (action) {
+        case "joinPath":
+          markdown += `# Join Paths: ${data.from} → ${data.to}\n\n`;
+          if (data.paths.length === 0) {
+            markdown += "No connection found within the hop limit. Try a larger 'depth'.\n";
+          }
+          data.paths.forEach((path: ErdJoinPath, index: number) => {
+            markdown += `## Path ${index + 1}: ${path.tables.join(" → ")} (${path.steps.length} join${path.steps.length === 1 ? "" : "s"})\n\n`;
+            markdown += "```sql\n";
+            markdown += `FROM ${data.from}\n`;
+            markdown += path.joins.join("\n");
+            markdown += "\n```\n\n";
+            markdown += "| From | To | Join | Direction | Relation |\n";
+            markdown += "|------|----|------|-----------|----------|\n";
+            path.steps.forEach(step => {
+              markdown += `| ${step.from} | ${step.to} | ${joinCondition(step)} | ${step.direction} | ${this.edgeLabel(step)} |\n`;
+            });
+            markdown += "\n";
+          });
+          break;
+
+        case "references":
+          markdown += `# References to ${data.table}\n\n`;
+          if (data.references.length === 0) {
+            markdown += "No foreign keys reference this table.\n";
+            break;
+          }
+          markdown += "| Table | Column | References | Relation |\n";
+          markdown += "|-------|--------|------------|----------|\n";
+          data.references.forEach((edge: ErdEdge) => {
+            markdown += `| ${edge.fromTable} | ${edge.fromColumn} | ${edge.toTable}.${edge.toColumn} | ${this.edgeLabel(edge)} |\n`;
+          });
+          break;
+
+        case "neighbours":
+          markdown += `# Neighbours of ${data.table}\n\n`;
+          if (data.neighbours.length === 0) {
+            markdown += "This table has no relations.\n";
+            break;
+          }
+          markdown += "| Table | Hops | Reached From | Join | Direction |\n";
+          markdown += "|-------|------|--------------|------|-----------|\n";
+          data.neighbours.forEach((neighbour: ErdNeighbour) => {
+            markdown += `| ${neighbour.table} | ${neighbour.distance} | ${neighbour.via.from} | ${joinCondition(neighbour.via)} | ${neighbour.via.direction} |\n`;
+          });
+          break;
+      }
+
+      return markdown;
+    } catch (error) {
+      return `Failed to convert ERD relationships to markdown: ${error}. Please use JSON format instead.`;
+    }
+  }
+}
+
+export default ERDGraphTool;
@@ -1,10 +1,20 @@
 import axios from "axios";
 import { MCPTool } from "mcp-framework";
 import { z } from "zod";
+import { backendSelectionSchema, BackendSelection, resolveBackend, sourceNotConfiguredMessage } from "../utils/backendConfig.js";
+import { erdToMermaid, erdToPlantUml } from "../utils/erdDiagram.js";
+import { loadErdDocument } from "../utils/erdSources.js";
+import { findTableName, normalizeErd, subsetErd, tableNames, tableNeighbourhood } from "../utils/erdModel.js";
+import { closestMatches } from "../utils/swaggerFilter.js";
 
-interface ERDToolInput {
+const DEFAULT_NEIGHBOUR_DEPTH = 1;
+
+interface ERDToolInput extends BackendSelection {
   options?: {
     format?: string;
+    table?: string;
+    depth?: number;
+    refresh?: boolean;
   };
 }
 
@@ -13,25 +23,30 @@ class ERDTool extends MCPTool<ERDToolInput> {
   description = "Retrieves Entity-Relationship Diagram (ERD) information to understand backend database schema and relationships.";
 
   schema = {
+    ...backendSelectionSchema,
     options: {
       type: z.object({
-        format: z.enum(["json", "markdown"]).optional().default("json"),
+        format: z.enum(["json", "markdown", "mermaid", "plantuml"]).optional().default("json"),
+        table: z.string().optional(),
+        depth: z.number().int().min(0).max(10).optional(),
+        refresh: z.boolean().optional(),
       }).optional(),
-      description: "Response format options: 'json' or 'markdown'",
+      description: "Response format options: 'json', 'markdown', 'mermaid' (erDiagram) or 'plantuml'. 'table' limits the output to that table and its neighbours up to 'depth' relation hops away (default 1). 'refresh: true' bypasses the document cache",
     },
   };
 
   async execute(input: ERDToolInput): Promise<any> {
     try {
       const format = input.options?.format || "json";
-      const erdApiUrl = process.env.ERD_API_URL;
+      const backend = await resolveBackend(input);
+      const erdApiUrl = backend.erdUrl;
       
       if (!erdApiUrl) {
         const errorResponse = {
           content: [
             {
               type: "text",
-              text: "ERD_API_URL is not set in the environment variables"
+              text: sourceNotConfiguredMessage("erd", backend)
             }
           ]
         };
@@ -39,10 +54,60 @@ class ERDTool extends MCPTool<ERDToolInput> {
       }
       
       try {
-        const response = await axios.get(erdApiUrl);
+        let data = await loadErdDocument(erdApiUrl, backend.erdAuth, { refresh: input.options?.refresh });
+        let model = normalizeErd(data);
+        
+        // Cut the ERD down to the requested table and its neighbours
+        if (input.options?.table && model) {
+          const tableName = findTableName(model, input.options.table);
+          
+          if (!tableName) {
+            const suggestions = closestMatches(input.options.table, tableNames(model));
+            const notFoundResponse = {
+              content: [
+                {
+                  type: "text",
+                  text: `Table '${input.options.table}' was not found in the ERD.${suggestions.length > 0 ? ` Did you mean: ${suggestions.join(", ")}?` : ""}`
+                }
+              ]
+            };
+            return notFoundResponse;
+          }
+          
+          model = subsetErd(model, tableNeighbourhood(model, tableName, input.options.depth ?? DEFAULT_NEIGHBOUR_DEPTH));
+          data = { ...data, tables: model.tables };
+          if (Array.isArray(data.relations)) {
+            data.relations = model.relations;
+          }
+        }
+        
+        if (format === "mermaid" || format === "plantuml") {
+          if (!model) {
+            const errorResponse = {
+              content: [
+                {
+                  type: "text",
+                  text: "ERD data has no 'tables' array and cannot be rendered as a diagram. Please use JSON format instead."
+                }
+              ]
+            };
+            return errorResponse;
+          }
+          
+          const diagram = format === "mermaid" ? erdToMermaid(model) : erdToPlantUml(model);
+          const diagramResponse = {
+            content: [
+              {
+                type: "text",
+                text: `\`\`\`${format}\n${diagram}\n\`\`\``
+              }
+            ]
+          };
+          return diagramResponse;
+        }
         
         if (format === "markdown") {
-          const markdown = this.convertToMarkdown(response.data);
+          const markdown = this.convertToMarkdown(data);
           const successResponse = {
             content: [
               {
@@ -58,19 +123,19 @@ class ERDTool extends MCPTool<ERDToolInput> {
           content: [
             {
               type: "text",
-              text: JSON.stringify(response.data, null, 2)
+              text: JSON.stringify(data, null, 2)
             }
           ]
         };
         return jsonResponse;
       } catch (requestError) {
-        console.error("ERDTool axios error:", requestError);
+        console.error("ERDTool load error:", requestError);
         let errorMessage = "Unknown error";
         
         if (axios.isAxiosError(requestError)) {
           errorMessage = `Failed to retrieve ERD information: ${requestError.message}`;
         } else if (requestError instanceof Error) {
-          errorMessage = requestError.message;
+          errorMessage = `Failed to load ERD information: ${requestError.message}`;
         }
         
         const errorResponse = {
@@ -128,7 +193,7 @@ class ERDTool extends MCPTool<ERDToolInput> {
             markdown += "\n";
           }
           
-          if (Array.isArray(table.relations)) {
+          if (Array.isArray(table.relations) && table.relations.length > 0) {
             markdown += "#### Relations\n\n";
             
             table.relations.forEach((relation: any) => {
@@ -0,0 +1,153 @@
+import { MCPTool } from "mcp-framework";
+import { z } from "zod";
+import { describeAuth } from "../utils/auth.js";
+import { DEFAULT_BACKEND, getConfigPath, loadBackendsConfig, resolveBackend } from "../utils/backendConfig.js";
+
+interface ListBackendsToolInput {
+  options?: {
+    format?: string;
+  };
+}
+
+interface BackendSummary {
+  name: string;
+  description?: string;
+  default: boolean;
+  defaultEnvironment?: string;
+  environments: string[];
+  erd: boolean;
+  swagger: boolean;
+  mongodb: boolean;
+  sql: boolean;
+  erdAuth: string;
+  swaggerAuth: string;
+}
+
+class ListBackendsTool extends MCPTool<ListBackendsToolInput> {
+  name = "list_backends";
+  description = "Lists the configured backends and their environments, and which data sources (ERD, Swagger, MongoDB, SQL) each one provides. Pass a backend name as 'backend' (and optionally 'environment') to the other tools.";
+
+  schema = {
+    options: {
+      type: z.object({
+        format: z.enum(["json", "markdown"]).optional().default("json"),
+      }).optional(),
+      description: "Response format options: 'json' or 'markdown'",
+    },
+  };
+
+  async execute(input: ListBackendsToolInput): Promise<any> {
+    try {
+      const format = input.options?.format || "json";
+      const config = await loadBackendsConfig();
+      const backends: BackendSummary[] = [];
+
+      if (!config) {
+        const backend = await resolveBackend();
+        backends.push({
+          name: DEFAULT_BACKEND,
+          description: "Configured from environment variables",
+          default: true,
+          environments: [],
+          erd: !!backend.erdUrl,
+          swagger: !!backend.swaggerUrl,
+          mongodb: !!backend.mongodbUri,
+          sql: !!backend.sqlUri,
+          erdAuth: describeAuth(backend.erdAuth),
+          swaggerAuth: describeAuth(backend.swaggerAuth),
+        });
+      } else {
+        const defaultName = config.defaultBackend
+          || (Object.keys(config.backends).length === 1 ? Object.keys(config.backends)[0] : undefined);
+
+        for (const [name, definition] of Object.entries(config.backends)) {
+          // Report sources for the default environment, which is what tools use when none is given
+          const backend = await resolveBackend({ backend: name });
+          backends.push({
+            name,
+            description: definition.description,
+            default: name === defaultName,
+            defaultEnvironment: definition.defaultEnvironment,
+            environments: Object.keys(definition.environments || {}),
+            erd: !!backend.erdUrl,
+            swagger: !!backend.swaggerUrl,
+            mongodb: !!backend.mongodbUri,
+            sql: !!backend.sqlUri,
+            erdAuth: describeAuth(backend.erdAuth),
+            swaggerAuth: describeAuth(backend.swaggerAuth),
+          });
+        }
+      }
+
+      const result = {
+        configFile: getConfigPath() || null,
+        backends,
+      };
+
+      if (format === "markdown") {
+        const markdown = this.convertToMarkdown(result);
+        const markdownResponse = {
+          content: [
+            {
+              type: "text",
+              text: markdown
+            }
+          ]
+        };
+        return markdownResponse;
+      }
+
+      const jsonResponse = {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+      return jsonResponse;
+    } catch (error) {
+      console.error("ListBackendsTool unexpected error:", error);
+      let errorMessage = "Unknown error";
+
+      if (error instanceof Error) {
+        errorMessage = `Failed to list backends: ${error.message}`;
+      }
+
+      const errorResponse = {
+        content: [
+          {
+            type: "text",
+            text: errorMessage
+          }
+        ]
+      };
+      return errorResponse;
+    }
+  }
+
+  private convertToMarkdown(result: { configFile: string | null, backends: BackendSummary[] }): string {
+    try {
+      let markdown = "# Configured Backends\n\n";
+      markdown += result.configFile
+        ? `Config file: ${result.configFile}\n\n`
+        : "No config file set; using environment variables.\n\n";
+
+      markdown += "| Backend | Description | Environments | ERD | Swagger | MongoDB | SQL | ERD Auth | Swagger Auth |\n";
+      markdown += "|---------|-------------|--------------|-----|---------|---------|-----|----------|--------------|\n";
+
+      result.backends.forEach((backend) => {
+        const environments = backend.environments
+          .map(env => env === backend.defaultEnvironment ? `${env} (default)` : env)
+          .join(", ");
+        markdown += `| ${backend.name}${backend.default ? ' (default)' : ''} | ${backend.description || ''} | ${environments} | ${backend.erd ? 'Set' : 'Not Set'} | ${backend.swagger ? 'Set' : 'Not Set'} | ${backend.mongodb ? 'Set' : 'Not Set'} | ${backend.sql ? 'Set' : 'Not Set'} | ${backend.erdAuth} | ${backend.swaggerAuth} |\n`;
+      });
+
+      return markdown;
+    } catch (error) {
+      return `Failed to convert backend list to markdown: ${error}. Please use JSON format instead.`;
+    }
+  }
+}
+
+export default ListBackendsTool;
@@ -0,0 +1,227 @@
+import axios from "axios";
+import { MCPTool } from "mcp-framework";
+import { z } from "zod";
+import { loadDocument } from "../utils/documentLoader.js";
+import { backendSelectionSchema, BackendSelection, resolveBackend, sourceNotConfiguredMessage } from "../utils/backendConfig.js";
+import { EndpointSummary, endpointsByTag, escapeMarkdownCell, listEndpoints, TaggedEndpoint } from "../utils/swaggerSpec.js";
+import { filterSwaggerDocument, hasSwaggerFilter, SwaggerFilter } from "../utils/swaggerFilter.js";
+
+interface ListEndpointsToolInput extends BackendSelection {
+  options?: {
+    format?: string;
+    page?: number;
+    pageSize?: number;
+    groupBy?: string;
+    path?: string;
+    method?: string;
+    tag?: string;
+  };
+}
+
+class ListEndpointsTool extends MCPTool<ListEndpointsToolInput> {
+  name = "list_endpoints";
+  description = "Lists the API surface from the Swagger documentation as a compact index (method, path, operationId, tags, summary, deprecation). Use it to browse first, then call get_swagger with 'operationId' or 'path' for details.";
+
+  schema = {
+    ...backendSelectionSchema,
+    options: {
+      type: z.object({
+        format: z.enum(["json", "markdown"]).optional().default("markdown"),
+        page: z.number().int().min(1).optional().default(1),
+        pageSize: z.number().int().min(1).max(500).optional().default(50),
+        groupBy: z.enum(["none", "tag"]).optional().default("none"),
+        path: z.string().optional(),
+        method: z.string().optional(),
+        tag: z.string().optional(),
+      }).optional(),
+      description: "Response format ('json' or 'markdown'), pagination ('page', 'pageSize'), grouping ('none' or 'tag'; an endpoint with several tags is listed under each) and optional 'path'/'method'/'tag' filters (same matching rules as get_swagger)",
+    },
+  };
+
+  async execute(input: ListEndpointsToolInput): Promise<any> {
+    try {
+      const format = input.options?.format || "markdown";
+      const page = input.options?.page || 1;
+      const pageSize = input.options?.pageSize || 50;
+      const groupBy = input.options?.groupBy || "none";
+      const filter: SwaggerFilter = {
+        path: input.options?.path,
+        method: input.options?.method,
+        tag: input.options?.tag,
+      };
+      const backend = await resolveBackend(input);
+      const swaggerApiUrl = backend.swaggerUrl;
+
+      if (!swaggerApiUrl) {
+        const errorResponse = {
+          content: [
+            {
+              type: "text",
+              text: sourceNotConfiguredMessage("swagger", backend)
+            }
+          ]
+        };
+        return errorResponse;
+      }
+
+      let data;
+      try {
+        data = await loadDocument(swaggerApiUrl, backend.swaggerAuth);
+      } catch (requestError) {
+        console.error("ListEndpointsTool load error:", requestError);
+        let errorMessage = "Unknown error";
+
+        if (axios.isAxiosError(requestError)) {
+          errorMessage = `Failed to retrieve Swagger information: ${requestError.message}`;
+        } else if (requestError instanceof Error) {
+          errorMessage = `Failed to load Swagger information: ${requestError.message}`;
+        }
+
+        const errorResponse = {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ]
+        };
+        return errorResponse;
+      }
+
+      let suggestions: string[] = [];
+      if (hasSwaggerFilter(filter)) {
+        const filtered = filterSwaggerDocument(data, filter);
+        data = filtered.doc;
+        suggestions = filtered.suggestions;
+      }
+
+      const endpoints = listEndpoints(data);
+      // Grouped pages are cut from the tag entries, so a group continues where the last page stopped
+      const entries = groupBy === "tag" ? endpointsByTag(endpoints) : endpoints.map(endpoint => ({ tag: "", endpoint }));
+
+      const total = entries.length;
+      const totalPages = Math.max(1, Math.ceil(total / pageSize));
+      const pageEntries = entries.slice((page - 1) * pageSize, page * pageSize);
+      const pageEndpoints = pageEntries.map(entry => entry.endpoint);
+
+      const result = {
+        total,
+        page,
+        pageSize,
+        totalPages,
+        ...(groupBy === "tag"
+          ? { totalEndpoints: endpoints.length, groups: this.groupByTag(pageEntries) }
+          : { endpoints: pageEndpoints }),
+        ...(suggestions.length > 0 ? { suggestions } : {}),
+      };
+
+      if (format === "markdown") {
+        const markdown = this.convertToMarkdown(result, pageEndpoints, groupBy);
+        const markdownResponse = {
+          content: [
+            {
+              type: "text",
+              text: markdown
+            }
+          ]
+        };
+        return markdownResponse;
+      }
+
+      const jsonResponse = {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+      return jsonResponse;
+    } catch (error) {
+      console.error("ListEndpointsTool unexpected error:", error);
+      let errorMessage = "Unknown error";
+
+      if (error instanceof Error) {
+        errorMessage = `Failed to list API endpoints: ${error.message}`;
+      }
+
+      const errorResponse = {
+        content: [
+          {
+            type: "text",
+            text: errorMessage
+          }
+        ]
+      };
+      return errorResponse;
+    }
+  }
+
+  private groupByTag(entries: TaggedEndpoint[]): Record<string, EndpointSummary[]> {
+    const groups: Record<string, EndpointSummary[]> = {};
+
+    entries.forEach(({ tag, endpoint }) => {
+      groups[tag] = groups[tag] || [];
+      groups[tag].push(endpoint);
+    });
+
+    return groups;
+  }
+
+  private convertToMarkdown(result: any, endpoints: EndpointSummary[], groupBy: string): string {
+    try {
+      let markdown = "# API Endpoints\n\n";
+
+      if (result.total === 0) {
+        markdown += "No API endpoints matched.\n\n";
+
+        if (result.suggestions) {
+          markdown += "Did you mean:\n\n";
+          result.suggestions.forEach((suggestion: string) => {
+            markdown += `- ${suggestion}\n`;
+          });
+        }
+
+        return markdown;
+      }
+
+      if (groupBy === "tag") {
+        markdown += `Showing ${endpoints.length} of ${result.total} tag entries for ${result.totalEndpoints} endpoints (page ${result.page} of ${result.totalPages}). Endpoints with several tags are listed under each.\n\n`;
+      } else {
+        markdown += `Showing ${endpoints.length} of ${result.total} endpoints (page ${result.page} of ${result.totalPages}).\n\n`;
+      }
+
+      if (groupBy === "tag") {
+        Object.entries(result.groups as Record<string, EndpointSummary[]>).forEach(([tag, group]) => {
+          markdown += `## ${tag}\n\n`;
+          markdown += this.endpointTable(group);
+        });
+      } else {
+        markdown += this.endpointTable(endpoints);
+      }
+
+      if (result.page < result.totalPages) {
+        markdown += `More endpoints available: request \`page: ${result.page + 1}\`.\n\n`;
+      }
+
+      markdown += "Use `get_swagger` with `operationId` or `path` to see parameters and schemas for an endpoint.\n";
+
+      return markdown;
+    } catch (error) {
+      return `Failed to convert endpoint list to markdown: ${error}. Please use JSON format instead.`;
+    }
+  }
+
+  private endpointTable(endpoints: EndpointSummary[]): string {
+    let markdown = "| Method | Path | Operation ID | Tags | Summary | Deprecated |\n";
+    markdown += "|--------|------|--------------|------|---------|------------|\n";
+
+    endpoints.forEach((endpoint) => {
+      markdown += `| ${endpoint.method.toUpperCase()} | ${endpoint.path} | ${endpoint.operationId || ''} | ${escapeMarkdownCell(endpoint.tags.join(', '))} | ${escapeMarkdownCell(endpoint.summary || '')} | ${endpoint.deprecated ? 'Yes' : ''} |\n`;
+    });
+
+    return markdown + "\n";
+  }
+}
+
+export default ListEndpointsTool;
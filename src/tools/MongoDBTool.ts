@@ -1,14 +1,65 @@
 import { MCPTool } from "mcp-framework";
-import { MongoClient, ObjectId } from "mongodb";
+import { Db, MongoClient } from "mongodb";
 import { z } from "zod";
+import {
+  backendSelectionSchema,
+  BackendSelection,
+  ResolvedBackend,
+  resolveBackend,
+  sourceNotConfiguredMessage,
+} from "../utils/backendConfig.js";
+import {
+  ALLOWED_PIPELINE_STAGES,
+  assertAllowedPipeline,
+  assertPlainProjection,
+  assertSafeMongoInput,
+  clampLimit,
+  getMongoMaxLimit,
+  getMongoMaxTimeMs,
+  mongoClientOptions,
+} from "../utils/mongoSafety.js";
+import { DatabaseInfo, listExposedDatabases, selectDatabase } from "../utils/mongoDatabases.js";
+import { CollectionMetadata, formatIndexKey, indexProperties, loadCollectionMetadata } from "../utils/mongoMetadata.js";
+import { EjsonMode, parseMongoJson, stringifyMongoJson } from "../utils/mongoJson.js";
+import { ExplainSummary, leadingMatchAndSort, summarizeExplain } from "../utils/mongoExplain.js";
+import { erdToMermaid } from "../utils/erdDiagram.js";
+import { generateModel, MODEL_FORMATS, ModelFormat } from "../utils/mongoModel.js";
+import { DEFAULT_REFERENCE_SAMPLE_SIZE, inferReferences, MongoRelation, referencesToErdModel, UnresolvedReference } from "../utils/mongoReferences.js";
+import { assertFieldPath, FIELD_STATS_MAX_DOCUMENTS, FieldStats, fieldStatsPipeline, summarizeFieldStats } from "../utils/mongoFieldStats.js";
+import {
+  afterCursorFilter,
+  decodeCursor,
+  fitPageToBudget,
+  getPageCharBudget,
+  nextCursor,
+  normalizeSort,
+  PageFit,
+  projectionWithFields,
+  queryFingerprint,
+  removeFields,
+} from "../utils/mongoPaging.js";
+import { DEFAULT_SCHEMA_SAMPLE_SIZE, InferredField, inferFields, MAX_SCHEMA_SAMPLE_SIZE } from "../utils/mongoSchema.js";
+import { aggregationRedactionRules, loadRedactionConfig, redactDocuments, redactFieldValue, redactionRules } from "../utils/redaction.js";
 
-interface MongoDBToolInput {
-  action: "listCollections" | "describeCollection" | "sampleData" | "query";
+type QueryPaging = NonNullable<MongoDBToolInput["options"]>;
+
+interface MongoDBToolInput extends BackendSelection {
+  action: "listDatabases" | "listCollections" | "describeCollection" | "describeIndexes" | "sampleData" | "query" | "aggregate" | "explain" | "fieldStats" | "inferReferences";
+  database?: string;
   collection?: string;
+  field?: string;
   query?: string;
+  pipeline?: string;
   options?: {
     format?: string;
+    ejson?: EjsonMode;
     limit?: number;
+    sampleSize?: number;
+    projection?: Record<string, any>;
+    sort?: Record<string, 1 | -1>;
+    skip?: number;
+    cursor?: string;
+    explain?: boolean;
   };
 }
 
@@ -19,207 +70,299 @@ interface MongoCollection {
   size: number;
 }
 
-interface MongoField {
-  name: string;
-  type: string;
-  count: number;
-}
-
 class MongoDBTool extends MCPTool<MongoDBToolInput> {
   name = "mongodb_explorer";
   description = "Explore MongoDB database information including collections, schemas, and sample data.";
-  private mongoClient: MongoClient | null = null;
+  // One client per connection string, shared across calls
+  private mongoClients = new Map<string, MongoClient>();
 
   schema = {
+    ...backendSelectionSchema,
     action: {
-      type: z.enum(["listCollections", "describeCollection", "sampleData", "query"]),
-      description: "Action to perform: list collections, describe collection schema, view sample data, or run a query",
+      type: z.enum(["listDatabases", "listCollections", "describeCollection", "describeIndexes", "sampleData", "query", "aggregate", "explain", "fieldStats", "inferReferences"]),
+      description: "Action to perform: list databases, list collections, describe collection schema, describe indexes/validator/collection options, view sample data, run a query, run an aggregation pipeline, explain the plan of a query or pipeline (index used, collection scans, documents examined, execution time), get the value distribution of one field, or infer references between collections (fields holding ids of documents in other collections)",
+    },
+    database: {
+      type: z.string().optional(),
+      description: "Database to use (see listDatabases). Defaults to the database in the connection string."
     },
     collection: {
       type: z.string().optional(),
-      description: "MongoDB collection name to operate on"
+      description: "MongoDB collection name to operate on. Optional for 'inferReferences', which analyses every collection without it."
+    },
+    field: {
+      type: z.string().optional(),
+      description: "Field path for 'fieldStats', e.g. 'status' or 'items.price'. Returns distinct values with counts (top 'limit'), null/missing ratios, min/max/avg of numbers and dates, string lengths and a histogram. 'query' optionally restricts the documents."
     },
     query: {
       type: z.string().optional(),
-      description: "MongoDB query in JSON format. Required when action is 'query'."
+      description: "MongoDB filter in Extended JSON (e.g. {\"_id\": {\"$oid\": \"...\"}}); shell syntax such as ObjectId(\"...\"), ISODate(\"...\") and /regex/ is accepted too. Required when action is 'query', or 'explain' without a pipeline."
+    },
+    pipeline: {
+      type: z.string().optional(),
+      description: `Aggregation pipeline as an Extended JSON array of stages (shell syntax is accepted too). Required when action is 'aggregate'; with 'explain', the pipeline is explained instead of the query. Allowed stages: ${ALLOWED_PIPELINE_STAGES.join(", ")}`
     },
     options: {
       type: z.object({
-        format: z.enum(["json", "markdown"]).optional().default("json"),
-        limit: z.number().optional().default(10),
+        format: z.enum(["json", "markdown", "mermaid", "jsonSchema", "typescript", "zod"]).optional().default("json"),
+        ejson: z.enum(["relaxed", "canonical"]).optional().default("relaxed"),
+        limit: z.number().int().min(1).optional().default(10),
+        sampleSize: z.number().int().min(1).max(MAX_SCHEMA_SAMPLE_SIZE).optional(),
+        projection: z.record(z.any()).optional(),
+        sort: z.record(z.union([z.literal(1), z.literal(-1)])).optional(),
+        skip: z.number().int().min(0).optional(),
+        cursor: z.string().optional(),
+        explain: z.boolean().optional(),
       }).optional(),
-      description: "Response format and result limit options",
+      description: `Response format ('mermaid' renders the 'inferReferences' map as an erDiagram; 'jsonSchema', 'typescript' and 'zod' generate a model of the collection from 'describeCollection'), 'ejson' output mode ('relaxed' or 'canonical' Extended JSON) and result limit options (the limit is capped at ${getMongoMaxLimit()} documents). 'sampleSize' is the number of random documents 'describeCollection' infers the schema from (default ${DEFAULT_SCHEMA_SAMPLE_SIZE}), 'fieldStats' analyses (default: all documents, or a sample of ${FIELD_STATS_MAX_DOCUMENTS} in larger collections) and 'inferReferences' samples per collection (default ${DEFAULT_REFERENCE_SAMPLE_SIZE}). For 'query': 'projection' (fields set to 0 or 1, plus $slice and $elemMatch) and 'sort' objects, 'skip', and 'cursor' (the 'nextCursor' of the previous page, with the same query and sort) to continue paging. 'explain': true makes 'query' and 'aggregate' return the execution plan summary instead of documents.`,
     },
   };
 
-  private async getClient(): Promise<MongoClient> {
-    if (!this.mongoClient) {
-      const mongoUri = process.env.MONGODB_URI || process.env.MONGODB_CONNECTION_STRING;
-      
-      if (!mongoUri) {
-        throw new Error("MongoDB connection string not found in environment variables. Please set MONGODB_URI or MONGODB_CONNECTION_STRING");
-      }
-      
-      this.mongoClient = new MongoClient(mongoUri);
-      await this.mongoClient.connect();
+  private async getClient(backend: ResolvedBackend): Promise<MongoClient> {
+    const mongoUri = backend.mongodbUri;
+    
+    if (!mongoUri) {
+      throw new Error(backend.fromConfig
+        ? sourceNotConfiguredMessage("mongodb", backend)
+        : "MongoDB connection string not found in environment variables. Please set MONGODB_URI or MONGODB_CONNECTION_STRING");
+    }
+    
+    let client = this.mongoClients.get(mongoUri);
+    if (!client) {
+      client = new MongoClient(mongoUri, mongoClientOptions());
+      await client.connect();
+      this.mongoClients.set(mongoUri, client);
     }
-    return this.mongoClient;
+    return client;
   }
 
   async execute(input: MongoDBToolInput): Promise<any> {
     try {
       const format = input.options?.format || "json";
-      const limit = input.options?.limit || 10;
+      const ejson = input.options?.ejson || "relaxed";
+      if (format === "mermaid" && input.action !== "inferReferences") {
+        return this.textResponse("The 'mermaid' format is only available for the 'inferReferences' action.");
+      }
+      if (MODEL_FORMATS.includes(format as ModelFormat) && input.action !== "describeCollection") {
+        return this.textResponse(`The '${format}' format is only available for the 'describeCollection' action.`);
+      }
+      const limit = clampLimit(input.options?.limit);
       
       let result;
 
       try {
-        const client = await this.getClient();
+        const backend = await resolveBackend(input);
+        const client = await this.getClient(backend);
+        
+        let db: Db;
+        try {
+          db = selectDatabase(client, backend.mongodbDatabases, input.database);
+        } catch (e) {
+          return this.textResponse(e instanceof Error ? e.message : String(e));
+        }
         
         switch (input.action) {
+          case "listDatabases":
+            result = { databases: await listExposedDatabases(client, backend.mongodbDatabases) };
+            break;
           case "listCollections":
-            result = await this.listCollections(client);
+            result = await this.listCollections(db);
             break;
           case "describeCollection":
             if (!input.collection) {
-              const errorResponse = {
-                content: [
-                  {
-                    type: "text",
-                    text: "Collection name is required."
-                  }
-                ]
-              };
-              return errorResponse;
+              return this.textResponse("Collection name is required.");
+            }
+            result = await this.describeCollection(client, db, input.collection, input.options?.sampleSize || DEFAULT_SCHEMA_SAMPLE_SIZE);
+            break;
+          case "describeIndexes":
+            if (!input.collection) {
+              return this.textResponse("Collection name is required.");
+            }
+            result = await loadCollectionMetadata(client, db, input.collection);
+            if (!result) {
+              return this.textResponse(`Collection '${input.collection}' was not found.`);
             }
-            result = await this.describeCollection(client, input.collection);
             break;
           case "sampleData":
             if (!input.collection) {
-              const errorResponse = {
-                content: [
-                  {
-                    type: "text",
-                    text: "Collection name is required."
-                  }
-                ]
-              };
-              return errorResponse;
+              return this.textResponse("Collection name is required.");
             }
-            result = await this.getSampleData(client, input.collection, limit);
+            result = await this.getSampleData(db, input.collection, limit);
             break;
-          case "query":
+          case "query": {
             if (!input.collection) {
-              const errorResponse = {
-                content: [
-                  {
-                    type: "text",
-                    text: "Collection name is required."
-                  }
-                ]
-              };
-              return errorResponse;
+              return this.textResponse("Collection name is required.");
             }
             if (!input.query) {
-              const errorResponse = {
-                content: [
-                  {
-                    type: "text",
-                    text: "Query is required."
-                  }
-                ]
-              };
-              return errorResponse;
+              return this.textResponse("Query is required.");
+            }
+            
+            const { query, error } = this.parseQuery(input.query, input.options?.projection);
+            if (error) {
+              return this.textResponse(error);
+            }
+            
+            result = input.options?.explain
+              ? await this.explainQuery(db, input.collection, query, limit, input.options)
+              : await this.runQuery(db, input.collection, query, limit, input.options || {});
+            break;
+          }
+          case "aggregate": {
+            if (!input.collection) {
+              return this.textResponse("Collection name is required.");
+            }
+            if (!input.pipeline) {
+              return this.textResponse("Pipeline is required.");
+            }
+            
+            const { pipeline, error } = this.parsePipeline(input.pipeline);
+            if (error) {
+              return this.textResponse(error);
+            }
+            
+            result = input.options?.explain
+              ? await this.explainAggregation(db, input.collection, pipeline, limit)
+              : await this.runAggregation(db, input.collection, pipeline, limit);
+            break;
+          }
+          case "explain": {
+            if (!input.collection) {
+              return this.textResponse("Collection name is required.");
+            }
+            
+            if (input.pipeline) {
+              const { pipeline, error } = this.parsePipeline(input.pipeline);
+              if (error) {
+                return this.textResponse(error);
+              }
+              result = await this.explainAggregation(db, input.collection, pipeline, limit);
+            } else if (input.query) {
+              const { query, error } = this.parseQuery(input.query, input.options?.projection);
+              if (error) {
+                return this.textResponse(error);
+              }
+              result = await this.explainQuery(db, input.collection, query, limit, input.options || {});
+            } else {
+              return this.textResponse("Query or pipeline is required.");
+            }
+            break;
+          }
+          case "fieldStats": {
+            if (!input.collection) {
+              return this.textResponse("Collection name is required.");
+            }
+            if (!input.field) {
+              return this.textResponse("Field is required.");
             }
             
-            let query;
             try {
-              query = JSON.parse(input.query);
+              assertFieldPath(input.field);
             } catch (e) {
-              const errorResponse = {
-                content: [
-                  {
-                    type: "text",
-                    text: `Invalid query format: ${e}`
-                  }
-                ]
-              };
-              return errorResponse;
+              return this.textResponse(e instanceof Error ? e.message : String(e));
+            }
+            
+            let filter;
+            if (input.query) {
+              const { query, error } = this.parseQuery(input.query);
+              if (error) {
+                return this.textResponse(error);
+              }
+              filter = query;
             }
             
-            result = await this.runQuery(client, input.collection, query, limit);
+            result = await this.fieldStats(db, input.collection, input.field, filter, limit, input.options?.sampleSize);
+            break;
+          }
+          case "inferReferences":
+            result = await inferReferences(db, input.collection, input.options?.sampleSize || DEFAULT_REFERENCE_SAMPLE_SIZE);
+            if (!result) {
+              return this.textResponse(`Collection '${input.collection}' was not found.`);
+            }
             break;
           default:
-            const errorResponse = {
-              content: [
-                {
-                  type: "text",
-                  text: "Unknown action"
-                }
-              ]
-            };
-            return errorResponse;
+            return this.textResponse("Unknown action");
         }
       } catch (err) {
         console.error("MongoDB operation failed:", err);
-        const errorResponse = {
-          content: [
-            {
-              type: "text",
-              text: `MongoDB operation failed: ${err}`
-            }
-          ]
-        };
-        return errorResponse;
+        return this.textResponse(`MongoDB operation failed: ${err}`);
+      }
+      
+      if (MODEL_FORMATS.includes(format as ModelFormat)) {
+        return this.textResponse(generateModel(format as ModelFormat, input.collection!, result.fields, result.sampleSize));
+      }
+      
+      if (format === "mermaid") {
+        return this.textResponse(erdToMermaid(referencesToErdModel(result.relations)));
       }
       
       if (format === "markdown") {
-        const markdown = this.convertToMarkdown(result, input.action, input.collection);
-        const response = {
-          content: [
-            {
-              type: "text",
-              text: markdown
-            }
-          ]
-        };
-        return response;
+        return this.textResponse(this.convertToMarkdown(result, input.action, input.collection, ejson));
       }
       
-      const response = {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(result, null, 2)
-          }
-        ]
-      };
-      return response;
+      return this.textResponse(stringifyMongoJson(result, ejson));
     } catch (error) {
       console.error("MongoDBTool unexpected error:", error);
-      const errorResponse = {
-        content: [
-          {
-            type: "text",
-            text: `Failed to retrieve MongoDB information: ${error instanceof Error ? error.message : error}`
-          }
-        ]
-      };
-      return errorResponse;
+      return this.textResponse(`Failed to retrieve MongoDB information: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private textResponse(text: string) {
+    return {
+      content: [
+        {
+          type: "text",
+          text
+        }
+      ]
+    };
+  }
+
+  // The parsed filter, or an error message when it is malformed or uses a forbidden operator
+  private parseQuery(text: string, projection?: Record<string, any>): { query?: any, error?: string } {
+    let query;
+    try {
+      query = parseMongoJson(text);
+    } catch (e) {
+      return { error: `Invalid query format: ${e}` };
+    }
+    
+    try {
+      assertSafeMongoInput(query);
+      assertSafeMongoInput(projection);
+      assertPlainProjection(projection);
+    } catch (e) {
+      return { error: `Query rejected: ${e instanceof Error ? e.message : e}` };
     }
+    return { query };
+  }
+
+  private parsePipeline(text: string): { pipeline?: any, error?: string } {
+    let pipeline;
+    try {
+      pipeline = parseMongoJson(text);
+    } catch (e) {
+      return { error: `Invalid pipeline format: ${e}` };
+    }
+    
+    try {
+      assertAllowedPipeline(pipeline);
+      assertSafeMongoInput(pipeline);
+    } catch (e) {
+      return { error: `Pipeline rejected: ${e instanceof Error ? e.message : e}` };
+    }
+    return { pipeline };
   }
 
   // Real MongoDB operations
-  private async listCollections(client: MongoClient): Promise<any> {
-    const db = client.db();
+  private async listCollections(db: Db): Promise<any> {
     const collections = await db.listCollections().toArray();
     
     // Get additional information about each collection
     const collectionsWithInfo = await Promise.all(
       collections.map(async (collection) => {
         const name = collection.name;
-        const count = await db.collection(name).countDocuments();
-        const stats = await db.command({ collStats: name });
+        const count = await db.collection(name).countDocuments({}, { maxTimeMS: getMongoMaxTimeMs() });
+        const stats = await db.command({ collStats: name, maxTimeMS: getMongoMaxTimeMs() });
         
         return {
           name,
@@ -229,101 +372,362 @@ class MongoDBTool extends MCPTool<MongoDBToolInput> {
       })
     );
     
-    return { collections: collectionsWithInfo };
+    return { database: db.databaseName, collections: collectionsWithInfo };
   }
 
-  private async describeCollection(client: MongoClient, collectionName: string): Promise<any> {
-    const db = client.db();
+  private async describeCollection(client: MongoClient, db: Db, collectionName: string, sampleSize: number): Promise<any> {
     const collection = db.collection(collectionName);
     
-    // Sample documents to infer schema
-    const sampleDocs = await collection.find().limit(100).toArray();
+    const totalDocuments = await collection.estimatedDocumentCount({ maxTimeMS: getMongoMaxTimeMs() });
+    // A random sample rather than the oldest documents; promoteValues: false keeps int, long and double apart
+    const sampleDocs = await collection
+      .aggregate([{ $sample: { size: sampleSize } }], { maxTimeMS: getMongoMaxTimeMs(), promoteValues: false })
+      .toArray();
     
-    if (sampleDocs.length === 0) {
-      return {
-        name: collectionName,
-        fields: []
-      };
-    }
+    const rules = redactionRules(await loadRedactionConfig(), collectionName);
+    const fields = inferFields(sampleDocs).map(field => ({
+      ...field,
+      examples: field.examples.map(example => redactFieldValue(example, field.name, rules))
+    }));
+    const metadata = await loadCollectionMetadata(client, db, collectionName);
     
-    // Extract field information
-    const fields: Record<string, { type: string, count: number }> = {};
-    const docCount = await collection.countDocuments();
+    return {
+      name: collectionName,
+      totalDocuments,
+      sampleSize: sampleDocs.length,
+      fields,
+      indexes: metadata?.indexes || [],
+      validator: metadata?.validator,
+      options: metadata?.options,
+      shardKey: metadata?.shardKey
+    };
+  }
+
+  private async getSampleData(db: Db, collectionName: string, limit: number): Promise<any> {
+    const collection = db.collection(collectionName);
     
-    const extractFields = (obj: any, prefix = "") => {
-      for (const [key, value] of Object.entries(obj)) {
-        const fieldName = prefix ? `${prefix}.${key}` : key;
-        
-        if (value === null) {
-          fields[fieldName] = fields[fieldName] || { type: "null", count: 0 };
-          fields[fieldName].count++;
-          continue;
-        }
-        
-        if (value instanceof ObjectId) {
-          fields[fieldName] = fields[fieldName] || { type: "ObjectId", count: 0 };
-          fields[fieldName].count++;
-          continue;
-        }
-        
-        const type = Array.isArray(value) ? "array" : typeof value;
-        
-        fields[fieldName] = fields[fieldName] || { type, count: 0 };
-        fields[fieldName].count++;
-        
-        if (type === "object" && !Array.isArray(value)) {
-          extractFields(value, fieldName);
-        }
+    // Get random sample of documents
+    const data = await collection.aggregate([{ $sample: { size: limit } }], { maxTimeMS: getMongoMaxTimeMs() }).toArray();
+    const page = fitPageToBudget(redactDocuments(data, redactionRules(await loadRedactionConfig(), collectionName)));
+    
+    return { data: page.documents, ...this.truncationInfo(page) };
+  }
+
+  private async runQuery(db: Db, collectionName: string, query: any, limit: number, paging: QueryPaging): Promise<any> {
+    const collection = db.collection(collectionName);
+    
+    const sort = normalizeSort(paging.sort);
+    const fingerprint = queryFingerprint(`${db.databaseName}.${collectionName}`, query, sort);
+    const cursor = paging.cursor ? decodeCursor(paging.cursor, fingerprint) : { position: paging.skip || 0, after: undefined };
+    // The sort fields are needed for the next cursor even when the projection leaves them out
+    const { projection, hidden } = projectionWithFields(paging.projection, sort.map(([field]) => field));
+    const filter = cursor.after ? { $and: [query, afterCursorFilter(sort, cursor.after)] } : query;
+    
+    const total = await collection.countDocuments(query, { maxTimeMS: getMongoMaxTimeMs() });
+    const rows = await collection
+      .find(filter, { projection, sort, maxTimeMS: getMongoMaxTimeMs() })
+      .skip(cursor.after ? 0 : cursor.position)
+      .limit(limit + 1)
+      .toArray();
+    const data = rows.slice(0, limit);
+    const page = fitPageToBudget(removeFields(redactDocuments(data, redactionRules(await loadRedactionConfig(), collectionName)), hidden));
+    const returned = page.documents.length;
+    const hasMore = rows.length > limit || page.droppedDocuments > 0;
+    
+    return {
+      data: page.documents,
+      count: returned,
+      total,
+      position: cursor.position,
+      nextCursor: hasMore && returned > 0 ? nextCursor(data[returned - 1], sort, fingerprint, cursor.position + returned) : undefined,
+      ...this.truncationInfo(page),
+      query,
+      projection: paging.projection,
+      sort: paging.sort
+    };
+  }
+
+  private truncationInfo(page: PageFit<unknown>) {
+    if (page.truncatedValues === 0 && page.droppedDocuments === 0) {
+      return {};
+    }
+    return {
+      truncation: {
+        values: page.truncatedValues,
+        droppedDocuments: page.droppedDocuments,
+        budget: getPageCharBudget()
       }
     };
+  }
+
+  // The limit is always appended, one over, so a cut-off result can be reported
+  private async runAggregation(db: Db, collectionName: string, pipeline: any[], limit: number): Promise<any> {
+    const collection = db.collection(collectionName);
+    // Rejects expressions that copy redacted fields, before the pipeline runs
+    const rules = aggregationRedactionRules(await loadRedactionConfig(), collectionName, pipeline);
     
-    sampleDocs.forEach(doc => extractFields(doc));
+    const rows = await collection
+      .aggregate([...pipeline, { $limit: limit + 1 }], { maxTimeMS: getMongoMaxTimeMs() })
+      .toArray();
+    const page = fitPageToBudget(redactDocuments(rows.slice(0, limit), rules));
     
-    // Convert to array for response
-    const fieldArray = Object.entries(fields).map(([name, info]) => ({
-      name,
-      type: info.type,
-      count: info.count
-    }));
+    return {
+      data: page.documents,
+      count: page.documents.length,
+      truncated: rows.length > limit || page.droppedDocuments > 0,
+      ...this.truncationInfo(page),
+      pipeline
+    };
+  }
+
+  // executionStats runs the query, so it is bound by the same limit and time limit as 'query'
+  private async explainQuery(db: Db, collectionName: string, query: any, limit: number, paging: QueryPaging): Promise<any> {
+    const collection = db.collection(collectionName);
+    
+    const plan = await collection
+      .find(query, { projection: paging.projection, sort: paging.sort, maxTimeMS: getMongoMaxTimeMs() })
+      .skip(paging.skip || 0)
+      .limit(limit)
+      .explain("executionStats");
     
     return {
-      name: collectionName,
-      fields: fieldArray
+      explain: summarizeExplain(plan, query, paging.sort),
+      query,
+      projection: paging.projection,
+      sort: paging.sort
     };
   }
 
-  private async getSampleData(client: MongoClient, collectionName: string, limit: number): Promise<any> {
-    const db = client.db();
+  private async explainAggregation(db: Db, collectionName: string, pipeline: any[], limit: number): Promise<any> {
     const collection = db.collection(collectionName);
     
-    // Get random sample of documents
-    const data = await collection.aggregate([{ $sample: { size: limit } }]).toArray();
+    const plan = await collection
+      .aggregate([...pipeline, { $limit: limit }], { maxTimeMS: getMongoMaxTimeMs() })
+      .explain("executionStats");
+    // Only leading $match and $sort stages can use an index
+    const { filter, sort } = leadingMatchAndSort(pipeline);
     
-    return { data };
+    return {
+      explain: summarizeExplain(plan, filter, sort),
+      pipeline
+    };
   }
 
-  private async runQuery(client: MongoClient, collectionName: string, query: any, limit: number): Promise<any> {
-    const db = client.db();
+  // Reported values are redacted like document values, so a masked field only shows counts
+  private async fieldStats(db: Db, collectionName: string, field: string, filter: any, topN: number, sampleSize?: number): Promise<any> {
     const collection = db.collection(collectionName);
     
-    const total = await collection.countDocuments(query);
-    const data = await collection.find(query).limit(limit).toArray();
+    const totalDocuments = await collection.estimatedDocumentCount({ maxTimeMS: getMongoMaxTimeMs() });
+    const size = sampleSize || (totalDocuments > FIELD_STATS_MAX_DOCUMENTS ? FIELD_STATS_MAX_DOCUMENTS : undefined);
+    const [facets] = await collection
+      .aggregate(fieldStatsPipeline(field, filter, topN, size), { maxTimeMS: getMongoMaxTimeMs() })
+      .toArray();
+    const stats = summarizeFieldStats(field, facets || {}, size !== undefined);
+    
+    const rules = redactionRules(await loadRedactionConfig(), collectionName);
+    const redact = (value: any) => redactFieldValue(value, field, rules) as any;
+    const redactRange = <T>(range?: { count: number, min: T, max: T, avg: T }) =>
+      range && { ...range, min: redact(range.min), max: redact(range.max), avg: redact(range.avg) };
     
     return {
-      data,
-      count: data.length,
-      total,
-      query
+      collection: collectionName,
+      totalDocuments,
+      query: filter,
+      ...stats,
+      topValues: stats.topValues.map(entry => ({ ...entry, value: redact(entry.value) })),
+      number: redactRange(stats.number),
+      date: redactRange(stats.date),
+      histogram: stats.histogram && {
+        type: stats.histogram.type,
+        buckets: stats.histogram.buckets.map(bucket => ({ ...bucket, min: redact(bucket.min), max: redact(bucket.max) }))
+      }
     };
   }
 
-  private convertToMarkdown(data: any, action: string, collection?: string): string {
+  private formatCell(value: unknown): string {
+    let text: string;
+    if (value === null || value === undefined) {
+      text = "";
+    } else if (value instanceof Date) {
+      text = value.toISOString();
+    } else if (typeof value === "object" && "_bsontype" in value) {
+      // ObjectId, Decimal128, Long, ...
+      text = String(value);
+    } else if (typeof value === "object") {
+      text = stringifyMongoJson(value, "relaxed", 0);
+    } else {
+      text = String(value);
+    }
+    return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+  }
+
+  private documentsToTable(documents: Record<string, any>[]): string {
+    if (documents.length === 0) {
+      return "No documents.\n\n";
+    }
+    
+    const columns = Array.from(new Set(documents.flatMap(doc => Object.keys(doc))));
+    let markdown = `| ${columns.join(" | ")} |\n`;
+    markdown += `|${columns.map(() => "---").join("|")}|\n`;
+    documents.forEach(doc => {
+      markdown += `| ${columns.map(column => this.formatCell(doc[column])).join(" | ")} |\n`;
+    });
+    return markdown + "\n";
+  }
+
+  private metadataToMarkdown(metadata: Partial<CollectionMetadata>, ejson: EjsonMode): string {
+    let markdown = "### Indexes\n\n";
+    
+    if (!metadata.indexes || metadata.indexes.length === 0) {
+      markdown += "No indexes.\n\n";
+    } else {
+      markdown += "| Name | Keys | Properties | Size (bytes) |\n";
+      markdown += "|------|------|------------|--------------|\n";
+      metadata.indexes.forEach(index => {
+        markdown += `| ${index.name} | ${formatIndexKey(index.key)} | ${indexProperties(index).join(", ").replace(/\|/g, "\\|")} | ${index.sizeBytes ?? ''} |\n`;
+      });
+      markdown += "\n";
+    }
+    
+    if (metadata.validator) {
+      markdown += "### Validator\n\n";
+      if (metadata.validationLevel || metadata.validationAction) {
+        markdown += `Level: ${metadata.validationLevel || 'strict'}, action: ${metadata.validationAction || 'error'}\n\n`;
+      }
+      markdown += "```json\n" + stringifyMongoJson(metadata.validator, ejson) + "\n```\n\n";
+    }
+    
+    if (metadata.shardKey) {
+      markdown += `### Shard Key\n\n${formatIndexKey(metadata.shardKey.key)}${metadata.shardKey.unique ? " (unique)" : ""}\n\n`;
+    }
+    
+    if (metadata.options && Object.keys(metadata.options).length > 0) {
+      markdown += "### Collection Options\n\n";
+      markdown += "```json\n" + stringifyMongoJson(metadata.options, ejson) + "\n```\n\n";
+    }
+    
+    return markdown;
+  }
+
+  private explainToMarkdown(explain: ExplainSummary, collection: string | undefined): string {
+    let markdown = "### Execution Plan\n\n";
+    markdown += `- Winning plan: \`${explain.winningPlan}\`\n`;
+    markdown += `- Indexes used: ${explain.indexesUsed.length > 0 ? explain.indexesUsed.join(", ") : "none"}\n`;
+    if (explain.pipelineStages && explain.pipelineStages.length > 0) {
+      markdown += `- Pipeline stages after the query: ${explain.pipelineStages.join(", ")}\n`;
+    }
+    markdown += `- Documents returned: ${explain.nReturned ?? "unknown"}\n`;
+    markdown += `- Documents examined: ${explain.totalDocsExamined ?? "unknown"}, index keys examined: ${explain.totalKeysExamined ?? "unknown"}\n`;
+    markdown += `- Execution time: ${explain.executionTimeMillis !== undefined ? `${explain.executionTimeMillis} ms` : "unknown"}\n`;
+    markdown += `- Rejected plans: ${explain.rejectedPlans}\n\n`;
+    
+    if (explain.warnings.length > 0) {
+      markdown += "### Warnings\n\n";
+      explain.warnings.forEach(warning => {
+        markdown += `- ${warning}\n`;
+      });
+      markdown += "\n";
+    }
+    
+    if (explain.suggestedIndex) {
+      markdown += "### Suggested Index\n\n";
+      markdown += "Equality fields first, then the sort, then range fields:\n\n";
+      markdown += "```js\n" + `db.${collection}.createIndex(${stringifyMongoJson(explain.suggestedIndex, "relaxed", 0)})` + "\n```\n\n";
+    }
+    
+    return markdown;
+  }
+
+  private fieldStatsToMarkdown(stats: FieldStats & { totalDocuments: number }): string {
+    const percent = (ratio: number) => `${Math.round(ratio * 1000) / 10}%`;
+    let markdown = stats.sampled
+      ? `Analysed a random sample of ${stats.documents} of ~${stats.totalDocuments} documents.\n\n`
+      : `Analysed ${stats.documents} documents.\n\n`;
+    
+    markdown += `- Missing: ${stats.missing} (${percent(stats.missingRatio)}), null: ${stats.nulls} (${percent(stats.nullRatio)})\n`;
+    markdown += `- Values: ${stats.values}, distinct: ${stats.distinct}\n`;
+    if (stats.types.length > 0) {
+      markdown += `- Types: ${stats.types.map(entry => `${entry.type} ${entry.count}`).join(", ")}\n`;
+    }
+    if (stats.number) {
+      markdown += `- Numbers: min ${this.formatCell(stats.number.min)}, max ${this.formatCell(stats.number.max)}, avg ${this.formatCell(stats.number.avg)}\n`;
+    }
+    if (stats.date) {
+      markdown += `- Dates: min ${this.formatCell(stats.date.min)}, max ${this.formatCell(stats.date.max)}, avg ${this.formatCell(stats.date.avg)}\n`;
+    }
+    if (stats.stringLength) {
+      markdown += `- String length: min ${stats.stringLength.min}, max ${stats.stringLength.max}, avg ${stats.stringLength.avg}\n`;
+    }
+    markdown += "\n";
+    
+    if (stats.topValues.length > 0) {
+      markdown += "### Most Common Values\n\n";
+      markdown += "| Value | Count | Share |\n";
+      markdown += "|-------|-------|-------|\n";
+      stats.topValues.forEach(entry => {
+        markdown += `| ${this.formatCell(entry.value)} | ${entry.count} | ${entry.percentage}% |\n`;
+      });
+      if (stats.otherValues > 0) {
+        markdown += `| (other values) | ${stats.otherValues} | |\n`;
+      }
+      markdown += "\n";
+    }
+    
+    if (stats.histogram) {
+      markdown += `### Histogram (${stats.histogram.type})\n\n`;
+      markdown += "| From | To | Count |\n";
+      markdown += "|------|----|-------|\n";
+      stats.histogram.buckets.forEach(bucket => {
+        markdown += `| ${this.formatCell(bucket.min)} | ${this.formatCell(bucket.max)} | ${bucket.count} |\n`;
+      });
+      markdown += "\n";
+    }
+    
+    return markdown;
+  }
+
+  private truncationNote(truncation?: { values: number, droppedDocuments: number, budget: number }): string {
+    if (!truncation) {
+      return "";
+    }
+    const parts = [
+      truncation.values > 0 ? `${truncation.values} long values were shortened` : "",
+      truncation.droppedDocuments > 0 ? `${truncation.droppedDocuments} documents were left out` : "",
+    ].filter(Boolean);
+    return `> ${parts.join(" and ")} to stay within ${truncation.budget} characters. Use a projection to fetch fewer fields.\n\n`;
+  }
+
+  private convertToMarkdown(data: any, action: string, collection: string | undefined, ejson: EjsonMode): string {
     try {
       let markdown = "# MongoDB Explorer Results\n\n";
       
+      // 'explain', or 'query'/'aggregate' with the explain option
+      if (data.explain) {
+        if (data.pipeline) {
+          markdown += `## Aggregation Plan: ${collection}\n\n`;
+          markdown += "```json\n" + stringifyMongoJson(data.pipeline, ejson) + "\n```\n\n";
+        } else {
+          markdown += `## Query Plan: ${collection}\n\n`;
+          markdown += `Explained query: \`${stringifyMongoJson(data.query, ejson, 0)}\`\n\n`;
+        }
+        return markdown + this.explainToMarkdown(data.explain, collection);
+      }
+      
       switch (action) {
+        case "listDatabases":
+          markdown += "## Databases\n\n";
+          markdown += "| Database Name | Size on Disk (bytes) | Default |\n";
+          markdown += "|---------------|----------------------|---------|\n";
+          
+          if (data.databases && Array.isArray(data.databases)) {
+            data.databases.forEach((database: DatabaseInfo) => {
+              markdown += `| ${database.name} | ${database.sizeOnDisk ?? ''} | ${database.default ? 'yes' : ''} |\n`;
+            });
+          }
+          break;
+          
         case "listCollections":
-          markdown += "## Collections\n\n";
+          markdown += `## Collections: ${data.database}\n\n`;
           markdown += "| Collection Name | Document Count | Size (bytes) |\n";
           markdown += "|-----------------|---------------|---------------|\n";
           
@@ -336,24 +740,70 @@ class MongoDBTool extends MCPTool<MongoDBToolInput> {
           
         case "describeCollection":
           markdown += `## Collection Schema: ${collection}\n\n`;
-          markdown += "| Field Name | Type | Document Count |\n";
-          markdown += "|------------|------|----------------|\n";
+          markdown += `Inferred from a random sample of ${data.sampleSize} of ~${data.totalDocuments} documents. Presence is the share of sampled documents containing the field; \`field[]\` describes array elements.\n\n`;
+          markdown += "| Field Name | Type | Presence | Examples |\n";
+          markdown += "|------------|------|----------|----------|\n";
           
           if (data.fields && Array.isArray(data.fields)) {
-            data.fields.forEach((field: MongoField) => {
-              markdown += `| ${field.name} | ${field.type} | ${field.count} |\n`;
+            data.fields.forEach((field: InferredField) => {
+              const examples = field.examples.map(example => `\`${this.formatCell(example)}\``).join(", ");
+              markdown += `| ${field.name} | ${field.type} | ${Math.round(field.presence * 100)}% | ${examples} |\n`;
+            });
+          }
+          markdown += "\n" + this.metadataToMarkdown(data, ejson);
+          break;
+          
+        case "describeIndexes":
+          markdown += `## Indexes and Options: ${collection} (${data.type})\n\n`;
+          markdown += this.metadataToMarkdown(data, ejson);
+          break;
+          
+        case "fieldStats":
+          markdown += `## Field Statistics: ${collection}.${data.field}\n\n`;
+          if (data.query) {
+            markdown += `Filter: \`${stringifyMongoJson(data.query, ejson, 0)}\`\n\n`;
+          }
+          markdown += this.fieldStatsToMarkdown(data);
+          break;
+          
+        case "inferReferences":
+          markdown += `## Inferred References: ${collection || data.database}\n\n`;
+          markdown += `Sampled up to ${data.sampleSize} documents in each of ${data.collections.length} collection(s) and looked up the referenced ids by \`_id\`.\n\n`;
+          if (data.truncated) {
+            markdown += "> Only the first collections (by name) were searched for referenced documents.\n\n";
+          }
+          
+          if (data.relations.length === 0) {
+            markdown += "No references found.\n\n";
+          } else {
+            markdown += "| Source | Field | Target | Type | Found |\n";
+            markdown += "|--------|-------|--------|------|-------|\n";
+            data.relations.forEach((relation: MongoRelation) => {
+              markdown += `| ${relation.sourceTable} | ${relation.sourceColumn} | ${relation.targetTable}.${relation.targetColumn} | ${relation.type} (${relation.kind}) | ${relation.matched}/${relation.probed} |\n`;
+            });
+            markdown += "\n";
+          }
+          
+          if (data.unresolved.length > 0) {
+            markdown += "### Unresolved\n\n";
+            markdown += "Fields that look like references but whose values were not found in any collection:\n\n";
+            data.unresolved.forEach((reference: UnresolvedReference) => {
+              const best = reference.bestMatch ? `, best match ${reference.bestMatch.collection} (${reference.bestMatch.matched}/${reference.probed})` : "";
+              markdown += `- ${reference.collection}.${reference.field} (${reference.kind}${best})\n`;
             });
+            markdown += "\n";
           }
           break;
           
         case "sampleData":
           markdown += `## Sample Data: ${collection}\n\n`;
+          markdown += this.truncationNote(data.truncation);
           
           if (data.data && Array.isArray(data.data)) {
             data.data.forEach((doc: Record<string, any>, index: number) => {
               markdown += `### Document ${index + 1}\n\n`;
               markdown += "```json\n";
-              markdown += JSON.stringify(doc, null, 2);
+              markdown += stringifyMongoJson(doc, ejson);
               markdown += "\n```\n\n";
             });
           }
@@ -361,15 +811,29 @@ class MongoDBTool extends MCPTool<MongoDBToolInput> {
           
         case "query":
           markdown += `## Query Results: ${collection}\n\n`;
-          markdown += `Executed query: \`${JSON.stringify(data.query)}\`\n\n`;
+          markdown += `Executed query: \`${stringifyMongoJson(data.query, ejson, 0)}\`\n\n`;
           markdown += `Total results: ${data.total}\n\n`;
           
           if (data.data && Array.isArray(data.data)) {
-            markdown += "### Results\n\n";
+            markdown += `### Results ${data.count > 0 ? `${data.position + 1}–${data.position + data.count}` : ""}\n\n`;
             markdown += "```json\n";
-            markdown += JSON.stringify(data.data, null, 2);
+            markdown += stringifyMongoJson(data.data, ejson);
             markdown += "\n```\n\n";
           }
+          markdown += this.truncationNote(data.truncation);
+          if (data.nextCursor) {
+            markdown += `More results: pass \`"cursor": "${data.nextCursor}"\` in options with the same query and sort.\n`;
+          }
+          break;
+          
+        case "aggregate":
+          markdown += `## Aggregation Results: ${collection}\n\n`;
+          markdown += "```json\n" + stringifyMongoJson(data.pipeline, ejson) + "\n```\n\n";
+          markdown += this.documentsToTable(data.data);
+          markdown += this.truncationNote(data.truncation);
+          if (data.truncated) {
+            markdown += `Results were limited to ${data.count} documents. Raise 'limit' to see more.\n`;
+          }
           break;
       }
       
@@ -0,0 +1,123 @@
+import { MCPTool } from "mcp-framework";
+import { z } from "zod";
+import { backendSelectionSchema, BackendSelection, describeBackend, resolveBackend, sourceNotConfiguredMessage } from "../utils/backendConfig.js";
+import { clearDocumentCache, getCacheTtlMs, loadDocument } from "../utils/documentLoader.js";
+import { clearErdDatabaseCache, loadErdDocument } from "../utils/erdSources.js";
+
+interface RefreshSourcesToolInput extends BackendSelection {
+  options?: {
+    format?: string;
+    clearAll?: boolean;
+  };
+}
+
+interface SourceRefreshResult {
+  source: "erd" | "swagger";
+  status: "refreshed" | "not configured" | "failed";
+  message?: string;
+}
+
+class RefreshSourcesTool extends MCPTool<RefreshSourcesToolInput> {
+  name = "refresh_sources";
+  description = "Reloads the ERD and Swagger documents of a backend, bypassing the document cache. Use after the backend's schema or API changed.";
+
+  schema = {
+    ...backendSelectionSchema,
+    options: {
+      type: z.object({
+        format: z.enum(["json", "markdown"]).optional().default("json"),
+        clearAll: z.boolean().optional(),
+      }).optional(),
+      description: "Response format options: 'json' or 'markdown'; 'clearAll: true' also drops the cached documents of every other backend",
+    },
+  };
+
+  async execute(input: RefreshSourcesToolInput): Promise<any> {
+    try {
+      const format = input.options?.format || "json";
+      const backend = await resolveBackend(input);
+
+      if (input.options?.clearAll) {
+        clearDocumentCache();
+        clearErdDatabaseCache();
+      }
+
+      const results: SourceRefreshResult[] = [];
+      const sources = [
+        { source: "erd" as const, url: backend.erdUrl, auth: backend.erdAuth, load: loadErdDocument },
+        { source: "swagger" as const, url: backend.swaggerUrl, auth: backend.swaggerAuth, load: loadDocument },
+      ];
+
+      for (const { source, url, auth, load } of sources) {
+        if (!url) {
+          results.push({ source, status: "not configured", message: sourceNotConfiguredMessage(source, backend) });
+          continue;
+        }
+
+        try {
+          await load(url, auth, { refresh: true });
+          results.push({ source, status: "refreshed" });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          results.push({ source, status: "failed", message });
+        }
+      }
+
+      const result = {
+        backend: backend.name,
+        environment: backend.environment || null,
+        cacheTtlSeconds: getCacheTtlMs() / 1000,
+        sources: results,
+      };
+
+      if (format === "markdown") {
+        let markdown = `# Refreshed Sources for ${describeBackend(backend)}\n\n`;
+        markdown += "| Source | Status | Details |\n";
+        markdown += "|--------|--------|---------|\n";
+        results.forEach((item) => {
+          markdown += `| ${item.source.toUpperCase()} | ${item.status} | ${item.message || ''} |\n`;
+        });
+        markdown += `\nCache TTL: ${result.cacheTtlSeconds}s\n`;
+
+        const markdownResponse = {
+          content: [
+            {
+              type: "text",
+              text: markdown
+            }
+          ]
+        };
+        return markdownResponse;
+      }
+
+      const jsonResponse = {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }
+        ]
+      };
+      return jsonResponse;
+    } catch (error) {
+      console.error("RefreshSourcesTool unexpected error:", error);
+      let errorMessage = "Unknown error";
+
+      if (error instanceof Error) {
+        errorMessage = `Failed to refresh sources: ${error.message}`;
+      }
+
+      const errorResponse = {
+        content: [
+          {
+            type: "text",
+            text: errorMessage
+          }
+        ]
+      };
+      return errorResponse;
+    }
+  }
+}
+
+export default RefreshSourcesTool;
@@ -0,0 +1,247 @@
+import { MCPTool } from "mcp-framework";
+import { z } from "zod";
+import {
+  backendSelectionSchema,
+  BackendSelection,
+  ResolvedBackend,
+  resolveBackend,
+  sourceNotConfiguredMessage,
+} from "../utils/backendConfig.js";
+import { ErdColumn, ErdRelation, findTableName, normalizeErd, tableNames } from "../utils/erdModel.js";
+import { loadErdDocument } from "../utils/erdSources.js";
+import {
+  connectSql,
+  listSqlTables,
+  quoteIdentifier,
+  runReadOnlyQuery,
+  SqlConnection,
+  SqlTableInfo,
+  toPlainRow,
+} from "../utils/sqlDatabase.js";
+import { closestMatches } from "../utils/swaggerFilter.js";
+
+const MAX_ROWS = 1000;
+
+interface SQLToolInput extends BackendSelection {
+  action: "listTables" | "describeTable" | "sampleData" | "query";
+  table?: string;
+  query?: string;
+  options?: {
+    format?: string;
+    limit?: number;
+  };
+}
+
+class SQLTool extends MCPTool<SQLToolInput> {
+  name = "sql_explorer";
+  description = "Explore a Postgres, MySQL or SQLite database: list tables, describe a table's columns and keys, view sample rows, or run a read-only SQL query.";
+
+  schema = {
+    ...backendSelectionSchema,
+    action: {
+      type: z.enum(["listTables", "describeTable", "sampleData", "query"]),
+      description: "Action to perform: list tables, describe a table (columns, primary/foreign keys, references), view sample rows, or run a read-only query",
+    },
+    table: {
+      type: z.string().optional(),
+      description: "Table name (schema-qualified for Postgres tables outside 'public', e.g. 'billing.invoices')",
+    },
+    query: {
+      type: z.string().optional(),
+      description: "Read-only SQL statement (SELECT, WITH, SHOW, EXPLAIN, ...). Required when action is 'query'.",
+    },
+    options: {
+      type: z.object({
+        format: z.enum(["json", "markdown"]).optional().default("json"),
+        limit: z.number().int().min(1).max(MAX_ROWS).optional().default(10),
+      }).optional(),
+      description: "Response format and row limit options",
+    },
+  };
+
+  private getConnection(backend: ResolvedBackend): SqlConnection {
+    if (!backend.sqlUri) {
+      throw new Error(sourceNotConfiguredMessage("sql", backend));
+    }
+    return connectSql(backend.sqlUri);
+  }
+
+  async execute(input: SQLToolInput): Promise<any> {
+    try {
+      const format = input.options?.format || "json";
+      const limit = Math.min(input.options?.limit || 10, MAX_ROWS);
+
+      let result;
+
+      try {
+        const backend = await resolveBackend(input);
+        const connection = this.getConnection(backend);
+
+        switch (input.action) {
+          case "listTables":
+            result = { tables: await listSqlTables(connection) };
+            break;
+          case "describeTable":
+            if (!input.table) {
+              return this.textResponse("Table name is required.");
+            }
+            result = await this.describeTable(backend, input.table);
+            break;
+          case "sampleData":
+            if (!input.table) {
+              return this.textResponse("Table name is required.");
+            }
+            result = await this.getSampleData(connection, input.table, limit);
+            break;
+          case "query":
+            if (!input.query) {
+              return this.textResponse("Query is required.");
+            }
+            result = { ...await runReadOnlyQuery(connection, input.query, limit), query: input.query };
+            break;
+          default:
+            return this.textResponse("Unknown action");
+        }
+      } catch (err) {
+        console.error("SQL operation failed:", err);
+        return this.textResponse(`SQL operation failed: ${err instanceof Error ? err.message : err}`);
+      }
+
+      if (format === "markdown") {
+        return this.textResponse(this.convertToMarkdown(result, input.action, input.table));
+      }
+      return this.textResponse(JSON.stringify(result, null, 2));
+    } catch (error) {
+      console.error("SQLTool unexpected error:", error);
+      return this.textResponse(`Failed to retrieve SQL database information: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private textResponse(text: string) {
+    return {
+      content: [
+        {
+          type: "text",
+          text
+        }
+      ]
+    };
+  }
+
+  // Uses the same table/column/relation model as get_erd, so the two agree
+  private async describeTable(backend: ResolvedBackend, table: string): Promise<any> {
+    const model = normalizeErd(await loadErdDocument(backend.sqlUri!));
+    const name = model && findTableName(model, table);
+
+    if (!model || !name) {
+      const suggestions = model ? closestMatches(table, tableNames(model)) : [];
+      throw new Error(`Table '${table}' was not found.${suggestions.length > 0 ? ` Did you mean: ${suggestions.join(", ")}?` : ""}`);
+    }
+
+    const definition = model.tables.find(candidate => candidate.name === name);
+    return {
+      name,
+      description: definition?.description,
+      columns: definition?.columns || [],
+      relations: model.relations.filter(relation => relation.sourceTable === name),
+      referencedBy: model.relations.filter(relation => relation.targetTable === name && relation.sourceTable !== name),
+    };
+  }
+
+  private async getSampleData(connection: SqlConnection, table: string, limit: number): Promise<any> {
+    const tables = await listSqlTables(connection);
+    const match = tables.find(candidate => candidate.name === table)
+      || tables.find(candidate => candidate.name.toLowerCase() === table.toLowerCase());
+
+    if (!match) {
+      const suggestions = closestMatches(table, tables.map(candidate => candidate.name));
+      throw new Error(`Table '${table}' was not found.${suggestions.length > 0 ? ` Did you mean: ${suggestions.join(", ")}?` : ""}`);
+    }
+
+    const rows = await connection.readOnly(`SELECT * FROM ${quoteIdentifier(connection.dialect, match.name)} LIMIT ${limit}`);
+    return { table: match.name, data: rows.map(toPlainRow) };
+  }
+
+  private rowsToMarkdown(rows: Record<string, unknown>[]): string {
+    if (rows.length === 0) {
+      return "No rows.\n\n";
+    }
+
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    const cell = (value: unknown) => {
+      const text = value === null || value === undefined ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+      return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+    };
+
+    let markdown = `| ${columns.join(" | ")} |\n`;
+    markdown += `|${columns.map(() => "---").join("|")}|\n`;
+    rows.forEach(row => {
+      markdown += `| ${columns.map(column => cell(row[column])).join(" | ")} |\n`;
+    });
+    return markdown + "\n";
+  }
+
+  private convertToMarkdown(data: any, action: string, table?: string): string {
+    try {
+      let markdown = "# SQL Explorer Results\n\n";
+
+      switch (action) {
+        case "listTables":
+          markdown += "## Tables\n\n";
+          markdown += "| Table | Type | Rows (approx.) | Description |\n";
+          markdown += "|-------|------|----------------|-------------|\n";
+          data.tables.forEach((info: SqlTableInfo) => {
+            markdown += `| ${info.name} | ${info.type} | ${info.rowEstimate ?? ''} | ${info.description || ''} |\n`;
+          });
+          break;
+
+        case "describeTable":
+          markdown += `## Table: ${data.name}\n\n`;
+          markdown += `${data.description || 'No description'}\n\n`;
+          markdown += "| Column | Type | Description | Required | Key |\n";
+          markdown += "|--------|------|-------------|----------|-----|\n";
+          data.columns.forEach((column: ErdColumn) => {
+            const key = [column.isPrimaryKey ? 'PK' : '', column.isForeignKey ? 'FK' : ''].filter(Boolean).join(', ');
+            markdown += `| ${column.name} | ${column.type} | ${column.description || ''} | ${column.required ? 'Yes' : 'No'} | ${key} |\n`;
+          });
+          markdown += "\n";
+
+          if (data.relations.length > 0) {
+            markdown += "### References\n\n";
+            data.relations.forEach((relation: ErdRelation) => {
+              markdown += `- ${relation.type}: ${relation.sourceTable}.${relation.sourceColumn} → ${relation.targetTable}.${relation.targetColumn}\n`;
+            });
+            markdown += "\n";
+          }
+          if (data.referencedBy.length > 0) {
+            markdown += "### Referenced By\n\n";
+            data.referencedBy.forEach((relation: ErdRelation) => {
+              markdown += `- ${relation.type}: ${relation.sourceTable}.${relation.sourceColumn} → ${relation.targetTable}.${relation.targetColumn}\n`;
+            });
+            markdown += "\n";
+          }
+          break;
+
+        case "sampleData":
+          markdown += `## Sample Data: ${data.table || table}\n\n`;
+          markdown += this.rowsToMarkdown(data.data);
+          break;
+
+        case "query":
+          markdown += "## Query Results\n\n";
+          markdown += "```sql\n" + data.query + "\n```\n\n";
+          markdown += this.rowsToMarkdown(data.rows);
+          if (data.truncated) {
+            markdown += `Results were limited to ${data.rows.length} rows. Raise 'limit' to see more.\n`;
+          }
+          break;
+      }
+
+      return markdown;
+    } catch (error) {
+      return `Failed to convert SQL data to markdown: ${error}. Please use JSON format instead.`;
+    }
+  }
+}
+
+export default SQLTool;
@@ -0,0 +1,185 @@
+import axios from "axios";
+import { MCPTool } from "mcp-framework";
+import { z } from "zod";
+import { diffSwaggerDocuments, resolveBaselineSource, SwaggerChange, SwaggerDiff } from "../utils/swaggerDiff.js";
+import { escapeMarkdownCell } from "../utils/swaggerSpec.js";
+import { loadDocument } from "../utils/documentLoader.js";
+import { backendSelectionSchema, BackendSelection, resolveBackend, sourceNotConfiguredMessage } from "../utils/backendConfig.js";
+
+interface SwaggerDiffToolInput extends BackendSelection {
+  baseline: string;
+  options?: {
+    format?: string;
+    breakingOnly?: boolean;
+  };
+}
+
+class SwaggerDiffTool extends MCPTool<SwaggerDiffToolInput> {
+  name = "diff_swagger";
+  description = "Compares the current Swagger API documentation with a saved snapshot (http(s) URL, or a file in the backends config directory) and reports added/removed endpoints, parameter, request body, response schema and enum changes, classified as breaking or non-breaking.";
+
+  schema = {
+    ...backendSelectionSchema,
+    baseline: {
+      type: z.string(),
+      description: "http(s) URL of the previous Swagger/OpenAPI document to compare against, or a file path inside the directory of the backends config file (relative paths start there)",
+    },
+    options: {
+      type: z.object({
+        format: z.enum(["json", "markdown"]).optional().default("markdown"),
+        breakingOnly: z.boolean().optional().default(false),
+      }).optional(),
+      description: "Response format ('json' or 'markdown') and 'breakingOnly' to hide non-breaking changes",
+    },
+  };
+
+  async execute(input: SwaggerDiffToolInput): Promise<any> {
+    try {
+      const format = input.options?.format || "markdown";
+      const backend = await resolveBackend(input);
+      const swaggerApiUrl = backend.swaggerUrl;
+
+      if (!swaggerApiUrl) {
+        const errorResponse = {
+          content: [
+            {
+              type: "text",
+              text: sourceNotConfiguredMessage("swagger", backend)
+            }
+          ]
+        };
+        return errorResponse;
+      }
+
+      let currentDoc;
+      let baselineDoc;
+      try {
+        currentDoc = await loadDocument(swaggerApiUrl, backend.swaggerAuth);
+
+        const baseline = await resolveBaselineSource(input.baseline);
+        // Only send the Swagger credentials to the same host they were configured for
+        const baselineAuth = this.isSameOrigin(baseline, swaggerApiUrl) ? backend.swaggerAuth : undefined;
+        baselineDoc = await loadDocument(baseline, baselineAuth, { watch: false });
+      } catch (requestError) {
+        console.error("SwaggerDiffTool load error:", requestError);
+        let errorMessage = "Unknown error";
+
+        if (axios.isAxiosError(requestError)) {
+          errorMessage = `Failed to retrieve Swagger information: ${requestError.message}`;
+        } else if (requestError instanceof Error) {
+          errorMessage = `Failed to load Swagger document: ${requestError.message}`;
+        }
+
+        const errorResponse = {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ]
+        };
+        return errorResponse;
+      }
+
+      const diff = diffSwaggerDocuments(baselineDoc, currentDoc);
+      // The summary keeps counting the hidden non-breaking changes
+      const nonBreakingHidden = Boolean(input.options?.breakingOnly) && diff.nonBreaking.length > 0;
+      if (input.options?.breakingOnly) {
+        diff.nonBreaking = [];
+      }
+
+      if (format === "markdown") {
+        const markdown = this.convertToMarkdown(diff, input.baseline, nonBreakingHidden);
+
+        const markdownResponse = {
+          content: [
+            {
+              type: "text",
+              text: markdown
+            }
+          ]
+        };
+        return markdownResponse;
+      }
+
+      const jsonResponse = {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(nonBreakingHidden ? { ...diff, nonBreakingHidden } : diff, null, 2)
+          }
+        ]
+      };
+      return jsonResponse;
+    } catch (error) {
+      console.error("SwaggerDiffTool unexpected error:", error);
+      let errorMessage = "Unknown error";
+
+      if (error instanceof Error) {
+        errorMessage = `Failed to compare Swagger documents: ${error.message}`;
+      }
+
+      const errorResponse = {
+        content: [
+          {
+            type: "text",
+            text: errorMessage
+          }
+        ]
+      };
+      return errorResponse;
+    }
+  }
+
+  private isSameOrigin(a: string, b: string): boolean {
+    try {
+      return new URL(a).origin === new URL(b).origin;
+    } catch {
+      return false;
+    }
+  }
+
+  private convertToMarkdown(diff: SwaggerDiff, baseline: string, nonBreakingHidden: boolean): string {
+    try {
+      let markdown = "# API Changes (Swagger Diff)\n\n";
+      markdown += `Compared against: ${baseline}\n\n`;
+      markdown += `- Endpoints added: ${diff.summary.endpointsAdded}\n`;
+      markdown += `- Endpoints removed: ${diff.summary.endpointsRemoved}\n`;
+      markdown += `- Endpoints changed: ${diff.summary.endpointsChanged}\n`;
+      markdown += `- Breaking changes: ${diff.summary.breaking}\n`;
+      markdown += `- Non-breaking changes: ${diff.summary.nonBreaking}${nonBreakingHidden ? " (not listed: breakingOnly)" : ""}\n\n`;
+
+      if (diff.summary.breaking === 0 && diff.summary.nonBreaking === 0) {
+        markdown += "No changes detected.\n";
+        return markdown;
+      }
+
+      if (diff.breaking.length > 0) {
+        markdown += "## Breaking Changes\n\n";
+        markdown += this.changeTable(diff.breaking);
+      }
+
+      if (diff.nonBreaking.length > 0) {
+        markdown += "## Non-breaking Changes\n\n";
+        markdown += this.changeTable(diff.nonBreaking);
+      }
+
+      return markdown;
+    } catch (error) {
+      return `Failed to convert Swagger diff to markdown: ${error}. Please use JSON format instead.`;
+    }
+  }
+
+  private changeTable(changes: SwaggerChange[]): string {
+    let markdown = "| Endpoint | Location | Change | Details |\n";
+    markdown += "|----------|----------|--------|---------|\n";
+
+    changes.forEach((change) => {
+      markdown += `| ${change.endpoint} | ${escapeMarkdownCell(change.location || '')} | ${change.kind} | ${escapeMarkdownCell(change.message)} |\n`;
+    });
+
+    return markdown + "\n";
+  }
+}
+
+export default SwaggerDiffTool;
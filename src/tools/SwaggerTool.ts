@@ -1,11 +1,32 @@
 import axios from "axios";
 import { MCPTool } from "mcp-framework";
 import { z } from "zod";
+import {
+  escapeMarkdownCell,
+  flattenSchema,
+  isSwagger2,
+  normalizeSpec,
+  NormalizedOperation,
+  NormalizedSchema,
+  schemaTypeLabel,
+} from "../utils/swaggerSpec.js";
+import {
+  describeSwaggerFilter,
+  filterSwaggerDocument,
+  hasSwaggerFilter,
+  SwaggerFilter,
+} from "../utils/swaggerFilter.js";
+import { loadDocument } from "../utils/documentLoader.js";
+import { backendSelectionSchema, BackendSelection, resolveBackend, sourceNotConfiguredMessage } from "../utils/backendConfig.js";
 
-interface SwaggerToolInput {
+interface SwaggerToolInput extends BackendSelection {
   options?: {
     format?: string;
     path?: string;
+    method?: string;
+    tag?: string;
+    operationId?: string;
+    refresh?: boolean;
   };
 }
 
@@ -14,27 +35,38 @@ class SwaggerTool extends MCPTool<SwaggerToolInput> {
   description = "Retrieves Swagger API documentation to explore backend API endpoints, parameters, response schemas, and more.";
 
   schema = {
+    ...backendSelectionSchema,
     options: {
       type: z.object({
         format: z.enum(["json", "markdown"]).optional().default("json"),
         path: z.string().optional(),
+        method: z.string().optional(),
+        tag: z.string().optional(),
+        operationId: z.string().optional(),
+        refresh: z.boolean().optional(),
       }).optional(),
-      description: "Options for the response format ('json' or 'markdown') and specific API path to filter (optional)",
+      description: "Options for the response format ('json' or 'markdown') and filters (all optional): 'path' accepts exact paths, concrete paths like '/users/123' (matched to '/users/{id}'), partial paths like '/users' and globs like '/users/*' or '/admin/**'; 'method' (e.g. 'get' or 'get,post'), 'tag' and 'operationId'. 'refresh: true' bypasses the document cache",
     },
   };
 
   async execute(input: SwaggerToolInput): Promise<any> {
     try {
       const format = input.options?.format || "json";
-      const path = input.options?.path;
-      const swaggerApiUrl = process.env.SWAGGER_API_URL;
+      const filter: SwaggerFilter = {
+        path: input.options?.path,
+        method: input.options?.method,
+        tag: input.options?.tag,
+        operationId: input.options?.operationId,
+      };
+      const backend = await resolveBackend(input);
+      const swaggerApiUrl = backend.swaggerUrl;
       
       if (!swaggerApiUrl) {
         const errorResponse = {
           content: [
             {
               type: "text",
-              text: "SWAGGER_API_URL is not set in the environment variables"
+              text: sourceNotConfiguredMessage("swagger", backend)
             }
           ]
         };
@@ -42,22 +74,29 @@ class SwaggerTool extends MCPTool<SwaggerToolInput> {
       }
 
       try {
-        const response = await axios.get(swaggerApiUrl);
-        
-        let data = response.data;
+        let data = await loadDocument(swaggerApiUrl, backend.swaggerAuth, { refresh: input.options?.refresh });
         
-        // Filter for specific path if provided
-        if (path && data.paths && data.paths[path]) {
-          data = {
-            ...data,
-            paths: {
-              [path]: data.paths[path]
-            }
-          };
+        // Filter by path pattern, method, tag or operationId if provided
+        if (hasSwaggerFilter(filter)) {
+          const filtered = filterSwaggerDocument(data, filter);
+          
+          if (filtered.matchCount === 0) {
+            const noMatchResponse = {
+              content: [
+                {
+                  type: "text",
+                  text: this.formatNoMatch(filter, filtered.suggestions, format)
+                }
+              ]
+            };
+            return noMatchResponse;
+          }
+          
+          data = filtered.doc;
         }
         
         if (format === "markdown") {
-          const markdown = this.convertToMarkdown(data, path);
+          const markdown = this.convertToMarkdown(data);
           const markdownResponse = {
             content: [
               {
@@ -79,13 +118,13 @@ class SwaggerTool extends MCPTool<SwaggerToolInput> {
         };
         return jsonResponse;
       } catch (requestError) {
-        console.error("SwaggerTool axios error:", requestError);
+        console.error("SwaggerTool load error:", requestError);
         let errorMessage = "Unknown error";
         
         if (axios.isAxiosError(requestError)) {
           errorMessage = `Failed to retrieve Swagger information: ${requestError.message}`;
         } else if (requestError instanceof Error) {
-          errorMessage = requestError.message;
+          errorMessage = `Failed to load Swagger information: ${requestError.message}`;
         }
         
         const errorResponse = {
@@ -118,85 +157,56 @@ class SwaggerTool extends MCPTool<SwaggerToolInput> {
     }
   }
 
-  private convertToMarkdown(data: any, specificPath?: string): string {
+  private formatNoMatch(filter: SwaggerFilter, suggestions: string[], format: string): string {
+    const message = `No API endpoints matched the filter (${describeSwaggerFilter(filter)}).`;
+    
+    if (format === "markdown") {
+      let markdown = `${message}\n\n`;
+      
+      if (suggestions.length > 0) {
+        markdown += "Did you mean:\n\n";
+        suggestions.forEach((suggestion) => {
+          markdown += `- ${suggestion}\n`;
+        });
+      }
+      
+      return markdown;
+    }
+    
+    return JSON.stringify({ message, suggestions }, null, 2);
+  }
+
+  private convertToMarkdown(data: any): string {
     try {
+      const spec = normalizeSpec(data);
       let markdown = "# API Documentation (Swagger)\n\n";
       
       if (data.info) {
-        markdown += `## ${data.info.title || 'API Documentation'}\n\n`;
-        markdown += `${data.info.description || ''}\n\n`;
+        markdown += `## ${spec.info.title || 'API Documentation'}\n\n`;
+        markdown += `${spec.info.description || ''}\n\n`;
         
-        if (data.info.version) {
-          markdown += `**Version**: ${data.info.version}\n\n`;
+        if (spec.info.version) {
+          markdown += `**Version**: ${spec.info.version}\n\n`;
         }
       }
       
-      if (data.paths) {
+      markdown += `**Spec**: ${isSwagger2(data) ? 'Swagger' : 'OpenAPI'} ${spec.specVersion}\n\n`;
+      
+      if (spec.servers.length > 0) {
+        markdown += `**Servers**: ${spec.servers.join(', ')}\n\n`;
+      }
+      
+      if (spec.operations.length > 0) {
         markdown += "## Endpoints\n\n";
         
-        Object.entries(data.paths).forEach(([path, methods]: [string, any]) => {
-          markdown += `### ${path}\n\n`;
+        let currentPath = "";
+        spec.operations.forEach((operation) => {
+          if (operation.path !== currentPath) {
+            currentPath = operation.path;
+            markdown += `### ${operation.path}\n\n`;
+          }
           
-          Object.entries(methods).forEach(([method, info]: [string, any]) => {
-            markdown += `#### ${method.toUpperCase()}\n\n`;
-            
-            if (info.summary) {
-              markdown += `**Summary**: ${info.summary}\n\n`;
-            }
-            
-            if (info.description) {
-              markdown += `**Description**: ${info.description}\n\n`;
-            }
-            
-            if (info.parameters && info.parameters.length > 0) {
-              markdown += "**Parameters**:\n\n";
-              markdown += "| Name | Location | Required | Type | Description |\n";
-              markdown += "|------|----------|----------|------|-------------|\n";
-              
-              info.parameters.forEach((param: any) => {
-                markdown += `| ${param.name} | ${param.in} | ${param.required ? 'Yes' : 'No'} | ${param.type || (param.schema && param.schema.type) || ''} | ${param.description || ''} |\n`;
-              });
-              
-              markdown += "\n";
-            }
-            
-            if (info.requestBody) {
-              markdown += "**Request Body**:\n\n";
-              
-              if (info.requestBody.content && info.requestBody.content["application/json"] && 
-                  info.requestBody.content["application/json"].schema) {
-                const schema = info.requestBody.content["application/json"].schema;
-                
-                if (schema.properties) {
-                  markdown += "| Property | Type | Required | Description |\n";
-                  markdown += "|----------|------|----------|-------------|\n";
-                  
-                  Object.entries(schema.properties).forEach(([prop, details]: [string, any]) => {
-                    const required = schema.required && schema.required.includes(prop);
-                    markdown += `| ${prop} | ${details.type || ''} | ${required ? 'Yes' : 'No'} | ${details.description || ''} |\n`;
-                  });
-                  
-                  markdown += "\n";
-                }
-              }
-            }
-            
-            if (info.responses) {
-              markdown += "**Responses**:\n\n";
-              
-              Object.entries(info.responses).forEach(([code, response]: [string, any]) => {
-                markdown += `**${code}**: ${response.description || ''}\n\n`;
-                
-                if (response.content && response.content["application/json"] && 
-                    response.content["application/json"].schema) {
-                  markdown += "Response schema:\n";
-                  markdown += "```json\n";
-                  markdown += JSON.stringify(response.content["application/json"].schema, null, 2);
-                  markdown += "\n```\n\n";
-                }
-              });
-            }
-          });
+          markdown += this.operationToMarkdown(operation);
         });
       }
       
@@ -205,6 +215,83 @@ class SwaggerTool extends MCPTool<SwaggerToolInput> {
       return `Failed to convert Swagger data to markdown: ${error}. Please use JSON format instead.`;
     }
   }
+
+  private operationToMarkdown(operation: NormalizedOperation): string {
+    let markdown = `#### ${operation.method.toUpperCase()}${operation.deprecated ? ' (deprecated)' : ''}\n\n`;
+    
+    if (operation.operationId) {
+      markdown += `**Operation ID**: ${operation.operationId}\n\n`;
+    }
+    
+    if (operation.tags.length > 0) {
+      markdown += `**Tags**: ${operation.tags.join(', ')}\n\n`;
+    }
+    
+    if (operation.summary) {
+      markdown += `**Summary**: ${operation.summary}\n\n`;
+    }
+    
+    if (operation.description) {
+      markdown += `**Description**: ${operation.description}\n\n`;
+    }
+    
+    if (operation.parameters.length > 0) {
+      markdown += "**Parameters**:\n\n";
+      markdown += "| Name | Location | Required | Type | Description |\n";
+      markdown += "|------|----------|----------|------|-------------|\n";
+      
+      operation.parameters.forEach((param) => {
+        markdown += `| ${param.name} | ${param.in} | ${param.required ? 'Yes' : 'No'} | ${escapeMarkdownCell(schemaTypeLabel(param.schema))} | ${escapeMarkdownCell(param.description || '')} |\n`;
+      });
+      
+      markdown += "\n";
+    }
+    
+    if (operation.requestBody) {
+      const body = operation.requestBody;
+      markdown += `**Request Body**${body.contentType ? ` (\`${body.contentType}\`)` : ''}${body.required ? ' - required' : ''}:\n\n`;
+      
+      if (body.description) {
+        markdown += `${body.description}\n\n`;
+      }
+      
+      if (body.schema) {
+        markdown += this.schemaToMarkdown(body.schema);
+      }
+    }
+    
+    if (operation.responses.length > 0) {
+      markdown += "**Responses**:\n\n";
+      
+      operation.responses.forEach((response) => {
+        markdown += `**${response.status}**: ${response.description || ''}\n\n`;
+        
+        if (response.schema) {
+          markdown += this.schemaToMarkdown(response.schema);
+        }
+      });
+    }
+    
+    return markdown;
+  }
+
+  private schemaToMarkdown(schema: NormalizedSchema): string {
+    let markdown = `Type: \`${schemaTypeLabel(schema)}\`\n\n`;
+    const rows = flattenSchema(schema);
+    
+    if (rows.length > 0) {
+      markdown += "| Property | Type | Required | Description |\n";
+      markdown += "|----------|------|----------|-------------|\n";
+      
+      rows.forEach((row) => {
+        markdown += `| ${row.name} | ${escapeMarkdownCell(row.type)} | ${row.required ? 'Yes' : 'No'} | ${escapeMarkdownCell(row.description)} |\n`;
+      });
+      
+      markdown += "\n";
+    }
+    
+    return markdown;
+  }
 }
 
 export default SwaggerTool; 
\ No newline at end of file
@@ -0,0 +1,199 @@
+import axios from "axios";
+import { MCPTool } from "mcp-framework";
+import { z } from "zod";
+import { loadDocument } from "../utils/documentLoader.js";
+import { backendSelectionSchema, BackendSelection, resolveBackend, sourceNotConfiguredMessage } from "../utils/backendConfig.js";
+import { normalizeSchemas, normalizeSpec, NormalizedSchema } from "../utils/swaggerSpec.js";
+import {
+  describeSwaggerFilter,
+  filterSwaggerDocument,
+  hasSwaggerFilter,
+  SwaggerFilter,
+} from "../utils/swaggerFilter.js";
+import { ClientFlavor, collectReferencedSchemas, generateClient } from "../utils/typescriptGenerator.js";
+
+interface TypeScriptClientToolInput extends BackendSelection {
+  options?: {
+    format?: string;
+    client?: string;
+    schemas?: string;
+    path?: string;
+    method?: string;
+    tag?: string;
+    operationId?: string;
+    baseUrl?: string;
+  };
+}
+
+class TypeScriptClientTool extends MCPTool<TypeScriptClientToolInput> {
+  name = "generate_typescript";
+  description = "Generates TypeScript interfaces for the Swagger models and typed request functions (axios or fetch) for selected endpoints, including path params, query params, request body and response types.";
+
+  schema = {
+    ...backendSelectionSchema,
+    options: {
+      type: z.object({
+        format: z.enum(["json", "markdown"]).optional().default("markdown"),
+        client: z.enum(["axios", "fetch", "none"]).optional().default("axios"),
+        schemas: z.enum(["referenced", "all"]).optional(),
+        path: z.string().optional(),
+        method: z.string().optional(),
+        tag: z.string().optional(),
+        operationId: z.string().optional(),
+        baseUrl: z.string().optional(),
+      }).optional(),
+      description: "Output format ('json' or 'markdown'), client flavor ('axios', 'fetch' or 'none' for types only), which models to emit ('referenced' by the selected endpoints or 'all'; defaults to 'referenced' when a filter is given), endpoint filters ('path', 'method', 'tag', 'operationId', same rules as get_swagger) and an optional 'baseUrl' override",
+    },
+  };
+
+  async execute(input: TypeScriptClientToolInput): Promise<any> {
+    try {
+      const format = input.options?.format || "markdown";
+      const client = (input.options?.client || "axios") as ClientFlavor;
+      const filter: SwaggerFilter = {
+        path: input.options?.path,
+        method: input.options?.method,
+        tag: input.options?.tag,
+        operationId: input.options?.operationId,
+      };
+      const schemaMode = input.options?.schemas || (hasSwaggerFilter(filter) ? "referenced" : "all");
+      const backend = await resolveBackend(input);
+      const swaggerApiUrl = backend.swaggerUrl;
+
+      if (!swaggerApiUrl) {
+        const errorResponse = {
+          content: [
+            {
+              type: "text",
+              text: sourceNotConfiguredMessage("swagger", backend)
+            }
+          ]
+        };
+        return errorResponse;
+      }
+
+      let data;
+      try {
+        data = await loadDocument(swaggerApiUrl, backend.swaggerAuth);
+      } catch (requestError) {
+        console.error("TypeScriptClientTool load error:", requestError);
+        let errorMessage = "Unknown error";
+
+        if (axios.isAxiosError(requestError)) {
+          errorMessage = `Failed to retrieve Swagger information: ${requestError.message}`;
+        } else if (requestError instanceof Error) {
+          errorMessage = `Failed to load Swagger information: ${requestError.message}`;
+        }
+
+        const errorResponse = {
+          content: [
+            {
+              type: "text",
+              text: errorMessage
+            }
+          ]
+        };
+        return errorResponse;
+      }
+
+      let selectedDoc = data;
+      if (hasSwaggerFilter(filter)) {
+        const filtered = filterSwaggerDocument(data, filter);
+
+        if (filtered.matchCount === 0) {
+          let text = `No API endpoints matched the filter (${describeSwaggerFilter(filter)}).`;
+          if (filtered.suggestions.length > 0) {
+            text += `\n\nDid you mean:\n\n${filtered.suggestions.map(suggestion => `- ${suggestion}`).join("\n")}\n`;
+          }
+
+          const noMatchResponse = {
+            content: [
+              {
+                type: "text",
+                text
+              }
+            ]
+          };
+          return noMatchResponse;
+        }
+
+        selectedDoc = filtered.doc;
+      }
+
+      const spec = normalizeSpec(selectedDoc);
+      const allSchemas = normalizeSchemas(data);
+      let schemas: Record<string, NormalizedSchema> = allSchemas;
+
+      if (schemaMode === "referenced") {
+        const names = new Set<string>();
+        spec.operations.forEach((operation) => {
+          operation.parameters.forEach(param => collectReferencedSchemas(param.schema, names));
+          collectReferencedSchemas(operation.requestBody?.schema, names);
+          operation.responses.forEach(response => collectReferencedSchemas(response.schema, names));
+        });
+
+        schemas = {};
+        for (const name of Object.keys(allSchemas)) {
+          if (names.has(name)) {
+            schemas[name] = allSchemas[name];
+          }
+        }
+      }
+
+      const generated = generateClient(
+        schemas,
+        spec.operations,
+        client,
+        input.options?.baseUrl ?? spec.servers[0] ?? ""
+      );
+
+      if (format === "markdown") {
+        let markdown = "# Generated TypeScript\n\n";
+        markdown += `Models: ${generated.types.length}`;
+        markdown += client === "none" ? "\n\n" : `, ${client} request functions: ${generated.functions.length}\n\n`;
+        markdown += "```typescript\n";
+        markdown += generated.code;
+        markdown += "```\n";
+
+        const markdownResponse = {
+          content: [
+            {
+              type: "text",
+              text: markdown
+            }
+          ]
+        };
+        return markdownResponse;
+      }
+
+      const jsonResponse = {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(generated, null, 2)
+          }
+        ]
+      };
+      return jsonResponse;
+    } catch (error) {
+      console.error("TypeScriptClientTool unexpected error:", error);
+      let errorMessage = "Unknown error";
+
+      if (error instanceof Error) {
+        errorMessage = `Failed to generate TypeScript from Swagger: ${error.message}`;
+      }
+
+      const errorResponse = {
+        content: [
+          {
+            type: "text",
+            text: errorMessage
+          }
+        ]
+      };
+      return errorResponse;
+    }
+  }
+}
+
+export default TypeScriptClientTool;
@@ -0,0 +1,276 @@
+// Authentication for remote ERD/Swagger requests: static headers, bearer tokens, basic auth,
+// API keys and OAuth2 client-credentials tokens (cached and refreshed before they expire).
+import axios, { AxiosHeaders, AxiosRequestConfig, InternalAxiosRequestConfig } from "axios";
+
+// Refresh OAuth2 tokens this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 30_000;
+
+export interface OAuth2ClientCredentials {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+  audience?: string;
+}
+
+export interface AuthConfig {
+  headers?: Record<string, string>;
+  bearerToken?: string;
+  basic?: {
+    username: string;
+    password: string;
+  };
+  apiKey?: {
+    name: string;
+    value: string;
+    in?: "query" | "header";
+  };
+  oauth2?: OAuth2ClientCredentials;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+const tokenCache = new Map<string, CachedToken>();
+
+// Env/CLI option names, e.g. SWAGGER_API_BEARER_TOKEN / --swagger-api-bearer-token
+export const AUTH_OPTION_NAMES = [
+  "HEADERS",
+  "BEARER_TOKEN",
+  "BASIC_AUTH",
+  "KEY",
+  "KEY_NAME",
+  "KEY_IN",
+  "OAUTH2_TOKEN_URL",
+  "OAUTH2_CLIENT_ID",
+  "OAUTH2_CLIENT_SECRET",
+  "OAUTH2_SCOPE",
+  "OAUTH2_AUDIENCE",
+];
+
+// Source-specific prefixes take precedence over the shared API_ prefix
+export const AUTH_ENV_PREFIXES = {
+  erd: "ERD_API_",
+  swagger: "SWAGGER_API_",
+  shared: "API_",
+};
+
+// `${VAR}` placeholders let config files reference secrets kept in the environment
+function expandEnv(value: string): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name) => process.env[name] ?? "");
+}
+
+function expandConfig<T>(value: T): T {
+  if (typeof value === "string") {
+    return expandEnv(value) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => expandConfig(item)) as unknown as T;
+  }
+  if (value && typeof value === "object") {
+    const expanded: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      expanded[key] = expandConfig(item);
+    }
+    return expanded as T;
+  }
+  return value;
+}
+
+// Accepts a JSON object or `Name: value; Other: value`. The parse error is not passed on, since
+// it quotes part of the value, which may hold a secret
+function parseHeaders(value: string, name: string): Record<string, string> {
+  const trimmed = value.trim();
+  if (trimmed.startsWith("{")) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      throw new Error(`Invalid ${name} JSON. Use a JSON object such as {"X-Api-Version": "2"} or 'Name: value; Other: value'`);
+    }
+  }
+
+  const headers: Record<string, string> = {};
+  for (const pair of trimmed.split(/[;\n]/)) {
+    const separator = pair.indexOf(":");
+    if (separator > 0) {
+      headers[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+    }
+  }
+  return headers;
+}
+
+function authFromEnvPrefix(prefix: string): AuthConfig | undefined {
+  const env = (name: string) => process.env[`${prefix}${name}`];
+  const auth: AuthConfig = {};
+
+  if (env("HEADERS")) {
+    auth.headers = parseHeaders(env("HEADERS")!, `${prefix}HEADERS`);
+  }
+  if (env("BEARER_TOKEN")) {
+    auth.bearerToken = env("BEARER_TOKEN");
+  }
+  if (env("BASIC_AUTH")) {
+    const value = env("BASIC_AUTH")!;
+    const separator = value.indexOf(":");
+    auth.basic = separator >= 0
+      ? { username: value.slice(0, separator), password: value.slice(separator + 1) }
+      : { username: value, password: "" };
+  }
+  if (env("KEY")) {
+    auth.apiKey = {
+      name: env("KEY_NAME") || "api_key",
+      value: env("KEY")!,
+      in: env("KEY_IN") === "header" ? "header" : "query",
+    };
+  }
+  if (env("OAUTH2_TOKEN_URL") && env("OAUTH2_CLIENT_ID")) {
+    auth.oauth2 = {
+      tokenUrl: env("OAUTH2_TOKEN_URL")!,
+      clientId: env("OAUTH2_CLIENT_ID")!,
+      clientSecret: env("OAUTH2_CLIENT_SECRET") || "",
+      scope: env("OAUTH2_SCOPE"),
+      audience: env("OAUTH2_AUDIENCE"),
+    };
+  }
+
+  return Object.keys(auth).length > 0 ? auth : undefined;
+}
+
+export function authFromEnv(source: "erd" | "swagger"): AuthConfig | undefined {
+  return authFromEnvPrefix(AUTH_ENV_PREFIXES[source]) || authFromEnvPrefix(AUTH_ENV_PREFIXES.shared);
+}
+
+// For the startup banner; the same error is raised again when the source is requested
+export function describeAuthEnv(source: "erd" | "swagger"): string {
+  try {
+    return describeAuth(authFromEnv(source));
+  } catch (error) {
+    return `${error instanceof Error ? error.message : error}; requests to this source fail until it is fixed`;
+  }
+}
+
+// Config-file auth blocks may use `${VAR}` placeholders
+export function authFromConfig(auth: AuthConfig | undefined): AuthConfig | undefined {
+  return auth ? expandConfig(auth) : undefined;
+}
+
+// Human-readable auth kinds; never includes secret values
+export function describeAuth(auth: AuthConfig | undefined): string {
+  if (!auth) {
+    return "none";
+  }
+
+  const kinds: string[] = [];
+  if (auth.headers && Object.keys(auth.headers).length > 0) kinds.push(`headers (${Object.keys(auth.headers).join(", ")})`);
+  if (auth.bearerToken) kinds.push("bearer");
+  if (auth.basic) kinds.push("basic");
+  if (auth.apiKey) kinds.push(`apiKey (${auth.apiKey.in || "query"})`);
+  if (auth.oauth2) kinds.push("oauth2 client credentials");
+
+  return kinds.length > 0 ? kinds.join(", ") : "none";
+}
+
+function tokenCacheKey(oauth2: OAuth2ClientCredentials): string {
+  return [oauth2.tokenUrl, oauth2.clientId, oauth2.scope || "", oauth2.audience || ""].join("|");
+}
+
+async function getOAuth2Token(oauth2: OAuth2ClientCredentials): Promise<string> {
+  const key = tokenCacheKey(oauth2);
+  const cached = tokenCache.get(key);
+
+  if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+    return cached.accessToken;
+  }
+
+  const body = new URLSearchParams({
+    grant_type: "client_credentials",
+    client_id: oauth2.clientId,
+    client_secret: oauth2.clientSecret,
+  });
+  if (oauth2.scope) body.set("scope", oauth2.scope);
+  if (oauth2.audience) body.set("audience", oauth2.audience);
+
+  let response;
+  try {
+    response = await axios.post(oauth2.tokenUrl, body.toString(), {
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    });
+  } catch (error) {
+    // The request body carries the client secret, so don't let the raw error escape
+    const status = axios.isAxiosError(error) && error.response ? ` (status ${error.response.status})` : "";
+    throw new Error(`Failed to obtain OAuth2 access token from ${oauth2.tokenUrl}${status}`);
+  }
+
+  const accessToken = response.data?.access_token;
+  if (!accessToken) {
+    throw new Error(`OAuth2 token response from ${oauth2.tokenUrl} did not include an access_token`);
+  }
+
+  const expiresIn = Number(response.data.expires_in) || 3600;
+  tokenCache.set(key, { accessToken, expiresAt: Date.now() + expiresIn * 1000 });
+  return accessToken;
+}
+
+export function invalidateOAuth2Token(auth: AuthConfig | undefined) {
+  if (auth?.oauth2) {
+    tokenCache.delete(tokenCacheKey(auth.oauth2));
+  }
+}
+
+export async function buildAuthRequestConfig(auth: AuthConfig | undefined): Promise<AxiosRequestConfig> {
+  if (!auth) {
+    return {};
+  }
+
+  const headers: Record<string, string> = { ...(auth.headers || {}) };
+  const params: Record<string, string> = {};
+  const config: AxiosRequestConfig = {};
+
+  if (auth.bearerToken) {
+    headers.Authorization = `Bearer ${auth.bearerToken}`;
+  }
+  if (auth.oauth2) {
+    headers.Authorization = `Bearer ${await getOAuth2Token(auth.oauth2)}`;
+  }
+  if (auth.basic) {
+    config.auth = { username: auth.basic.username, password: auth.basic.password };
+  }
+  if (auth.apiKey) {
+    if (auth.apiKey.in === "header") {
+      headers[auth.apiKey.name] = auth.apiKey.value;
+    } else {
+      params[auth.apiKey.name] = auth.apiKey.value;
+    }
+  }
+
+  config.headers = headers;
+  if (Object.keys(params).length > 0) {
+    config.params = params;
+  }
+  return config;
+}
+
+function redactRequestConfig(config: InternalAxiosRequestConfig) {
+  config.headers = new AxiosHeaders();
+  config.auth = undefined;
+  config.params = undefined;
+}
+
+// Strips credentials from an axios error so logging it cannot leak them
+export function redactAxiosError(error: unknown): unknown {
+  if (axios.isAxiosError(error)) {
+    if (error.config) {
+      redactRequestConfig(error.config);
+    }
+    error.request = undefined;
+    if (error.response) {
+      if (error.response.config && error.response.config !== error.config) {
+        redactRequestConfig(error.response.config);
+      }
+      error.response.request = undefined;
+    }
+  }
+  return error;
+}
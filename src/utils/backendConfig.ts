@@ -0,0 +1,183 @@
+// Named backends (and per-backend environments) loaded from a JSON/YAML config file.
+// Without a config file, the single backend described by the environment variables is used.
+import { dirname, isAbsolute, resolve } from "path";
+import { z } from "zod";
+import { AuthConfig, authFromConfig, authFromEnv } from "./auth.js";
+import { isRemoteSource, loadDocument } from "./documentLoader.js";
+import { RedactionConfig } from "./redaction.js";
+
+export const DEFAULT_BACKEND = "default";
+
+export interface BackendSettings {
+  erdUrl?: string;
+  swaggerUrl?: string;
+  mongodbUri?: string;
+  // Databases mongodb_explorer may open on that connection; without it, all but admin/local/config
+  mongodbDatabases?: string[];
+  sqlUri?: string;
+  // Shared by the ERD and Swagger endpoints unless erdAuth/swaggerAuth is given
+  auth?: AuthConfig;
+  erdAuth?: AuthConfig;
+  swaggerAuth?: AuthConfig;
+}
+
+export interface BackendDefinition extends BackendSettings {
+  description?: string;
+  defaultEnvironment?: string;
+  environments?: Record<string, BackendSettings>;
+}
+
+export interface BackendsConfig {
+  defaultBackend?: string;
+  backends: Record<string, BackendDefinition>;
+  // Masking of personal data in MongoDB output, shared by all backends
+  redaction?: RedactionConfig;
+}
+
+export interface ResolvedBackend {
+  name: string;
+  environment?: string;
+  fromConfig: boolean;
+  erdUrl?: string;
+  swaggerUrl?: string;
+  mongodbUri?: string;
+  mongodbDatabases?: string[];
+  sqlUri?: string;
+  erdAuth?: AuthConfig;
+  swaggerAuth?: AuthConfig;
+}
+
+export interface BackendSelection {
+  backend?: string;
+  environment?: string;
+}
+
+// Shared input fields so every tool accepts the same backend selection arguments
+export const backendSelectionSchema = {
+  backend: {
+    type: z.string().optional(),
+    description: "Name of the configured backend to use (see list_backends). Defaults to the configured default backend.",
+  },
+  environment: {
+    type: z.string().optional(),
+    description: "Environment profile of the backend (e.g. 'dev', 'staging'). Defaults to the backend's default environment.",
+  },
+};
+
+export function getConfigPath(): string | undefined {
+  return process.env.BACKEND_EXPLORER_CONFIG;
+}
+
+function getEnvironmentSettings(): Omit<ResolvedBackend, "name" | "fromConfig"> {
+  return {
+    erdUrl: process.env.ERD_API_URL,
+    swaggerUrl: process.env.SWAGGER_API_URL,
+    mongodbUri: process.env.MONGODB_URI || process.env.MONGODB_CONNECTION_STRING,
+    mongodbDatabases: process.env.MONGODB_DATABASES
+      ? process.env.MONGODB_DATABASES.split(",").map(name => name.trim()).filter(Boolean)
+      : undefined,
+    sqlUri: process.env.SQL_DATABASE_URL,
+    erdAuth: authFromEnv("erd"),
+    swaggerAuth: authFromEnv("swagger"),
+  };
+}
+
+export async function loadBackendsConfig(): Promise<BackendsConfig | null> {
+  const configPath = getConfigPath();
+  if (!configPath) {
+    return null;
+  }
+
+  const config = await loadDocument(configPath);
+  if (!config || typeof config.backends !== "object" || config.backends === null) {
+    throw new Error(`Invalid backend config ${configPath}: expected a 'backends' object`);
+  }
+
+  return config as BackendsConfig;
+}
+
+// Relative file paths in the config file are relative to the config file itself;
+// URLs and URIs (https://, file://, postgres://, sqlite:...) are left alone
+function resolveSourcePath(source: string | undefined, configPath: string): string | undefined {
+  if (!source || isRemoteSource(source) || /^[a-z][a-z0-9+.-]+:/i.test(source) || isAbsolute(source)) {
+    return source;
+  }
+  return resolve(dirname(resolve(configPath)), source);
+}
+
+export async function resolveBackend(selection: BackendSelection = {}): Promise<ResolvedBackend> {
+  const config = await loadBackendsConfig();
+
+  if (!config) {
+    if (selection.backend && selection.backend !== DEFAULT_BACKEND) {
+      throw new Error(`Unknown backend '${selection.backend}'. No backend config file is set (use --config or BACKEND_EXPLORER_CONFIG).`);
+    }
+    if (selection.environment) {
+      throw new Error(`Unknown environment '${selection.environment}'. No backend config file is set (use --config or BACKEND_EXPLORER_CONFIG).`);
+    }
+    return { name: DEFAULT_BACKEND, fromConfig: false, ...getEnvironmentSettings() };
+  }
+
+  const names = Object.keys(config.backends);
+  const name = selection.backend
+    || config.defaultBackend
+    || (names.length === 1 ? names[0] : undefined);
+
+  if (!name) {
+    // No backend picked and no default: fall back to the environment variables
+    if (selection.environment) {
+      throw new Error(`Environment '${selection.environment}' requires a backend. Configured backends: ${names.join(", ")}`);
+    }
+    return { name: DEFAULT_BACKEND, fromConfig: false, ...getEnvironmentSettings() };
+  }
+
+  const definition = config.backends[name];
+  if (!definition) {
+    throw new Error(`Unknown backend '${name}'. Configured backends: ${names.join(", ") || "(none)"}`);
+  }
+
+  const environmentName = selection.environment || definition.defaultEnvironment;
+  let environment: BackendSettings = {};
+
+  if (environmentName) {
+    const environments = definition.environments || {};
+    if (!(environmentName in environments)) {
+      const available = Object.keys(environments);
+      throw new Error(`Unknown environment '${environmentName}' for backend '${name}'. Available environments: ${available.join(", ") || "(none)"}`);
+    }
+    environment = environments[environmentName] || {};
+  }
+
+  return {
+    name,
+    environment: environmentName,
+    fromConfig: true,
+    erdUrl: resolveSourcePath(environment.erdUrl ?? definition.erdUrl, getConfigPath()!),
+    swaggerUrl: resolveSourcePath(environment.swaggerUrl ?? definition.swaggerUrl, getConfigPath()!),
+    mongodbUri: environment.mongodbUri ?? definition.mongodbUri,
+    mongodbDatabases: environment.mongodbDatabases ?? definition.mongodbDatabases,
+    sqlUri: resolveSourcePath(environment.sqlUri ?? definition.sqlUri, getConfigPath()!),
+    erdAuth: authFromConfig(environment.erdAuth ?? environment.auth ?? definition.erdAuth ?? definition.auth),
+    swaggerAuth: authFromConfig(environment.swaggerAuth ?? environment.auth ?? definition.swaggerAuth ?? definition.auth),
+  };
+}
+
+export function describeBackend(backend: ResolvedBackend): string {
+  return backend.environment ? `'${backend.name}' (${backend.environment})` : `'${backend.name}'`;
+}
+
+const SOURCE_LABELS = {
+  erd: { env: "ERD_API_URL", setting: "erdUrl" },
+  swagger: { env: "SWAGGER_API_URL", setting: "swaggerUrl" },
+  mongodb: { env: "MONGODB_URI or MONGODB_CONNECTION_STRING", setting: "mongodbUri" },
+  sql: { env: "SQL_DATABASE_URL", setting: "sqlUri" },
+};
+
+export function sourceNotConfiguredMessage(source: keyof typeof SOURCE_LABELS, backend: ResolvedBackend): string {
+  const labels = SOURCE_LABELS[source];
+
+  if (!backend.fromConfig) {
+    return `${labels.env} is not set in the environment variables`;
+  }
+  return `'${labels.setting}' is not configured for backend ${describeBackend(backend)}`;
+}
@@ -0,0 +1,217 @@
+// Loads ERD/Swagger documents from HTTP(S) URLs, `file://` URLs or plain filesystem paths,
+// parsing JSON or YAML. Local files are cached and watched so edits are picked up on the next call.
+// Remote documents are cached for SOURCE_CACHE_TTL seconds, then revalidated with ETag/Last-Modified;
+// if revalidation fails, the stale copy is served.
+import axios from "axios";
+import { createHash } from "crypto";
+import { FSWatcher, promises as fs, watch } from "fs";
+import { resolve } from "path";
+import { fileURLToPath } from "url";
+import { parse as parseYaml } from "yaml";
+import { AuthConfig, buildAuthRequestConfig, invalidateOAuth2Token, redactAxiosError } from "./auth.js";
+
+interface CachedFile {
+  // One file can be read with several parsers, e.g. as a Swagger document and as an ERD source
+  documents: Map<DocumentParser, any>;
+  watcher?: FSWatcher;
+}
+
+interface CachedRemote {
+  document: any;
+  fetchedAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+export type DocumentParser = (content: string, location: string, contentType?: string) => any;
+
+export interface LoadOptions {
+  // Bypass the TTL and the local file cache; failures are thrown instead of serving the stale copy
+  refresh?: boolean;
+  // Replaces the JSON/YAML parsing, e.g. for SQL DDL or Prisma ERD sources
+  parser?: DocumentParser;
+  // False reads a local file once, without caching or watching it
+  watch?: boolean;
+}
+
+const DEFAULT_CACHE_TTL_SECONDS = 300;
+
+const fileCache = new Map<string, CachedFile>();
+const remoteCache = new Map<string, CachedRemote>();
+const inFlight = new Map<string, Promise<any>>();
+const parserIds = new Map<DocumentParser, number>();
+
+export function getCacheTtlMs(): number {
+  const ttl = Number(process.env.SOURCE_CACHE_TTL);
+  return (Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_CACHE_TTL_SECONDS) * 1000;
+}
+
+// Different credentials may see different documents, so they are part of the key (hashed, not stored),
+// and so is the parser, since one URL can be read as a Swagger document and as an ERD source
+function remoteCacheKey(source: string, parser: DocumentParser, auth?: AuthConfig): string {
+  if (!parserIds.has(parser)) {
+    parserIds.set(parser, parserIds.size);
+  }
+  const key = `${source}#parser${parserIds.get(parser)}`;
+  return auth ? `${key}#${createHash("sha256").update(JSON.stringify(auth)).digest("hex")}` : key;
+}
+
+export function clearDocumentCache() {
+  for (const path of Array.from(fileCache.keys())) {
+    invalidate(path);
+  }
+  remoteCache.clear();
+}
+
+export function isRemoteSource(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+export function toLocalPath(source: string): string {
+  return source.startsWith("file://") ? fileURLToPath(source) : resolve(source);
+}
+
+function looksLikeYaml(location: string, contentType?: string): boolean {
+  if (contentType && /yaml|yml/i.test(contentType)) {
+    return true;
+  }
+  return /\.ya?ml(\?.*)?$/i.test(location);
+}
+
+export function parseDocument(content: string, location: string, contentType?: string): any {
+  if (looksLikeYaml(location, contentType)) {
+    return parseYaml(content);
+  }
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    return JSON.parse(content);
+  }
+
+  // Neither the extension nor the content type tells us, and it is not JSON: try YAML
+  return parseYaml(content);
+}
+
+function invalidate(path: string) {
+  const cached = fileCache.get(path);
+  if (cached) {
+    cached.watcher?.close();
+    fileCache.delete(path);
+  }
+}
+
+async function loadLocalDocument(path: string, parser: DocumentParser): Promise<any> {
+  const cached = fileCache.get(path);
+  if (cached?.documents.has(parser)) {
+    return cached.documents.get(parser);
+  }
+
+  const content = await fs.readFile(path, "utf-8");
+  const document = parser(content, path);
+  // Looked up again: another load may have cached the file meanwhile
+  const existing = fileCache.get(path);
+  if (existing) {
+    existing.documents.set(parser, document);
+    return document;
+  }
+
+  const entry: CachedFile = { documents: new Map([[parser, document]]) };
+
+  try {
+    // Editors often save by rename, which ends the watch; dropping the entry re-watches on next load
+    entry.watcher = watch(path, { persistent: false }, () => invalidate(path));
+    entry.watcher.on("error", () => invalidate(path));
+  } catch (error) {
+    console.error(`Failed to watch ${path}, changes will not be picked up until restart:`, error);
+  }
+
+  fileCache.set(path, entry);
+  return document;
+}
+
+async function fetchRemote(source: string, auth?: AuthConfig, headers: Record<string, string> = {}, retried = false): Promise<any> {
+  const authConfig = await buildAuthRequestConfig(auth);
+
+  try {
+    return await axios.get(source, {
+      ...authConfig,
+      headers: { ...(authConfig.headers as Record<string, string> || {}), ...headers },
+      responseType: "text",
+      transformResponse: [(data) => data],
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+    });
+  } catch (error) {
+    // A rejected OAuth2 token may have been revoked early: fetch a new one and retry once
+    if (!retried && auth?.oauth2 && axios.isAxiosError(error) && error.response?.status === 401) {
+      invalidateOAuth2Token(auth);
+      return fetchRemote(source, auth, headers, true);
+    }
+    throw redactAxiosError(error);
+  }
+}
+
+async function loadRemoteDocument(source: string, auth: AuthConfig | undefined, key: string, parser: DocumentParser, allowStale: boolean): Promise<any> {
+  const cached = remoteCache.get(key);
+  const headers: Record<string, string> = {};
+
+  if (cached?.etag) headers["If-None-Match"] = cached.etag;
+  if (cached?.lastModified) headers["If-Modified-Since"] = cached.lastModified;
+
+  let response;
+  try {
+    response = await fetchRemote(source, auth, headers);
+  } catch (error) {
+    if (cached && allowStale) {
+      console.error(`Failed to refresh ${source}, serving cached copy from ${new Date(cached.fetchedAt).toISOString()}:`, error);
+      return cached.document;
+    }
+    throw error;
+  }
+
+  if (response.status === 304 && cached) {
+    cached.fetchedAt = Date.now();
+    return cached.document;
+  }
+
+  const document = parser(String(response.data), source, response.headers["content-type"]);
+  remoteCache.set(key, {
+    document,
+    fetchedAt: Date.now(),
+    etag: response.headers["etag"],
+    lastModified: response.headers["last-modified"],
+  });
+  return document;
+}
+
+export async function loadDocument(source: string, auth?: AuthConfig, options: LoadOptions = {}): Promise<any> {
+  const parser = options.parser || parseDocument;
+
+  if (!isRemoteSource(source)) {
+    const path = toLocalPath(source);
+    if (options.watch === false) {
+      return parser(await fs.readFile(path, "utf-8"), path);
+    }
+    if (options.refresh) {
+      invalidate(path);
+    }
+    return loadLocalDocument(path, parser);
+  }
+
+  const key = remoteCacheKey(source, parser, auth);
+  const cached = remoteCache.get(key);
+  if (cached && !options.refresh && Date.now() - cached.fetchedAt < getCacheTtlMs()) {
+    return cached.document;
+  }
+
+  if (options.refresh) {
+    return loadRemoteDocument(source, auth, key, parser, false);
+  }
+
+  // Concurrent callers share one request
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = loadRemoteDocument(source, auth, key, parser, true).finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return pending;
+}
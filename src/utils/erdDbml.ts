@@ -0,0 +1,229 @@
+// Parses dbdiagram.io DBML into an ERD document: `Table` blocks (with column settings, notes and
+// indexes), standalone `Ref` statements/blocks and inline `[ref: > table.column]` settings.
+import { ErdBuilder, ErdReference, ErdTable } from "./erdModel.js";
+import { splitTopLevel } from "./erdSql.js";
+
+const NAME = String.raw`(?:"[^"]+"|[\w$]+)`;
+const QUALIFIED = String.raw`${NAME}(?:\.${NAME})*`;
+const ENDPOINT = String.raw`(?:${NAME}\.)+(?:${NAME}|\([^)]*\))`;
+
+interface DbmlStatement {
+  header: string;
+  body?: string;
+}
+
+function unquote(name: string): string {
+  const trimmed = name.trim();
+  return /^(".*"|'.*'|`.*`)$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+function stripComments(source: string): string {
+  let result = "";
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    if (char === "'" || char === '"' || char === "`") {
+      const end = source.indexOf(char, index + 1);
+      const stop = end < 0 ? source.length : end + 1;
+      result += source.slice(index, stop);
+      index = stop;
+      continue;
+    }
+    if (char === "/" && source[index + 1] === "/") {
+      const end = source.indexOf("\n", index);
+      index = end < 0 ? source.length : end;
+      continue;
+    }
+    if (char === "/" && source[index + 1] === "*") {
+      const end = source.indexOf("*/", index + 2);
+      index = end < 0 ? source.length : end + 2;
+      continue;
+    }
+    result += char;
+    index++;
+  }
+
+  return result;
+}
+
+// Top-level statements: `header { body }` blocks and single-line statements like `Ref: a.b > c.d`
+function splitStatements(source: string): DbmlStatement[] {
+  const statements: DbmlStatement[] = [];
+
+  for (const part of splitTopLevel(source, "\n")) {
+    const open = part.indexOf("{");
+    const close = part.lastIndexOf("}");
+    if (open >= 0 && close > open && !/^Ref\s*\w*\s*:/i.test(part)) {
+      statements.push({ header: part.slice(0, open).trim(), body: part.slice(open + 1, close) });
+    } else {
+      statements.push({ header: part.trim() });
+    }
+  }
+
+  return statements;
+}
+
+// `note: 'text'`, `Note: '''text'''` or `Note { 'text' }`
+function noteText(text: string): string | undefined {
+  const match = text.match(/^note\s*(?::\s*|\{\s*)('''[\s\S]*?'''|'(?:[^'\\]|\\.)*'|"[^"]*")/i);
+  if (!match) {
+    return undefined;
+  }
+  const value = match[1].startsWith("'''") ? match[1].slice(3, -3) : match[1].slice(1, -1);
+  return value.replace(/\\'/g, "'").trim();
+}
+
+function parseSettings(settings: string | undefined): string[] {
+  return settings ? splitTopLevel(settings, ",") : [];
+}
+
+function endpointParts(endpoint: string): { table: string, columns: string[] } {
+  const columnsStart = endpoint.lastIndexOf(".");
+  const tablePart = endpoint.slice(0, columnsStart);
+  const columnsPart = endpoint.slice(columnsStart + 1).trim();
+  const tableNames = tablePart.match(new RegExp(NAME, "g")) || [tablePart];
+  const columns = columnsPart.startsWith("(")
+    ? columnsPart.slice(1, -1).split(",").map(unquote)
+    : [unquote(columnsPart)];
+
+  return { table: unquote(tableNames[tableNames.length - 1]), columns };
+}
+
+// `>` many-to-one, `<` one-to-many, `-` one-to-one, `<>` many-to-many; the many side holds the key
+function parseRef(expression: string): ErdReference | undefined {
+  const match = expression.trim().match(new RegExp(String.raw`^(${ENDPOINT})\s*(<>|>|<|-)\s*(${ENDPOINT})`));
+  if (!match) {
+    return undefined;
+  }
+
+  const left = endpointParts(match[1]);
+  const right = endpointParts(match[3]);
+  const [source, target] = match[2] === "<" ? [right, left] : [left, right];
+  const types: Record<string, string> = { ">": "many-to-one", "<": "many-to-one", "-": "one-to-one", "<>": "many-to-many" };
+
+  return {
+    sourceTable: source.table,
+    sourceColumns: source.columns,
+    targetTable: target.table,
+    targetColumns: target.columns,
+    type: types[match[2]],
+  };
+}
+
+function parseIndexes(builder: ErdBuilder, tableName: string, body: string) {
+  for (const line of splitTopLevel(body, "\n")) {
+    const match = line.match(/^(\([^)]*\)|\S+)\s*(?:\[(.*)\])?$/);
+    if (!match) {
+      continue;
+    }
+
+    const columns = match[1].startsWith("(")
+      ? match[1].slice(1, -1).split(",").map(unquote)
+      : [unquote(match[1])];
+    const settings = parseSettings(match[2]).map(setting => setting.toLowerCase());
+
+    if (settings.includes("pk") || settings.includes("primary key")) {
+      builder.primaryKey(tableName, columns);
+    } else if (settings.includes("unique") && columns.length === 1) {
+      builder.markUnique(tableName, columns[0]);
+    }
+  }
+}
+
+function parseTable(builder: ErdBuilder, statement: DbmlStatement, aliases: Map<string, string>, references: ErdReference[]) {
+  const header = statement.header.match(new RegExp(String.raw`^Table\s+(${QUALIFIED})(?:\s+as\s+(${NAME}))?\s*(?:\[(.*)\])?$`, "i"));
+  if (!header) {
+    return;
+  }
+
+  const qualified = header[1].match(new RegExp(NAME, "g")) || [header[1]];
+  const tableName = unquote(qualified[qualified.length - 1]);
+  const table = builder.table(tableName);
+  if (header[2]) {
+    aliases.set(unquote(header[2]), tableName);
+  }
+
+  for (const setting of parseSettings(header[3])) {
+    const note = noteText(setting);
+    if (note) table.description = note;
+  }
+
+  for (const line of splitTopLevel(statement.body || "", "\n")) {
+    if (/^note\s*[:{]/i.test(line)) {
+      table.description = noteText(line) || table.description;
+      continue;
+    }
+    if (/^indexes\s*\{/i.test(line)) {
+      parseIndexes(builder, tableName, line.slice(line.indexOf("{") + 1, line.lastIndexOf("}")));
+      continue;
+    }
+
+    const column = line.match(new RegExp(String.raw`^(${NAME})\s+("[^"]+"|[\w.]+(?:\([^)]*\))?(?:\[\])?)\s*(?:\[(.*)\])?$`));
+    if (!column) {
+      continue;
+    }
+
+    const name = unquote(column[1]);
+    const settings = parseSettings(column[3]);
+    const lowered = settings.map(setting => setting.toLowerCase());
+    const description = settings.map(noteText).find(Boolean);
+
+    builder.column(tableName, {
+      name,
+      type: unquote(column[2]),
+      ...(description ? { description } : {}),
+      required: lowered.includes("not null"),
+    });
+
+    if (lowered.includes("pk") || lowered.includes("primary key")) {
+      builder.primaryKey(tableName, [name]);
+    }
+    if (lowered.includes("unique")) {
+      builder.markUnique(tableName, name);
+    }
+
+    for (const setting of settings) {
+      const ref = setting.match(/^ref\s*:\s*(<>|>|<|-)\s*(.+)$/i);
+      const reference = ref && parseRef(`"${tableName}".${column[1]} ${ref[1]} ${ref[2]}`);
+      if (reference) {
+        references.push(reference);
+      }
+    }
+  }
+}
+
+export function looksLikeDbml(content: string): boolean {
+  return /^\s*Table\s+[^\s{]+(?:\s+as\s+\S+)?\s*(?:\[[^\]]*\])?\s*\{/im.test(content);
+}
+
+export function parseDbml(source: string): { tables: ErdTable[] } {
+  const builder = new ErdBuilder();
+  const aliases = new Map<string, string>();
+  const references: ErdReference[] = [];
+
+  for (const statement of splitStatements(stripComments(source))) {
+    if (/^Table\s/i.test(statement.header)) {
+      parseTable(builder, statement, aliases, references);
+    } else if (/^Ref\b/i.test(statement.header)) {
+      const lines = statement.body !== undefined
+        ? splitTopLevel(statement.body, "\n")
+        : [statement.header.slice(statement.header.indexOf(":") + 1)];
+      for (const line of lines) {
+        const reference = parseRef(line);
+        if (reference) references.push(reference);
+      }
+    }
+  }
+
+  // Refs may use table aliases, including ones declared further down
+  for (const reference of references) {
+    builder.reference({
+      ...reference,
+      sourceTable: aliases.get(reference.sourceTable) || reference.sourceTable,
+      targetTable: aliases.get(reference.targetTable) || reference.targetTable,
+    });
+  }
+
+  return builder.build();
+}
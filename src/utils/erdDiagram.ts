@@ -0,0 +1,101 @@
+// Renders an ERD model as a Mermaid `erDiagram` or a PlantUML entity diagram.
+import { ErdColumn, ErdModel, ErdRelation, tableNames } from "./erdModel.js";
+
+type Cardinality = "one" | "many";
+
+// Relation types seen in ERD documents: "one-to-many", "1:n", "OneToMany", "belongsTo", ...
+function relationCardinality(relation: ErdRelation): [Cardinality, Cardinality] {
+  const type = (relation.type || "").toLowerCase().replace(/[\s_]/g, "-");
+
+  if (/many-?to-?many|n:m|m:n|\*:\*/.test(type)) return ["many", "many"];
+  if (/one-?to-?many|1:n|1:\*|has-?many/.test(type)) return ["one", "many"];
+  if (/one-?to-?one|1:1|has-?one/.test(type)) return ["one", "one"];
+  // The source holds the foreign key, so many-to-one is the default
+  return ["many", "one"];
+}
+
+// Crow's foot markers, shared by Mermaid and PlantUML's IE notation
+function relationConnector(relation: ErdRelation): string {
+  const [source, target] = relationCardinality(relation);
+  return `${source === "one" ? "||" : "}o"}--${target === "one" ? "||" : "o{"}`;
+}
+
+function identifier(name: string): string {
+  return name.replace(/[^A-Za-z0-9_]/g, "_");
+}
+
+function mermaidType(type: string | undefined): string {
+  const cleaned = (type || "unknown").trim().replace(/,/g, "_").replace(/\s+/g, "_").replace(/[^A-Za-z0-9_\-()[\]]/g, "");
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `t_${cleaned}`;
+}
+
+function columnKeys(column: ErdColumn): string[] {
+  const keys: string[] = [];
+  if (column.isPrimaryKey) keys.push("PK");
+  if (column.isForeignKey) keys.push("FK");
+  if (column.isUnique && !column.isPrimaryKey) keys.push("UK");
+  return keys;
+}
+
+function quoted(text: string): string {
+  return `"${text.replace(/"/g, "'").replace(/\s+/g, " ")}"`;
+}
+
+export function erdToMermaid(model: ErdModel): string {
+  const lines = ["erDiagram"];
+  const columnsByTable = new Map(model.tables.map(table => [table.name, table.columns]));
+
+  for (const name of tableNames(model)) {
+    const columns = columnsByTable.get(name) || [];
+    if (columns.length === 0) {
+      lines.push(`  ${identifier(name)}`);
+      continue;
+    }
+
+    lines.push(`  ${identifier(name)} {`);
+    for (const column of columns) {
+      const keys = columnKeys(column);
+      let line = `    ${mermaidType(column.type)} ${identifier(column.name)}`;
+      if (keys.length > 0) line += ` ${keys.join(", ")}`;
+      if (column.description) line += ` ${quoted(column.description)}`;
+      lines.push(line);
+    }
+    lines.push("  }");
+  }
+
+  for (const relation of model.relations) {
+    const label = relation.description || relation.sourceColumn || relation.type || "";
+    lines.push(`  ${identifier(relation.sourceTable)} ${relationConnector(relation)} ${identifier(relation.targetTable)} : ${quoted(label)}`);
+  }
+
+  return lines.join("\n");
+}
+
+export function erdToPlantUml(model: ErdModel): string {
+  const lines = ["@startuml", "hide circle", "skinparam linetype ortho", ""];
+  const columnsByTable = new Map(model.tables.map(table => [table.name, table.columns]));
+
+  for (const name of tableNames(model)) {
+    const columns = columnsByTable.get(name) || [];
+    const keyColumns = columns.filter(column => column.isPrimaryKey);
+    const otherColumns = columns.filter(column => !column.isPrimaryKey);
+    const columnLine = (column: ErdColumn) => {
+      const keys = columnKeys(column).map(key => `<<${key}>>`).join(" ");
+      return `  ${column.required || column.isPrimaryKey ? "* " : ""}${column.name} : ${column.type || "unknown"}${keys ? ` ${keys}` : ""}`;
+    };
+
+    lines.push(`entity ${quoted(name)} as ${identifier(name)} {`);
+    keyColumns.forEach(column => lines.push(columnLine(column)));
+    if (keyColumns.length > 0) lines.push("  --");
+    otherColumns.forEach(column => lines.push(columnLine(column)));
+    lines.push("}", "");
+  }
+
+  for (const relation of model.relations) {
+    const label = relation.description || relation.sourceColumn || relation.type;
+    lines.push(`${identifier(relation.sourceTable)} ${relationConnector(relation)} ${identifier(relation.targetTable)}${label ? ` : ${label}` : ""}`);
+  }
+
+  lines.push("@enduml");
+  return lines.join("\n");
+}
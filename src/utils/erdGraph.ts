@@ -0,0 +1,194 @@
+// Relationship graph over an ERD: edges come from the declared relations plus foreign-key columns
+// without one (matched to a table by name, e.g. `user_id` → `users`). Answers join-path,
+// inbound-reference and neighbourhood questions with the join columns of every hop.
+import { ErdModel, ErdTable } from "./erdModel.js";
+
+// Stops path enumeration on very dense schemas
+const MAX_PATH_EXPANSIONS = 20000;
+
+// The `fromTable` side holds the foreign key
+export interface ErdEdge {
+  fromTable: string;
+  fromColumn: string;
+  toTable: string;
+  toColumn: string;
+  type?: string;
+  inferred: boolean;
+}
+
+export interface ErdPathStep extends ErdEdge {
+  // "outbound" follows the foreign key from the current table; "inbound" comes back through one
+  direction: "outbound" | "inbound";
+  // Tables in walking order
+  from: string;
+  to: string;
+  // Name for `to` when the table is already in the query, e.g. `e2` for a self-reference
+  alias?: string;
+}
+
+export interface ErdJoinPath {
+  tables: string[];
+  steps: ErdPathStep[];
+  joins: string[];
+}
+
+export interface ErdNeighbour {
+  table: string;
+  distance: number;
+  // The hop that first reached this table
+  via: ErdPathStep;
+}
+
+function singular(name: string): string {
+  if (/ies$/i.test(name)) return name.slice(0, -3) + "y";
+  if (/(ss|x|ch|sh)es$/i.test(name)) return name.slice(0, -2);
+  if (/s$/i.test(name) && !/ss$/i.test(name)) return name.slice(0, -1);
+  return name;
+}
+
+function primaryKeyColumn(table: ErdTable | undefined): string {
+  return table?.columns.find(column => column.isPrimaryKey)?.name || "id";
+}
+
+// `user_id`, `userId`, `UserID` → a table named user/users/User
+function inferTargetTable(column: string, tables: ErdTable[]): ErdTable | undefined {
+  const base = column.replace(/(_id|Id|ID)$/, "");
+  if (base === column || !base) {
+    return undefined;
+  }
+  const wanted = base.replace(/_/g, "").toLowerCase();
+  return tables.find(table => singular(table.name).replace(/_/g, "").toLowerCase() === wanted)
+    || tables.find(table => table.name.replace(/_/g, "").toLowerCase() === wanted);
+}
+
+export function buildErdEdges(model: ErdModel): ErdEdge[] {
+  const edges: ErdEdge[] = model.relations.map(relation => ({
+    fromTable: relation.sourceTable,
+    fromColumn: relation.sourceColumn,
+    toTable: relation.targetTable,
+    toColumn: relation.targetColumn,
+    type: relation.type,
+    inferred: false,
+  }));
+  const covered = new Set(edges.map(edge => `${edge.fromTable}.${edge.fromColumn}`.toLowerCase()));
+
+  for (const table of model.tables) {
+    for (const column of table.columns) {
+      if (!column.isForeignKey || covered.has(`${table.name}.${column.name}`.toLowerCase())) {
+        continue;
+      }
+      const target = inferTargetTable(column.name, model.tables);
+      if (target) {
+        edges.push({
+          fromTable: table.name,
+          fromColumn: column.name,
+          toTable: target.name,
+          toColumn: primaryKeyColumn(target),
+          type: "many-to-one",
+          inferred: true,
+        });
+      }
+    }
+  }
+
+  return edges;
+}
+
+function stepsFrom(edges: ErdEdge[], table: string): ErdPathStep[] {
+  const steps: ErdPathStep[] = [];
+  for (const edge of edges) {
+    if (edge.fromTable === table) {
+      steps.push({ ...edge, direction: "outbound", from: edge.fromTable, to: edge.toTable });
+    }
+    // Self-references are already covered by the outbound step
+    if (edge.toTable === table && edge.fromTable !== table) {
+      steps.push({ ...edge, direction: "inbound", from: edge.toTable, to: edge.fromTable });
+    }
+  }
+  return steps;
+}
+
+export function joinCondition(step: ErdPathStep): string {
+  const fromName = step.direction === "inbound" && step.alias ? step.alias : step.fromTable;
+  const toName = step.direction === "outbound" && step.alias ? step.alias : step.toTable;
+  return `${fromName}.${step.fromColumn} = ${toName}.${step.toColumn}`;
+}
+
+function toJoinPath(start: string, steps: ErdPathStep[]): ErdJoinPath {
+  return {
+    tables: [start, ...steps.map(step => step.to)],
+    steps,
+    joins: steps.map(step => `JOIN ${step.to}${step.alias ? ` ${step.alias}` : ""} ON ${joinCondition(step)}`),
+  };
+}
+
+// Shortest simple paths first, up to `maxDepth` hops
+export function findJoinPaths(edges: ErdEdge[], from: string, to: string, maxDepth: number, maxPaths: number): ErdJoinPath[] {
+  if (from === to) {
+    // A self-reference joins the table to a second copy of itself: `JOIN employees e2`
+    const selfJoins = stepsFrom(edges, from)
+      .filter(step => step.to === from)
+      .slice(0, maxPaths)
+      .map(step => toJoinPath(from, [{ ...step, alias: `${from.charAt(0).toLowerCase()}2` }]));
+    return selfJoins.length > 0 ? selfJoins : [toJoinPath(from, [])];
+  }
+
+  const paths: ErdJoinPath[] = [];
+  const queue: ErdPathStep[][] = [[]];
+  let expansions = 0;
+
+  while (queue.length > 0 && paths.length < maxPaths && expansions < MAX_PATH_EXPANSIONS) {
+    const steps = queue.shift()!;
+    const current = steps.length > 0 ? steps[steps.length - 1].to : from;
+    if (steps.length >= maxDepth) {
+      continue;
+    }
+
+    const visited = new Set([from, ...steps.map(step => step.to)]);
+    for (const step of stepsFrom(edges, current)) {
+      expansions++;
+      if (visited.has(step.to)) {
+        continue;
+      }
+      if (step.to === to) {
+        paths.push(toJoinPath(from, [...steps, step]));
+        if (paths.length >= maxPaths) break;
+      } else {
+        queue.push([...steps, step]);
+      }
+    }
+  }
+
+  return paths;
+}
+
+// Foreign keys in other tables that point at `table`
+export function inboundEdges(edges: ErdEdge[], table: string): ErdEdge[] {
+  return edges.filter(edge => edge.toTable === table);
+}
+
+export function outboundEdges(edges: ErdEdge[], table: string): ErdEdge[] {
+  return edges.filter(edge => edge.fromTable === table);
+}
+
+export function findNeighbours(edges: ErdEdge[], table: string, depth: number): ErdNeighbour[] {
+  const neighbours: ErdNeighbour[] = [];
+  const visited = new Set([table]);
+  let frontier = [table];
+
+  for (let distance = 1; distance <= depth && frontier.length > 0; distance++) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      for (const step of stepsFrom(edges, current)) {
+        if (!visited.has(step.to)) {
+          visited.add(step.to);
+          next.push(step.to);
+          neighbours.push({ table: step.to, distance, via: step });
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return neighbours;
+}
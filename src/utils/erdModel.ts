@@ -0,0 +1,234 @@
+// Typed view of the ERD document ({ tables: [{ name, columns, relations }] }) plus helpers to
+// look up tables and cut out the neighbourhood of a table.
+
+export interface ErdColumn {
+  name: string;
+  type: string;
+  description?: string;
+  required?: boolean;
+  isPrimaryKey?: boolean;
+  isForeignKey?: boolean;
+  isUnique?: boolean;
+}
+
+export interface ErdRelation {
+  type?: string;
+  description?: string;
+  sourceTable: string;
+  sourceColumn: string;
+  targetTable: string;
+  targetColumn: string;
+}
+
+export interface ErdTable {
+  name: string;
+  description?: string;
+  columns: ErdColumn[];
+  relations?: ErdRelation[];
+}
+
+export interface ErdModel {
+  tables: ErdTable[];
+  // Every relation once, whether it was declared on a table or at the top level
+  relations: ErdRelation[];
+}
+
+export function relationKey(relation: ErdRelation): string {
+  return `${relation.sourceTable}.${relation.sourceColumn}->${relation.targetTable}.${relation.targetColumn}`;
+}
+
+export function normalizeErd(data: any): ErdModel | null {
+  if (!data || !Array.isArray(data.tables)) {
+    return null;
+  }
+
+  const tables: ErdTable[] = data.tables
+    .filter((table: any) => table && typeof table.name === "string")
+    .map((table: any) => ({
+      ...table,
+      columns: Array.isArray(table.columns) ? table.columns : [],
+    }));
+
+  const relations = new Map<string, ErdRelation>();
+  const declared = [
+    ...tables.flatMap(table => Array.isArray(table.relations) ? table.relations : []),
+    ...(Array.isArray(data.relations) ? data.relations : []),
+  ];
+
+  for (const relation of declared) {
+    if (relation?.sourceTable && relation?.targetTable && !relations.has(relationKey(relation))) {
+      relations.set(relationKey(relation), relation);
+    }
+  }
+
+  return { tables, relations: Array.from(relations.values()) };
+}
+
+// Tables referenced only by relations still count, so diagrams don't lose the far end of an edge
+export function tableNames(model: ErdModel): string[] {
+  const names = new Set(model.tables.map(table => table.name));
+  for (const relation of model.relations) {
+    names.add(relation.sourceTable);
+    names.add(relation.targetTable);
+  }
+  return Array.from(names);
+}
+
+export function findTableName(model: ErdModel, name: string): string | undefined {
+  const names = tableNames(model);
+  return names.find(candidate => candidate === name)
+    || names.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+}
+
+// Tables within `depth` relation hops of `start`, following relations in both directions
+export function tableNeighbourhood(model: ErdModel, start: string, depth: number): Set<string> {
+  const visited = new Set([start]);
+  let frontier = [start];
+
+  for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const relation of model.relations) {
+      for (const [from, to] of [[relation.sourceTable, relation.targetTable], [relation.targetTable, relation.sourceTable]]) {
+        if (frontier.includes(from) && !visited.has(to)) {
+          visited.add(to);
+          next.push(to);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return visited;
+}
+
+// Keeps only the given tables and the relations between them
+export function subsetErd(model: ErdModel, names: Set<string>): ErdModel {
+  const keep = (relation: ErdRelation) => names.has(relation.sourceTable) && names.has(relation.targetTable);
+
+  return {
+    tables: model.tables
+      .filter(table => names.has(table.name))
+      .map(table => table.relations ? { ...table, relations: table.relations.filter(keep) } : table),
+    relations: model.relations.filter(keep),
+  };
+}
+
+export interface ErdReference {
+  sourceTable: string;
+  sourceColumns: string[];
+  targetTable: string;
+  // Defaults to the target's primary key
+  targetColumns?: string[];
+  type?: string;
+  description?: string;
+}
+
+// Collects tables, columns and references from a parsed schema source (SQL DDL, Prisma, DBML)
+// and builds an ERD document in the same shape the ERD API returns
+export class ErdBuilder {
+  private tables = new Map<string, ErdTable>();
+  private unique = new Set<string>();
+  private references: ErdReference[] = [];
+
+  private find(name: string): ErdTable | undefined {
+    return this.tables.get(name.toLowerCase());
+  }
+
+  table(name: string, description?: string): ErdTable {
+    let table = this.find(name);
+    if (!table) {
+      table = { name, columns: [], relations: [] };
+      this.tables.set(name.toLowerCase(), table);
+    }
+    if (description) {
+      table.description = description;
+    }
+    return table;
+  }
+
+  column(tableName: string, column: ErdColumn): ErdColumn {
+    const table = this.table(tableName);
+    const existing = table.columns.find(candidate => candidate.name.toLowerCase() === column.name.toLowerCase());
+    if (existing) {
+      return Object.assign(existing, column);
+    }
+    table.columns.push(column);
+    return column;
+  }
+
+  primaryKey(tableName: string, columns: string[]) {
+    for (const name of columns) {
+      const column = this.column(tableName, this.existingColumn(tableName, name) || { name, type: "unknown" });
+      column.isPrimaryKey = true;
+      column.required = true;
+    }
+  }
+
+  markUnique(tableName: string, column: string) {
+    this.unique.add(`${tableName.toLowerCase()}.${column.toLowerCase()}`);
+  }
+
+  reference(reference: ErdReference) {
+    this.references.push(reference);
+  }
+
+  private existingColumn(tableName: string, name: string): ErdColumn | undefined {
+    return this.find(tableName)?.columns.find(column => column.name.toLowerCase() === name.toLowerCase());
+  }
+
+  // A foreign key that is itself unique (or the whole primary key) points at no more than one row
+  private isOneToOne(reference: ErdReference): boolean {
+    if (reference.sourceColumns.length !== 1) {
+      return false;
+    }
+    const column = reference.sourceColumns[0];
+    const primaryKey = this.find(reference.sourceTable)?.columns.filter(candidate => candidate.isPrimaryKey) || [];
+    return this.unique.has(`${reference.sourceTable.toLowerCase()}.${column.toLowerCase()}`)
+      || (primaryKey.length === 1 && primaryKey[0].name.toLowerCase() === column.toLowerCase());
+  }
+
+  build(): { tables: ErdTable[] } {
+    for (const key of Array.from(this.unique)) {
+      const [tableName, columnName] = [key.slice(0, key.lastIndexOf(".")), key.slice(key.lastIndexOf(".") + 1)];
+      const column = this.existingColumn(tableName, columnName);
+      if (column) {
+        column.isUnique = true;
+      }
+    }
+
+    // A key can be declared twice, e.g. inline and again with ALTER TABLE, or as a DBML column ref and a Ref line
+    const added = new Set<string>();
+
+    for (const reference of this.references) {
+      const source = this.table(reference.sourceTable);
+      const target = this.find(reference.targetTable);
+      const targetColumns = reference.targetColumns && reference.targetColumns.length > 0
+        ? reference.targetColumns
+        : (target?.columns.filter(column => column.isPrimaryKey).map(column => column.name) || []);
+      const type = reference.type || (this.isOneToOne(reference) ? "one-to-one" : "many-to-one");
+
+      reference.sourceColumns.forEach((sourceColumn, index) => {
+        const column = this.existingColumn(source.name, sourceColumn);
+        if (column) {
+          column.isForeignKey = true;
+        }
+
+        const relation: ErdRelation = {
+          type,
+          ...(reference.description ? { description: reference.description } : {}),
+          sourceTable: source.name,
+          sourceColumn: column?.name || sourceColumn,
+          targetTable: target?.name || reference.targetTable,
+          targetColumn: targetColumns[index] || "id",
+        };
+        const key = relationKey(relation).toLowerCase();
+        if (!added.has(key)) {
+          added.add(key);
+          source.relations!.push(relation);
+        }
+      });
+    }
+
+    return { tables: Array.from(this.tables.values()) };
+  }
+}
@@ -0,0 +1,182 @@
+// Parses a `schema.prisma` file into an ERD document. Models become tables, scalar fields become
+// columns, and `@relation(fields: [...], references: [...])` fields become relations; `///` doc
+// comments become descriptions. Tables and columns take their database names from `@@map` and
+// `@map`, like the database itself.
+import { ErdBuilder, ErdTable } from "./erdModel.js";
+
+interface PrismaBlock {
+  kind: string;
+  name: string;
+  description?: string;
+  lines: { text: string, description?: string }[];
+}
+
+// Matches `[a, b]` lists inside attributes like @@id([a, b]) or fields: [a, b]
+function listArgument(text: string, name?: string): string[] {
+  const pattern = name ? new RegExp(String.raw`\b${name}\s*:\s*\[([^\]]*)\]`) : /\[([^\]]*)\]/;
+  const match = text.match(pattern);
+  return match ? match[1].split(",").map(item => item.trim().replace(/\(.*\)$/, "")).filter(Boolean) : [];
+}
+
+// Drops a trailing `//` comment, keeping `//` inside string literals like @default("https://…")
+function stripComment(line: string): string {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted && char === "\\") {
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === "/" && line[i + 1] === "/") {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function parseBlocks(schema: string): PrismaBlock[] {
+  const blocks: PrismaBlock[] = [];
+  let current: PrismaBlock | null = null;
+  let docComment: string[] = [];
+
+  for (const rawLine of schema.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (line.startsWith("///")) {
+      docComment.push(line.slice(3).trim());
+      continue;
+    }
+
+    const text = stripComment(line).trim();
+    const description = docComment.length > 0 ? docComment.join(" ") : undefined;
+    if (!text) {
+      continue;
+    }
+    docComment = [];
+
+    if (!current) {
+      const header = text.match(/^(model|view|enum|type|datasource|generator)\s+(\w+)\s*\{$/);
+      if (header) {
+        current = { kind: header[1], name: header[2], description, lines: [] };
+      }
+      continue;
+    }
+
+    if (text === "}") {
+      blocks.push(current);
+      current = null;
+      continue;
+    }
+    current.lines.push({ text, description });
+  }
+
+  return blocks;
+}
+
+export function looksLikePrisma(content: string): boolean {
+  return /^\s*model\s+\w+\s*\{/m.test(content)
+    && /^\s*(datasource|generator)\s+\w+\s*\{|@id\b|@relation\b/m.test(content);
+}
+
+const FIELD_PATTERN = /^(\w+)\s+(\w+(?:\([^)]*\))?)(\[\])?(\?)?\s*(.*)$/;
+
+function mappedName(text: string, attribute: "@map" | "@@map"): string | undefined {
+  const match = text.match(attribute === "@map" ? /(?<!@)@map\(\s*(?:name:\s*)?"([^"]+)"/ : /^@@map\(\s*(?:name:\s*)?"([^"]+)"/);
+  return match?.[1];
+}
+
+interface PrismaModelNames {
+  table: string;
+  // Field name → column name, for fields with @map
+  columns: Map<string, string>;
+}
+
+function modelNames(block: PrismaBlock): PrismaModelNames {
+  const columns = new Map<string, string>();
+  let table = block.name;
+  for (const { text } of block.lines) {
+    const field = text.match(FIELD_PATTERN);
+    const column = field && !text.startsWith("@@") ? mappedName(field[5], "@map") : undefined;
+    if (column) {
+      columns.set(field![1], column);
+    }
+    table = mappedName(text, "@@map") || table;
+  }
+  return { table, columns };
+}
+
+export function parsePrismaSchema(schema: string): { tables: ErdTable[] } {
+  const builder = new ErdBuilder();
+  const blocks = parseBlocks(schema);
+  // Enums and composite types are not tables, so fields of those types stay columns
+  const models = new Map(blocks
+    .filter(block => block.kind === "model" || block.kind === "view")
+    .map(block => [block.name, modelNames(block)]));
+
+  for (const block of blocks) {
+    const names = models.get(block.name);
+    if (!names) {
+      continue;
+    }
+
+    const table = names.table;
+    const column = (field: string) => names.columns.get(field) || field;
+    const fieldList = (text: string) => (listArgument(text, "fields").length > 0 ? listArgument(text, "fields") : listArgument(text)).map(column);
+
+    builder.table(table, block.description);
+
+    for (const { text, description } of block.lines) {
+      if (text.startsWith("@@")) {
+        if (text.startsWith("@@id")) {
+          builder.primaryKey(table, fieldList(text));
+        } else if (text.startsWith("@@unique")) {
+          const columns = fieldList(text);
+          if (columns.length === 1) {
+            builder.markUnique(table, columns[0]);
+          }
+        }
+        continue;
+      }
+
+      const field = text.match(FIELD_PATTERN);
+      if (!field) {
+        continue;
+      }
+
+      const [, name, type, list, optional, attributes] = field;
+
+      const target = models.get(type);
+      if (target) {
+        // Only the side holding `fields:` owns the foreign key; the other side is a back-relation
+        const relation = attributes.match(/@relation\((.*)\)/);
+        const fields = relation ? listArgument(relation[1], "fields") : [];
+        if (fields.length > 0) {
+          builder.reference({
+            sourceTable: table,
+            sourceColumns: fields.map(column),
+            targetTable: target.table,
+            targetColumns: listArgument(relation![1], "references").map(reference => target.columns.get(reference) || reference),
+            description: name,
+          });
+        }
+        continue;
+      }
+
+      builder.column(table, {
+        name: column(name),
+        type: `${type}${list || ""}`,
+        ...(description ? { description } : {}),
+        required: !optional && !list,
+      });
+
+      if (/@id\b/.test(attributes)) {
+        builder.primaryKey(table, [column(name)]);
+      }
+      if (/@unique\b/.test(attributes)) {
+        builder.markUnique(table, column(name));
+      }
+    }
+  }
+
+  return builder.build();
+}
@@ -0,0 +1,68 @@
+// ERD source adapters: each one turns a schema file (SQL DDL, Prisma, DBML) into the
+// `{ tables: [{ name, columns, relations }] }` document the ERD API returns. Anything no adapter
+// claims is parsed as that JSON/YAML document. A SQL database URI is introspected instead.
+import { AuthConfig } from "./auth.js";
+import { parseDbml, looksLikeDbml } from "./erdDbml.js";
+import { looksLikePrisma, parsePrismaSchema } from "./erdPrisma.js";
+import { looksLikeSqlDdl, parseSqlDdl } from "./erdSql.js";
+import { getCacheTtlMs, loadDocument, LoadOptions, parseDocument } from "./documentLoader.js";
+import { connectSql, introspectSqlSchema, isSqlDatabaseUri } from "./sqlDatabase.js";
+
+export interface ErdSourceAdapter {
+  name: string;
+  // File extensions (URLs may carry a query string)
+  extensions: RegExp;
+  // Content check for sources whose location has no telling extension
+  detect: (content: string) => boolean;
+  parse: (content: string) => any;
+}
+
+export const ERD_SOURCE_ADAPTERS: ErdSourceAdapter[] = [
+  { name: "sql", extensions: /\.(sql|ddl)(\?.*)?$/i, detect: looksLikeSqlDdl, parse: parseSqlDdl },
+  { name: "prisma", extensions: /\.prisma(\?.*)?$/i, detect: looksLikePrisma, parse: parsePrismaSchema },
+  { name: "dbml", extensions: /\.dbml(\?.*)?$/i, detect: looksLikeDbml, parse: parseDbml },
+];
+
+export function findErdAdapter(content: string, location: string): ErdSourceAdapter | undefined {
+  const byExtension = ERD_SOURCE_ADAPTERS.find(adapter => adapter.extensions.test(location));
+  if (byExtension) {
+    return byExtension;
+  }
+
+  // JSON is always the ERD document itself
+  if (/^\s*[{[]/.test(content)) {
+    return undefined;
+  }
+  return ERD_SOURCE_ADAPTERS.find(adapter => adapter.detect(content));
+}
+
+export function parseErdSource(content: string, location: string, contentType?: string): any {
+  const adapter = findErdAdapter(content, location);
+  return adapter ? adapter.parse(content) : parseDocument(content, location, contentType);
+}
+
+// Introspected schemas, cached for the same TTL as remote documents
+const databaseSchemas = new Map<string, { document: any, fetchedAt: number }>();
+
+export function clearErdDatabaseCache() {
+  databaseSchemas.clear();
+}
+
+async function loadDatabaseSchema(uri: string, options: LoadOptions): Promise<any> {
+  const cached = databaseSchemas.get(uri);
+  if (cached && !options.refresh && Date.now() - cached.fetchedAt < getCacheTtlMs()) {
+    return cached.document;
+  }
+
+  const document = await introspectSqlSchema(connectSql(uri));
+  databaseSchemas.set(uri, { document, fetchedAt: Date.now() });
+  return document;
+}
+
+export function loadErdDocument(source: string, auth?: AuthConfig, options: LoadOptions = {}): Promise<any> {
+  // SQL DDL files are `.sql`, so only URIs and SQLite database files count as live databases
+  if (isSqlDatabaseUri(source)) {
+    return loadDatabaseSchema(source, options);
+  }
+  return loadDocument(source, auth, { ...options, parser: parseErdSource });
+}
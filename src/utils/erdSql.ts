@@ -0,0 +1,358 @@
+// Parses `CREATE TABLE` / `ALTER TABLE ... ADD` DDL (Postgres and MySQL dialects) into an ERD document.
+// Postgres `COMMENT ON` and MySQL `COMMENT '...'` become descriptions.
+import { ErdBuilder, ErdTable } from "./erdModel.js";
+
+const IDENTIFIER = String.raw`(?:"[^"]+"|\x60[^\x60]+\x60|\[[^\]]+\]|[A-Za-z_][\w$]*)`;
+const QUALIFIED = String.raw`${IDENTIFIER}(?:\s*\.\s*${IDENTIFIER})*`;
+
+// Keywords that end the type of a column definition
+const COLUMN_CONSTRAINT = /\b(?:NOT\s+NULL|NULL|DEFAULT|PRIMARY\s+KEY|REFERENCES|UNIQUE|CHECK|CONSTRAINT|AUTO_INCREMENT|AUTOINCREMENT|COMMENT|GENERATED|COLLATE|CHARACTER\s+SET|ON\s+UPDATE|IDENTITY)\b/i;
+
+export function unquoteIdentifier(identifier: string): string {
+  const trimmed = identifier.trim();
+  if (/^(".*"|`.*`|\[.*\])$/.test(trimmed)) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+// Schema-qualified names keep only the last part, which is how relations refer to tables
+function lastPart(qualified: string): string {
+  const parts = qualified.match(new RegExp(IDENTIFIER, "g")) || [qualified];
+  return unquoteIdentifier(parts[parts.length - 1]);
+}
+
+function qualifiedParts(qualified: string): string[] {
+  return (qualified.match(new RegExp(IDENTIFIER, "g")) || []).map(unquoteIdentifier);
+}
+
+// Returns the index just past a quoted section starting at `start`
+function skipQuoted(text: string, start: number): number {
+  const quote = text[start];
+  let index = start + 1;
+  while (index < text.length) {
+    if (text[index] === "\\" && quote === "'") {
+      index += 2;
+      continue;
+    }
+    if (text[index] === quote) {
+      if (text[index + 1] === quote) {
+        index += 2;
+        continue;
+      }
+      return index + 1;
+    }
+    index++;
+  }
+  return index;
+}
+
+// Blanks out quoted text and parenthesized content (keeping the delimiters and the length)
+// so keyword searches only see the top level
+function maskNested(text: string): string {
+  let masked = "";
+  let depth = 0;
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    if (char === "'" || char === '"' || char === "`") {
+      const end = skipQuoted(text, index);
+      masked += char + " ".repeat(Math.max(0, end - index - 2)) + (end - index > 1 ? text[end - 1] : "");
+      index = end;
+      continue;
+    }
+    if (char === "(") {
+      depth++;
+      masked += depth === 1 ? char : " ";
+    } else if (char === ")") {
+      depth = Math.max(0, depth - 1);
+      masked += depth === 0 ? char : " ";
+    } else {
+      masked += depth > 0 ? " " : char;
+    }
+    index++;
+  }
+
+  return masked;
+}
+
+// Splits on `separator` outside quotes, parentheses, brackets and braces
+export function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    if (char === "'" || char === '"' || char === "`") {
+      const end = skipQuoted(text, index);
+      current += text.slice(index, end);
+      index = end;
+      continue;
+    }
+    if ("([{".includes(char)) depth++;
+    if (")]}".includes(char)) depth = Math.max(0, depth - 1);
+
+    if (depth === 0 && text.startsWith(separator, index)) {
+      parts.push(current);
+      current = "";
+      index += separator.length;
+      continue;
+    }
+    current += char;
+    index++;
+  }
+
+  if (current.trim()) {
+    parts.push(current);
+  }
+  return parts.map(part => part.trim()).filter(part => part.length > 0);
+}
+
+function readStringLiteral(text: string, start: number): string | undefined {
+  const open = text.indexOf("'", start);
+  if (open < 0) {
+    return undefined;
+  }
+  const end = skipQuoted(text, open);
+  return text.slice(open + 1, end - 1).replace(/''/g, "'").replace(/\\'/g, "'");
+}
+
+function columnList(text: string): string[] {
+  return splitTopLevel(text, ",").map(column => unquoteIdentifier(column.replace(/\s+(ASC|DESC)$/i, "").replace(/\(\d+\)$/, "")));
+}
+
+// Statements without comments, split on `;` outside quotes and `$tag$` bodies
+function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+  let index = 0;
+
+  while (index < sql.length) {
+    const char = sql[index];
+
+    if ((char === "-" && sql[index + 1] === "-") || char === "#") {
+      const end = sql.indexOf("\n", index);
+      index = end < 0 ? sql.length : end;
+      continue;
+    }
+    if (char === "/" && sql[index + 1] === "*") {
+      const end = sql.indexOf("*/", index + 2);
+      index = end < 0 ? sql.length : end + 2;
+      continue;
+    }
+    if (char === "'" || char === '"' || char === "`") {
+      const end = skipQuoted(sql, index);
+      current += sql.slice(index, end);
+      index = end;
+      continue;
+    }
+    if (char === "$") {
+      const tag = sql.slice(index).match(/^\$[A-Za-z_]*\$/);
+      if (tag) {
+        const end = sql.indexOf(tag[0], index + tag[0].length);
+        const stop = end < 0 ? sql.length : end + tag[0].length;
+        current += sql.slice(index, stop);
+        index = stop;
+        continue;
+      }
+    }
+    if (char === ";") {
+      statements.push(current.trim());
+      current = "";
+      index++;
+      continue;
+    }
+    current += char;
+    index++;
+  }
+
+  if (current.trim()) {
+    statements.push(current.trim());
+  }
+  return statements;
+}
+
+// The text between the `(` at `open` and its matching `)`
+function parenthesized(text: string, open: number): { inner: string, end: number } {
+  const masked = maskNested(text);
+  let depth = 0;
+  for (let index = open; index < masked.length; index++) {
+    if (masked[index] === "(") depth++;
+    if (masked[index] === ")") {
+      depth--;
+      if (depth === 0) {
+        return { inner: text.slice(open + 1, index), end: index + 1 };
+      }
+    }
+  }
+  return { inner: text.slice(open + 1), end: text.length };
+}
+
+function parseReferences(builder: ErdBuilder, tableName: string, sourceColumns: string[], text: string) {
+  const match = text.match(new RegExp(String.raw`^\s*(${QUALIFIED})\s*(?:\(([^)]*)\))?`));
+  if (!match) {
+    return;
+  }
+  builder.reference({
+    sourceTable: tableName,
+    sourceColumns,
+    targetTable: lastPart(match[1]),
+    targetColumns: match[2] ? columnList(match[2]) : undefined,
+  });
+}
+
+// PRIMARY KEY / FOREIGN KEY / UNIQUE clauses; returns false if `item` is not a table constraint
+function parseTableConstraint(builder: ErdBuilder, tableName: string, item: string): boolean {
+  const masked = maskNested(item);
+  const constraint = masked.match(new RegExp(String.raw`^(?:CONSTRAINT\s+${IDENTIFIER}\s+)?(PRIMARY\s+KEY|FOREIGN\s+KEY|UNIQUE(?:\s+(?:KEY|INDEX))?|CHECK|EXCLUDE|FULLTEXT|SPATIAL|LIKE)\b`, "i"))
+    || masked.match(new RegExp(String.raw`^(KEY|INDEX)\s+(?:${IDENTIFIER}\s*)?(?:USING\s+\w+\s*)?\(`, "i"));
+
+  if (!constraint) {
+    return false;
+  }
+
+  const kind = constraint[1].toUpperCase().replace(/\s+/g, " ");
+  const open = masked.indexOf("(");
+  const columns = open >= 0 ? columnList(parenthesized(item, open).inner) : [];
+
+  if (kind === "PRIMARY KEY") {
+    builder.primaryKey(tableName, columns);
+  } else if (kind.startsWith("UNIQUE") && columns.length === 1) {
+    builder.markUnique(tableName, columns[0]);
+  } else if (kind === "FOREIGN KEY" && open >= 0) {
+    const rest = item.slice(parenthesized(item, open).end);
+    const references = maskNested(rest).search(/\bREFERENCES\b/i);
+    if (references >= 0) {
+      parseReferences(builder, tableName, columns, rest.slice(references + "REFERENCES".length));
+    }
+  }
+  return true;
+}
+
+function parseColumn(builder: ErdBuilder, tableName: string, item: string) {
+  const nameMatch = item.match(new RegExp(String.raw`^(${IDENTIFIER})\s*`));
+  if (!nameMatch) {
+    return;
+  }
+
+  const name = unquoteIdentifier(nameMatch[1]);
+  const rest = item.slice(nameMatch[0].length);
+  const masked = maskNested(rest);
+  const typeEnd = masked.search(COLUMN_CONSTRAINT);
+  const type = (typeEnd >= 0 ? rest.slice(0, typeEnd) : rest).trim().replace(/\s+/g, " ");
+  const constraints = typeEnd >= 0 ? masked.slice(typeEnd) : "";
+  const offset = typeEnd >= 0 ? typeEnd : rest.length;
+
+  const column = builder.column(tableName, {
+    name,
+    type: type || "unknown",
+    required: /\bNOT\s+NULL\b/i.test(constraints),
+  });
+
+  const comment = constraints.search(/\bCOMMENT\b/i);
+  if (comment >= 0) {
+    column.description = readStringLiteral(rest, offset + comment);
+  }
+  if (/\bPRIMARY\s+KEY\b/i.test(constraints)) {
+    builder.primaryKey(tableName, [name]);
+  }
+  if (/\bUNIQUE\b/i.test(constraints)) {
+    builder.markUnique(tableName, name);
+  }
+
+  const references = constraints.search(/\bREFERENCES\b/i);
+  if (references >= 0) {
+    parseReferences(builder, tableName, [name], rest.slice(offset + references + "REFERENCES".length));
+  }
+}
+
+function parseCreateTable(builder: ErdBuilder, statement: string) {
+  const header = statement.match(new RegExp(String.raw`^CREATE\s+(?:OR\s+REPLACE\s+)?(?:(?:GLOBAL|LOCAL)\s+)?(?:TEMP(?:ORARY)?\s+|UNLOGGED\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(${QUALIFIED})\s*\(`, "i"));
+  if (!header) {
+    return;
+  }
+
+  const tableName = lastPart(header[1]);
+  const { inner, end } = parenthesized(statement, header[0].length - 1);
+  const table: ErdTable = builder.table(tableName);
+
+  for (const item of splitTopLevel(inner, ",")) {
+    if (!parseTableConstraint(builder, tableName, item)) {
+      parseColumn(builder, tableName, item);
+    }
+  }
+
+  // MySQL table options: ENGINE=InnoDB COMMENT='...'
+  const options = statement.slice(end);
+  const comment = maskNested(options).search(/\bCOMMENT\s*=?\s*'/i);
+  if (comment >= 0) {
+    table.description = readStringLiteral(options, comment);
+  }
+}
+
+function parseAlterTable(builder: ErdBuilder, statement: string) {
+  const header = statement.match(new RegExp(String.raw`^ALTER\s+TABLE\s+(?:IF\s+EXISTS\s+)?(?:ONLY\s+)?(${QUALIFIED})\s+`, "i"));
+  if (!header) {
+    return;
+  }
+
+  const tableName = lastPart(header[1]);
+  for (const clause of splitTopLevel(statement.slice(header[0].length), ",")) {
+    const add = clause.match(/^ADD\s+(COLUMN\s+(?:IF\s+NOT\s+EXISTS\s+)?)?/i);
+    if (!add) {
+      continue;
+    }
+    const item = clause.slice(add[0].length);
+    if (add[1] || !parseTableConstraint(builder, tableName, item)) {
+      parseColumn(builder, tableName, item);
+    }
+  }
+}
+
+// COMMENT ON TABLE t IS '...' / COMMENT ON COLUMN t.c IS '...'
+function parseComment(builder: ErdBuilder, statement: string) {
+  const match = statement.match(new RegExp(String.raw`^COMMENT\s+ON\s+(TABLE|COLUMN)\s+(${QUALIFIED})\s+IS\s+`, "i"));
+  if (!match) {
+    return;
+  }
+
+  const text = readStringLiteral(statement, match[0].length);
+  if (text === undefined) {
+    return;
+  }
+
+  const parts = qualifiedParts(match[2]);
+  if (match[1].toUpperCase() === "TABLE") {
+    builder.table(parts[parts.length - 1], text);
+  } else if (parts.length >= 2) {
+    const tableName = parts[parts.length - 2];
+    const columnName = parts[parts.length - 1];
+    const column = builder.table(tableName).columns.find(candidate => candidate.name.toLowerCase() === columnName.toLowerCase());
+    if (column) {
+      column.description = text;
+    }
+  }
+}
+
+export function looksLikeSqlDdl(content: string): boolean {
+  return /\bCREATE\s+(?:\w+\s+)*TABLE\b/i.test(content);
+}
+
+export function parseSqlDdl(sql: string): { tables: ErdTable[] } {
+  const builder = new ErdBuilder();
+
+  for (const statement of splitStatements(sql)) {
+    if (/^CREATE\s/i.test(statement)) {
+      parseCreateTable(builder, statement);
+    } else if (/^ALTER\s+TABLE\s/i.test(statement)) {
+      parseAlterTable(builder, statement);
+    } else if (/^COMMENT\s+ON\s/i.test(statement)) {
+      parseComment(builder, statement);
+    }
+  }
+
+  return builder.build();
+}
@@ -0,0 +1,57 @@
+// Database selection for mongodb_explorer. One connection string may serve several databases;
+// a backend's `mongodbDatabases` (or MONGODB_DATABASES) lists the ones that can be opened.
+// Without that list every database except the server's own admin/local/config is available.
+import { Db, MongoClient } from "mongodb";
+import { getMongoMaxTimeMs } from "./mongoSafety.js";
+
+export const SYSTEM_DATABASES = ["admin", "local", "config"];
+
+export interface DatabaseInfo {
+  name: string;
+  sizeOnDisk?: number;
+  empty?: boolean;
+  // The database of the connection string, used when no database is given
+  default: boolean;
+}
+
+export function isDatabaseExposed(name: string, allowlist?: string[]): boolean {
+  return allowlist ? allowlist.includes(name) : !SYSTEM_DATABASES.includes(name);
+}
+
+// The connection string's database is the default, or the first allowed one when it is not allowed
+export function defaultDatabaseName(client: MongoClient, allowlist?: string[]): string {
+  const name = client.db().databaseName;
+  return !allowlist || allowlist.length === 0 || allowlist.includes(name) ? name : allowlist[0];
+}
+
+export function selectDatabase(client: MongoClient, allowlist: string[] | undefined, name?: string): Db {
+  if (!name) {
+    return client.db(defaultDatabaseName(client, allowlist));
+  }
+  if (!isDatabaseExposed(name, allowlist)) {
+    throw new Error(allowlist
+      ? `Database '${name}' is not available. Available databases: ${allowlist.join(", ") || "(none)"}`
+      : `Database '${name}' is a system database and is not available`);
+  }
+  return client.db(name);
+}
+
+export async function listExposedDatabases(client: MongoClient, allowlist?: string[]): Promise<DatabaseInfo[]> {
+  const defaultName = defaultDatabaseName(client, allowlist);
+  // authorizedDatabases lets users without the listDatabases privilege see the databases they can read
+  const result = await client.db("admin").command({
+    listDatabases: 1,
+    nameOnly: false,
+    authorizedDatabases: true,
+    maxTimeMS: getMongoMaxTimeMs(),
+  });
+
+  return (result.databases as { name: string, sizeOnDisk?: number, empty?: boolean }[])
+    .filter(database => isDatabaseExposed(database.name, allowlist))
+    .map(database => ({
+      name: database.name,
+      sizeOnDisk: database.sizeOnDisk,
+      empty: database.empty,
+      default: database.name === defaultName,
+    }));
+}
@@ -0,0 +1,206 @@
+// Summaries of `explain("executionStats")` output for mongodb_explorer: the winning plan, the
+// indexes it uses, documents/keys examined against documents returned, and warnings for collection
+// scans and in-memory sorts, with an index suggestion following the equality-sort-range rule.
+import { Document } from "mongodb";
+
+// Examining more documents than this per returned document counts as a poorly selective plan
+const SELECTIVITY_WARNING_RATIO = 10;
+const SELECTIVITY_WARNING_MIN_EXAMINED = 100;
+
+const EQUALITY_OPERATORS = new Set(["$eq", "$in"]);
+
+export interface ExplainSummary {
+  winningPlan: string;
+  indexesUsed: string[];
+  collectionScan: boolean;
+  inMemorySort: boolean;
+  nReturned?: number;
+  totalDocsExamined?: number;
+  totalKeysExamined?: number;
+  executionTimeMillis?: number;
+  rejectedPlans: number;
+  // Aggregation stages after the query stage, e.g. ["$group", "$sort"]
+  pipelineStages?: string[];
+  warnings: string[];
+  suggestedIndex?: Document;
+}
+
+interface PlannerSection {
+  queryPlanner: Document;
+  executionStats?: Document;
+}
+
+function isPlainObject(value: unknown): value is Document {
+  return value !== null && typeof value === "object" && !Array.isArray(value) && !("_bsontype" in value) && !(value instanceof Date);
+}
+
+// find explains have queryPlanner at the top; aggregations nest it in a $cursor stage or per shard
+function findPlannerSections(explain: unknown, sections: PlannerSection[] = []): PlannerSection[] {
+  if (Array.isArray(explain)) {
+    explain.forEach(item => findPlannerSections(item, sections));
+  } else if (isPlainObject(explain)) {
+    if (isPlainObject(explain.queryPlanner)) {
+      sections.push({ queryPlanner: explain.queryPlanner, executionStats: explain.executionStats });
+      return sections;
+    }
+    Object.values(explain).forEach(value => findPlannerSections(value, sections));
+  }
+  return sections;
+}
+
+function planInputs(plan: Document): Document[] {
+  if (plan.inputStage) return [plan.inputStage];
+  if (Array.isArray(plan.inputStages)) return plan.inputStages;
+  return [];
+}
+
+// Slot-based engine plans keep the classic stage tree under `queryPlan`
+function unwrapPlan(plan: Document): Document {
+  return plan.queryPlan || plan;
+}
+
+function walkPlan(plan: Document | undefined, visit: (stage: Document) => void) {
+  if (!plan) {
+    return;
+  }
+  const node = unwrapPlan(plan);
+  if (Array.isArray(node.shards)) {
+    node.shards.forEach((shard: Document) => walkPlan(shard.winningPlan, visit));
+    return;
+  }
+  visit(node);
+  planInputs(node).forEach(input => walkPlan(input, visit));
+}
+
+export function describePlan(plan: Document): string {
+  const node = unwrapPlan(plan);
+  if (Array.isArray(node.shards)) {
+    return node.shards.map((shard: Document) => `${shard.shardName}: ${describePlan(shard.winningPlan)}`).join("; ");
+  }
+
+  const label = node.indexName ? `${node.stage} (${node.indexName})` : node.stage;
+  const inputs = planInputs(node);
+  if (inputs.length === 0) {
+    return label;
+  }
+  if (inputs.length === 1) {
+    return `${label} → ${describePlan(inputs[0])}`;
+  }
+  return `${label} → [${inputs.map(describePlan).join(" | ")}]`;
+}
+
+function isOperatorObject(value: unknown): value is Document {
+  return isPlainObject(value) && Object.keys(value).length > 0 && Object.keys(value).every(key => key.startsWith("$"));
+}
+
+function isRegex(value: unknown): boolean {
+  return value instanceof RegExp || (value !== null && typeof value === "object" && (value as Document)._bsontype === "BSONRegExp");
+}
+
+function filterConditions(filter: Document | undefined): [string, unknown][] {
+  if (!isPlainObject(filter)) {
+    return [];
+  }
+  return Object.entries(filter).flatMap(([field, condition]) =>
+    field === "$and" && Array.isArray(condition)
+      ? condition.flatMap(item => filterConditions(item))
+      : [[field, condition] as [string, unknown]]);
+}
+
+// Equality fields first, then the sort, then range fields. $or, $expr and $text are left out.
+export function suggestIndex(filter: Document | undefined, sort: Document | undefined): Document | undefined {
+  const equality: string[] = [];
+  const range: string[] = [];
+
+  for (const [field, condition] of filterConditions(filter)) {
+    if (field.startsWith("$")) {
+      continue;
+    }
+    if (isOperatorObject(condition)) {
+      (Object.keys(condition).every(operator => EQUALITY_OPERATORS.has(operator)) ? equality : range).push(field);
+    } else {
+      (isRegex(condition) ? range : equality).push(field);
+    }
+  }
+
+  const key: Document = {};
+  equality.forEach(field => { key[field] = 1; });
+  Object.entries(sort || {}).forEach(([field, direction]) => {
+    if (!(field in key)) key[field] = direction;
+  });
+  range.forEach(field => {
+    if (!(field in key)) key[field] = 1;
+  });
+
+  return Object.keys(key).length > 0 ? key : undefined;
+}
+
+// The filter and sort of the $match/$sort stages a pipeline starts with, which can use an index
+export function leadingMatchAndSort(pipeline: Document[]): { filter?: Document, sort?: Document } {
+  const filters: Document[] = [];
+  let sort: Document | undefined;
+
+  for (const stage of pipeline) {
+    if (stage.$match && !sort) {
+      filters.push(stage.$match);
+    } else if (stage.$sort && !sort) {
+      sort = stage.$sort;
+    } else {
+      break;
+    }
+  }
+
+  return { filter: filters.length > 1 ? { $and: filters } : filters[0], sort };
+}
+
+function sumStat(sections: PlannerSection[], name: string): number | undefined {
+  const values = sections.map(section => section.executionStats?.[name]).filter((value): value is number => typeof value === "number");
+  return values.length > 0 ? values.reduce((total, value) => total + value, 0) : undefined;
+}
+
+export function summarizeExplain(explain: Document, filter?: Document, sort?: Document): ExplainSummary {
+  const sections = findPlannerSections(explain);
+  const stages: Document[] = [];
+  sections.forEach(section => walkPlan(section.queryPlanner.winningPlan, stage => stages.push(stage)));
+
+  const indexesUsed = Array.from(new Set(stages.map(stage => stage.indexName).filter(Boolean)));
+  const collectionScan = stages.some(stage => stage.stage === "COLLSCAN");
+  const inMemorySort = stages.some(stage => stage.stage === "SORT");
+  const nReturned = sumStat(sections, "nReturned");
+  const totalDocsExamined = sumStat(sections, "totalDocsExamined");
+  const totalKeysExamined = sumStat(sections, "totalKeysExamined");
+  // The slowest section bounds the wall time when shards run in parallel
+  const times = sections.map(section => section.executionStats?.executionTimeMillis).filter((value): value is number => typeof value === "number");
+
+  const warnings: string[] = [];
+  if (collectionScan) {
+    warnings.push("Collection scan (COLLSCAN): every document in the collection is read.");
+  }
+  if (inMemorySort) {
+    warnings.push("In-memory sort (SORT): results are sorted after reading them instead of in index order.");
+  }
+  if (totalDocsExamined !== undefined && totalDocsExamined >= SELECTIVITY_WARNING_MIN_EXAMINED
+    && totalDocsExamined > SELECTIVITY_WARNING_RATIO * Math.max(nReturned || 0, 1)) {
+    warnings.push(`Examined ${totalDocsExamined} documents to return ${nReturned ?? 0}: the plan is not selective for this filter.`);
+  }
+
+  const suggestedIndex = warnings.length > 0 ? suggestIndex(filter, sort) : undefined;
+  const pipelineStages = Array.isArray(explain.stages)
+    ? explain.stages.map((stage: Document) => Object.keys(stage)[0]).filter((name: string) => name !== "$cursor")
+    : undefined;
+
+  return {
+    winningPlan: sections.map(section => describePlan(section.queryPlanner.winningPlan)).join("; ") || "unknown",
+    indexesUsed,
+    collectionScan,
+    inMemorySort,
+    nReturned,
+    totalDocsExamined,
+    totalKeysExamined,
+    executionTimeMillis: times.length > 0 ? Math.max(...times) : undefined,
+    rejectedPlans: sections.reduce((total, section) => total + (section.queryPlanner.rejectedPlans?.length || 0), 0),
+    pipelineStages,
+    warnings,
+    suggestedIndex,
+  };
+}
@@ -0,0 +1,158 @@
+// Value distribution of one field for mongodb_explorer's fieldStats action, computed in a single
+// $facet aggregation: missing/null counts, BSON types, the most common values, min/max/avg of
+// numbers and dates, string lengths and a histogram. Array values are counted per element.
+import { Document } from "mongodb";
+
+// Collections larger than this are analysed on a random sample of this size
+export const FIELD_STATS_MAX_DOCUMENTS = 100000;
+const HISTOGRAM_BUCKETS = 10;
+
+export interface ValueCount {
+  value: unknown;
+  count: number;
+  // Share of the non-null values, 0-100
+  percentage: number;
+}
+
+export interface RangeStats<T> {
+  count: number;
+  min: T;
+  max: T;
+  avg: T;
+}
+
+export interface HistogramBucket {
+  min: unknown;
+  max: unknown;
+  count: number;
+}
+
+export interface FieldStats {
+  field: string;
+  // Documents analysed; fewer than in the collection when sampled
+  documents: number;
+  sampled: boolean;
+  missing: number;
+  nulls: number;
+  // Shares of the analysed documents, 0-1
+  missingRatio: number;
+  nullRatio: number;
+  // Non-null values, one per array element
+  values: number;
+  distinct: number;
+  types: { type: string, count: number }[];
+  topValues: ValueCount[];
+  // Values not among topValues
+  otherValues: number;
+  number?: RangeStats<number>;
+  date?: RangeStats<Date>;
+  stringLength?: RangeStats<number>;
+  histogram?: { type: "number" | "date", buckets: HistogramBucket[] };
+}
+
+// Plain paths only: a leading `$` would turn the path into an expression
+export function assertFieldPath(field: string) {
+  if (!field || field.split(".").some(segment => segment === "" || segment.startsWith("$"))) {
+    throw new Error(`Invalid field path '${field}'. Use dotted field names such as 'status' or 'items.price'.`);
+  }
+}
+
+function rangeFacet(type: string, value: Document | string = "$value"): Document[] {
+  return [
+    { $unwind: "$value" },
+    { $match: { value: { $type: type } } },
+    { $group: { _id: null, count: { $sum: 1 }, min: { $min: value }, max: { $max: value }, avg: { $avg: type === "date" ? { $toLong: "$value" } : value } } },
+  ];
+}
+
+function histogramFacet(type: string): Document[] {
+  return [
+    { $unwind: "$value" },
+    { $match: { value: { $type: type } } },
+    { $bucketAuto: { groupBy: "$value", buckets: HISTOGRAM_BUCKETS } },
+  ];
+}
+
+export function fieldStatsPipeline(field: string, filter: Document | undefined, topN: number, sampleSize?: number): Document[] {
+  return [
+    ...(filter && Object.keys(filter).length > 0 ? [{ $match: filter }] : []),
+    ...(sampleSize ? [{ $sample: { size: sampleSize } }] : []),
+    { $project: { _id: 0, value: `$${field}` } },
+    {
+      $facet: {
+        presence: [{
+          $group: {
+            _id: null,
+            documents: { $sum: 1 },
+            missing: { $sum: { $cond: [{ $eq: [{ $type: "$value" }, "missing"] }, 1, 0] } },
+            nulls: { $sum: { $cond: [{ $eq: [{ $type: "$value" }, "null"] }, 1, 0] } },
+          },
+        }],
+        // $unwind leaves out null, missing and empty arrays
+        types: [{ $unwind: "$value" }, { $group: { _id: { $type: "$value" }, count: { $sum: 1 } } }, { $sort: { count: -1 } }],
+        distinct: [{ $unwind: "$value" }, { $group: { _id: "$value" } }, { $count: "count" }],
+        topValues: [{ $unwind: "$value" }, { $group: { _id: "$value", count: { $sum: 1 } } }, { $sort: { count: -1, _id: 1 } }, { $limit: topN }],
+        number: rangeFacet("number"),
+        date: rangeFacet("date"),
+        stringLength: rangeFacet("string", { $strLenCP: "$value" }),
+        numberHistogram: histogramFacet("number"),
+        dateHistogram: histogramFacet("date"),
+      },
+    },
+  ];
+}
+
+function toRange<T>(facet: Document[] | undefined, convert: (value: any) => T = value => value): RangeStats<T> | undefined {
+  const [range] = facet || [];
+  return range ? { count: range.count, min: range.min, max: range.max, avg: convert(range.avg) } : undefined;
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === "number" ? value : Number(String(value));
+}
+
+function round(value: number, digits = 3): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function summarizeFieldStats(field: string, facets: Document, sampled: boolean): FieldStats {
+  const presence = facets.presence?.[0] || { documents: 0, missing: 0, nulls: 0 };
+  const types = (facets.types || []).map((entry: Document) => ({ type: entry._id, count: entry.count }));
+  const values = types.reduce((total: number, entry: { count: number }) => total + entry.count, 0);
+  const topValues: ValueCount[] = (facets.topValues || []).map((entry: Document) => ({
+    value: entry._id,
+    count: entry.count,
+    percentage: values > 0 ? round((entry.count / values) * 100, 1) : 0,
+  }));
+
+  const number = toRange<number>(facets.number, value => round(toNumber(value)));
+  const date = toRange<Date>(facets.date, value => new Date(toNumber(value)));
+  const stringLength = toRange<number>(facets.stringLength, value => round(value, 1));
+
+  // The histogram follows whichever of numbers and dates the field mostly holds
+  const histogramType = (number?.count || 0) >= (date?.count || 0) ? "number" : "date";
+  const buckets: Document[] = (number || date ? facets[`${histogramType}Histogram`] || [] : [])
+    .filter((bucket: Document) => bucket.count > 0);
+
+  return {
+    field,
+    documents: presence.documents,
+    sampled,
+    missing: presence.missing,
+    nulls: presence.nulls,
+    missingRatio: presence.documents > 0 ? round(presence.missing / presence.documents) : 0,
+    nullRatio: presence.documents > 0 ? round(presence.nulls / presence.documents) : 0,
+    values,
+    distinct: facets.distinct?.[0]?.count || 0,
+    types,
+    topValues,
+    otherValues: values - topValues.reduce((total, entry) => total + entry.count, 0),
+    number,
+    date,
+    stringLength,
+    histogram: buckets.length > 0
+      ? { type: histogramType, buckets: buckets.map(bucket => ({ min: bucket._id.min, max: bucket._id.max, count: bucket.count })) }
+      : undefined,
+  };
+}
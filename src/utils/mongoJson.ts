@@ -0,0 +1,240 @@
+// Extended JSON (EJSON) for mongodb_explorer input and output. Besides canonical/relaxed EJSON
+// (`{"$oid": ...}`, `{"$date": ...}`), input may use mongo shell syntax: `ObjectId("...")`,
+// `ISODate("...")`, `NumberDecimal("...")`, `/regex/i`, single-quoted strings and unquoted keys.
+import { BSON } from "mongodb";
+
+export type EjsonMode = "relaxed" | "canonical";
+
+const SHELL_CONSTRUCTORS: Record<string, (args: unknown[]) => unknown> = {
+  ObjectId: ([hex]) => ({ $oid: String(hex) }),
+  ISODate: args => shellDate(args),
+  Date: args => shellDate(args),
+  NumberDecimal: ([value]) => ({ $numberDecimal: String(value) }),
+  Decimal128: ([value]) => ({ $numberDecimal: String(value) }),
+  NumberLong: ([value]) => ({ $numberLong: String(value) }),
+  Long: ([value]) => ({ $numberLong: String(value) }),
+  NumberInt: ([value]) => ({ $numberInt: String(value) }),
+  Int32: ([value]) => ({ $numberInt: String(value) }),
+  UUID: ([value]) => ({ $uuid: String(value) }),
+  Timestamp: ([t, i]) => ({ $timestamp: { t: Number(t), i: Number(i) } }),
+  BinData: ([subType, base64]) => ({ $binary: { base64: String(base64), subType: Number(subType).toString(16).padStart(2, "0") } }),
+};
+
+function shellDate(args: unknown[]): unknown {
+  if (args.length === 0) {
+    return { $date: new Date().toISOString() };
+  }
+  const [value] = args;
+  if (typeof value === "number") {
+    return { $date: { $numberLong: String(value) } };
+  }
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date '${value}'`);
+  }
+  return { $date: date.toISOString() };
+}
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f", v: "\v", "0": "\0" };
+
+// Reads a single- or double-quoted string starting at `start`; returns its value and the index after it
+function readString(text: string, start: number): [string, number] {
+  const quote = text[start];
+  let value = "";
+  let i = start + 1;
+
+  while (i < text.length && text[i] !== quote) {
+    if (text[i] === "\\") {
+      const next = text[i + 1];
+      if (next === "u") {
+        value += String.fromCharCode(parseInt(text.slice(i + 2, i + 6), 16));
+        i += 6;
+        continue;
+      }
+      value += ESCAPES[next] ?? next;
+      i += 2;
+      continue;
+    }
+    value += text[i++];
+  }
+
+  if (i >= text.length) {
+    throw new Error(`Unterminated string starting at position ${start}`);
+  }
+  return [value, i + 1];
+}
+
+// Reads a /pattern/flags literal; `[...]` classes may contain unescaped slashes
+function readRegex(text: string, start: number): [{ pattern: string, options: string }, number] {
+  let i = start + 1;
+  let inClass = false;
+
+  while (i < text.length && (text[i] !== "/" || inClass)) {
+    if (text[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (text[i] === "[") inClass = true;
+    if (text[i] === "]") inClass = false;
+    i++;
+  }
+
+  if (i >= text.length) {
+    throw new Error(`Unterminated regular expression starting at position ${start}`);
+  }
+  const pattern = text.slice(start + 1, i);
+  const flags = /^[a-z]*/i.exec(text.slice(i + 1))![0];
+  return [{ pattern, options: flags.split("").sort().join("") }, i + 1 + flags.length];
+}
+
+function skipWhitespace(text: string, start: number): number {
+  let i = start;
+  while (i < text.length && /\s/.test(text[i])) i++;
+  return i;
+}
+
+function readArguments(text: string, start: number, name: string): [unknown[], number] {
+  const args: unknown[] = [];
+  let i = skipWhitespace(text, start + 1);
+
+  while (i < text.length && text[i] !== ")") {
+    if (text[i] === '"' || text[i] === "'") {
+      const [value, end] = readString(text, i);
+      args.push(value);
+      i = end;
+    } else {
+      const match = /^[-+]?[\d.]+(e[-+]?\d+)?/i.exec(text.slice(i));
+      if (!match) {
+        throw new Error(`Unsupported argument for ${name}() at position ${i}`);
+      }
+      args.push(Number(match[0]));
+      i += match[0].length;
+    }
+    i = skipWhitespace(text, i);
+    if (text[i] === ",") {
+      i = skipWhitespace(text, i + 1);
+    }
+  }
+
+  if (i >= text.length) {
+    throw new Error(`Missing ')' after ${name}(`);
+  }
+  return [args, i + 1];
+}
+
+// A regex literal can only start where a value is expected
+function expectsValue(output: string): boolean {
+  const last = output.trimEnd().slice(-1);
+  return last === "" || last === ":" || last === "," || last === "[" || last === "(";
+}
+
+export function shellToExtendedJson(text: string): string {
+  let output = "";
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"' || char === "'") {
+      const [value, end] = readString(text, i);
+      output += JSON.stringify(value);
+      i = end;
+      continue;
+    }
+
+    if (char === "/" && expectsValue(output)) {
+      const [regex, end] = readRegex(text, i);
+      output += JSON.stringify({ $regularExpression: regex });
+      i = end;
+      continue;
+    }
+
+    // Numbers are copied as they are, so exponents are not read as identifiers
+    const number = /^-?\d[\d.]*(e[-+]?\d+)?/i.exec(text.slice(i));
+    if (number) {
+      output += number[0];
+      i += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_$][\w$.]*/.exec(text.slice(i));
+    if (identifier) {
+      let name = identifier[0];
+      let end = i + name.length;
+
+      if (name === "new") {
+        const constructor = /^\s+([A-Za-z_$][\w$]*)/.exec(text.slice(end));
+        if (constructor) {
+          name = constructor[1];
+          end += constructor[0].length;
+        }
+      }
+
+      const next = skipWhitespace(text, end);
+      if (text[next] === "(" && SHELL_CONSTRUCTORS[name]) {
+        const [args, after] = readArguments(text, next, name);
+        output += JSON.stringify(SHELL_CONSTRUCTORS[name](args));
+        i = after;
+      } else if (text[next] === ":") {
+        output += JSON.stringify(name);
+        i = end;
+      } else if (name === "true" || name === "false" || name === "null") {
+        output += name;
+        i = end;
+      } else {
+        throw new Error(`Unexpected '${name}' at position ${i}`);
+      }
+      continue;
+    }
+
+    output += char;
+    i++;
+  }
+
+  return output;
+}
+
+// Int32 and Double values and Longs that fit a JS number become plain numbers again, as relaxed
+// parsing would give; larger Longs stay Longs so they keep their precision
+function promoteNumbers(value: unknown): unknown {
+  if (value instanceof BSON.Int32 || value instanceof BSON.Double) {
+    return value.valueOf();
+  }
+  if (value instanceof BSON.Long) {
+    const number = value.toNumber();
+    return Number.isSafeInteger(number) ? number : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(promoteNumbers);
+  }
+  if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    const promoted: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      promoted[key] = promoteNumbers(child);
+    }
+    return promoted;
+  }
+  return value;
+}
+
+// Relaxed EJSON parsing turns every $numberLong into a JS number, so 9007199254740993 would come
+// back as ...992; this parses canonically and only promotes the numbers that fit
+export function parseExtendedJson(json: string): any {
+  return promoteNumbers(BSON.EJSON.parse(json, { relaxed: false }));
+}
+
+// Parses canonical/relaxed EJSON, falling back to the shell syntax for anything plain JSON rejects
+export function parseMongoJson(text: string): any {
+  let json = text;
+  try {
+    JSON.parse(text);
+  } catch {
+    json = shellToExtendedJson(text);
+  }
+  return parseExtendedJson(json);
+}
+
+// `space` 0 gives compact output
+export function stringifyMongoJson(value: unknown, mode: EjsonMode = "relaxed", space = 2): string {
+  return BSON.EJSON.stringify(value, undefined, space, { relaxed: mode === "relaxed" });
+}
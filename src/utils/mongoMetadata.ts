@@ -0,0 +1,114 @@
+// Collection metadata for mongodb_explorer: indexes (keys, uniqueness, partial filters, TTLs), the
+// validator, creation options (capped, time series, clustered, views) and the shard key.
+import { Db, Document, MongoClient } from "mongodb";
+import { stringifyMongoJson } from "./mongoJson.js";
+import { getMongoMaxTimeMs } from "./mongoSafety.js";
+
+export interface IndexInfo {
+  name: string;
+  key: Document;
+  unique: boolean;
+  sparse: boolean;
+  hidden: boolean;
+  partialFilterExpression?: Document;
+  expireAfterSeconds?: number;
+  collation?: Document;
+  // Text indexes
+  weights?: Document;
+  sizeBytes?: number;
+}
+
+export interface CollectionMetadata {
+  name: string;
+  type: string;
+  indexes: IndexInfo[];
+  validator?: Document;
+  validationLevel?: string;
+  validationAction?: string;
+  options: Document;
+  shardKey?: { key: Document, unique: boolean };
+}
+
+// Shown under options; the validator and its settings are reported separately
+const VALIDATION_OPTIONS = ["validator", "validationLevel", "validationAction"];
+
+async function loadShardKey(client: MongoClient, db: Db, collection: string): Promise<CollectionMetadata["shardKey"]> {
+  // Only mongos has sharding metadata, and reading it needs access to the config database
+  try {
+    const entry = await client
+      .db("config")
+      .collection("collections")
+      .findOne({ _id: `${db.databaseName}.${collection}` as any }, { maxTimeMS: getMongoMaxTimeMs() });
+    return entry?.key && !entry.dropped ? { key: entry.key, unique: !!entry.unique } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function loadIndexSizes(db: Db, collection: string): Promise<Record<string, number>> {
+  try {
+    const stats = await db.command({ collStats: collection, maxTimeMS: getMongoMaxTimeMs() });
+    return stats.indexSizes || {};
+  } catch {
+    return {};
+  }
+}
+
+// Null when the collection does not exist
+export async function loadCollectionMetadata(client: MongoClient, db: Db, collection: string): Promise<CollectionMetadata | null> {
+  const [info] = await db.listCollections({ name: collection }, { nameOnly: false, maxTimeMS: getMongoMaxTimeMs() }).toArray();
+  if (!info) {
+    return null;
+  }
+
+  const type = info.type || "collection";
+  const options: Document = { ...(info.options || {}) };
+  VALIDATION_OPTIONS.forEach(option => delete options[option]);
+
+  // Views have no indexes of their own
+  let indexes: IndexInfo[] = [];
+  if (type !== "view") {
+    const [rawIndexes, sizes] = await Promise.all([
+      db.collection(collection).listIndexes({ maxTimeMS: getMongoMaxTimeMs() }).toArray(),
+      loadIndexSizes(db, collection),
+    ]);
+    indexes = rawIndexes.map(index => ({
+      name: index.name,
+      key: index.key,
+      unique: !!index.unique,
+      sparse: !!index.sparse,
+      hidden: !!index.hidden,
+      partialFilterExpression: index.partialFilterExpression,
+      expireAfterSeconds: index.expireAfterSeconds,
+      collation: index.collation,
+      weights: index.weights,
+      sizeBytes: sizes[index.name],
+    }));
+  }
+
+  return {
+    name: collection,
+    type,
+    indexes,
+    validator: info.options?.validator,
+    validationLevel: info.options?.validationLevel,
+    validationAction: info.options?.validationAction,
+    options,
+    shardKey: await loadShardKey(client, db, collection),
+  };
+}
+
+export function formatIndexKey(key: Document): string {
+  return Object.entries(key).map(([field, direction]) => `${field}: ${direction}`).join(", ");
+}
+
+export function indexProperties(index: IndexInfo): string[] {
+  return [
+    index.unique ? "unique" : "",
+    index.sparse ? "sparse" : "",
+    index.hidden ? "hidden" : "",
+    index.expireAfterSeconds !== undefined ? `TTL ${index.expireAfterSeconds}s` : "",
+    index.partialFilterExpression ? `partial: ${stringifyMongoJson(index.partialFilterExpression, "relaxed", 0)}` : "",
+    index.collation ? `collation: ${index.collation.locale}` : "",
+  ].filter(Boolean);
+}
@@ -0,0 +1,266 @@
+// Generates a JSON Schema, TypeScript interface or Zod schema for a MongoDB collection from the
+// fields inferred by mongoSchema. A field is optional when some sampled parent objects lack it,
+// nullable when null was seen, and a union when it holds several types. Values are typed as they
+// look once the documents are serialized to JSON: ObjectIds and dates become strings, and
+// Decimal128 values `{ "$numberDecimal": "..." }` objects.
+import { Document } from "mongodb";
+import { InferredField } from "./mongoSchema.js";
+import { docComment, propertyKey, toTypeName } from "./typescriptGenerator.js";
+
+export type ModelFormat = "jsonSchema" | "typescript" | "zod";
+
+export const MODEL_FORMATS: ModelFormat[] = ["jsonSchema", "typescript", "zod"];
+
+interface TypeMapping {
+  typescript: string;
+  zod: string;
+  jsonSchema: Document;
+}
+
+const TYPE_MAPPINGS: Record<string, TypeMapping> = {
+  string: { typescript: "string", zod: "z.string()", jsonSchema: { type: "string" } },
+  int: { typescript: "number", zod: "z.number().int()", jsonSchema: { type: "integer" } },
+  long: { typescript: "number", zod: "z.number().int()", jsonSchema: { type: "integer" } },
+  double: { typescript: "number", zod: "z.number()", jsonSchema: { type: "number" } },
+  decimal: {
+    typescript: "{ $numberDecimal: string }",
+    zod: "z.object({ $numberDecimal: z.string() })",
+    jsonSchema: { type: "object", properties: { $numberDecimal: { type: "string" } }, required: ["$numberDecimal"] },
+  },
+  bool: { typescript: "boolean", zod: "z.boolean()", jsonSchema: { type: "boolean" } },
+  date: { typescript: "string", zod: "z.string().datetime()", jsonSchema: { type: "string", format: "date-time" } },
+  objectId: { typescript: "string", zod: "z.string().regex(/^[0-9a-f]{24}$/i)", jsonSchema: { type: "string", pattern: "^[0-9a-fA-F]{24}$" } },
+  uuid: { typescript: "string", zod: "z.string().uuid()", jsonSchema: { type: "string", format: "uuid" } },
+  binData: { typescript: "string", zod: "z.string()", jsonSchema: { type: "string", contentEncoding: "base64" } },
+};
+
+const SERIALIZATION_NOTE = "Types describe the documents serialized to JSON: ObjectIds and dates are strings, Decimal128 values { $numberDecimal } objects.";
+
+const UNKNOWN: TypeMapping = { typescript: "unknown", zod: "z.unknown()", jsonSchema: {} };
+
+// BSON types whose JSON form differs from what the TypeScript type suggests
+const SERIALIZED_TYPES = new Set(["objectId", "date", "decimal", "uuid", "binData", "long"]);
+
+interface ModelNode {
+  field?: InferredField;
+  properties: Map<string, ModelNode>;
+  // Array elements
+  items?: ModelNode;
+}
+
+interface PropertyInfo {
+  name: string;
+  node: ModelNode;
+  required: boolean;
+  // Share of the parent objects containing the property, 0-1
+  presence: number;
+  // What the parents are, for comments: sampled documents at the top level, objects below
+  parents: string;
+}
+
+function newNode(): ModelNode {
+  return { properties: new Map() };
+}
+
+// `items[].price` becomes items → (elements) → price
+function buildTree(fields: InferredField[]): ModelNode {
+  const root = newNode();
+
+  for (const field of fields) {
+    let node = root;
+    for (const segment of field.name.split(".")) {
+      const [, key, brackets] = /^(.*?)((?:\[\])*)$/.exec(segment)!;
+      if (!node.properties.has(key)) {
+        node.properties.set(key, newNode());
+      }
+      node = node.properties.get(key)!;
+      for (let depth = 0; depth < brackets.length / 2; depth++) {
+        node = node.items ||= newNode();
+      }
+    }
+    node.field = field;
+  }
+
+  return root;
+}
+
+function typeCount(node: ModelNode, type: string): number {
+  return node.field?.types.find(entry => entry.type === type)?.count || 0;
+}
+
+// Presence is measured against the objects the property could appear in, not the whole sample
+function properties(node: ModelNode, parentCount: number, parents = "sampled objects"): PropertyInfo[] {
+  return Array.from(node.properties.entries()).map(([name, child]) => {
+    const count = child.field?.count || 0;
+    return {
+      name,
+      node: child,
+      required: parentCount > 0 && count >= parentCount,
+      presence: parentCount > 0 ? Math.min(count / parentCount, 1) : 0,
+      parents,
+    };
+  });
+}
+
+// Type names without null; double absorbs int and long so a number field is not split in two
+function valueTypes(node: ModelNode): string[] {
+  const types = (node.field?.types || []).map(entry => entry.type).filter(type => type !== "null");
+  return types.includes("double") ? types.filter(type => type !== "int" && type !== "long") : types;
+}
+
+function isNullable(node: ModelNode): boolean {
+  return typeCount(node, "null") > 0;
+}
+
+function fieldComment(property: PropertyInfo): string | undefined {
+  const notes: string[] = [];
+  const serialized = valueTypes(property.node).filter(type => SERIALIZED_TYPES.has(type));
+  if (serialized.length > 0) {
+    notes.push(`BSON ${serialized.join(" / ")}`);
+  }
+  if (!property.required) {
+    notes.push(`present in ${Math.round(property.presence * 100)}% of ${property.parents}`);
+  }
+  return notes.length > 0 ? notes.join("; ") : undefined;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+// JSON Schema
+
+function jsonSchemaFor(node: ModelNode): Document {
+  const schemas = valueTypes(node).map(type => {
+    if (type === "object") {
+      return jsonSchemaObject(node, typeCount(node, "object"));
+    }
+    if (type === "array") {
+      return { type: "array", items: node.items ? jsonSchemaFor(node.items) : {} };
+    }
+    return (TYPE_MAPPINGS[type] || UNKNOWN).jsonSchema;
+  });
+  if (isNullable(node)) {
+    schemas.push({ type: "null" });
+  }
+
+  const distinct = unique(schemas.map(schema => JSON.stringify(schema))).map(text => JSON.parse(text));
+  if (distinct.length === 0) {
+    return {};
+  }
+  if (distinct.length === 1) {
+    return distinct[0];
+  }
+  // Plain types combine into a type list; anything with constraints needs anyOf
+  if (distinct.every(schema => Object.keys(schema).length === 1 && typeof schema.type === "string")) {
+    return { type: unique(distinct.map(schema => schema.type)) };
+  }
+  return { anyOf: distinct };
+}
+
+function jsonSchemaObject(node: ModelNode, objectCount: number): Document {
+  const props = properties(node, objectCount);
+  const schema: Document = {
+    type: "object",
+    properties: Object.fromEntries(props.map(property => [property.name, jsonSchemaFor(property.node)])),
+  };
+  const required = props.filter(property => property.required).map(property => property.name);
+  if (required.length > 0) {
+    schema.required = required;
+  }
+  return schema;
+}
+
+// TypeScript
+
+function typeScriptFor(node: ModelNode, indent: string): string {
+  const types = unique(valueTypes(node).map(type => {
+    if (type === "object") {
+      return node.properties.size > 0 ? typeScriptObject(node, typeCount(node, "object"), indent) : "Record<string, unknown>";
+    }
+    if (type === "array") {
+      const itemType = node.items ? typeScriptFor(node.items, indent) : "unknown";
+      return /[|&]/.test(itemType) ? `Array<${itemType}>` : `${itemType}[]`;
+    }
+    return (TYPE_MAPPINGS[type] || UNKNOWN).typescript;
+  }));
+  if (isNullable(node)) {
+    types.push("null");
+  }
+  return types.join(" | ") || "unknown";
+}
+
+function typeScriptObject(node: ModelNode, objectCount: number, indent: string, parents?: string): string {
+  const innerIndent = `${indent}  `;
+  let body = "{\n";
+  for (const property of properties(node, objectCount, parents)) {
+    body += docComment(fieldComment(property), innerIndent);
+    body += `${innerIndent}${propertyKey(property.name)}${property.required ? "" : "?"}: ${typeScriptFor(property.node, innerIndent)};\n`;
+  }
+  return `${body}${indent}}`;
+}
+
+// Zod
+
+function zodFor(node: ModelNode, indent: string): string {
+  const schemas = unique(valueTypes(node).map(type => {
+    if (type === "object") {
+      return node.properties.size > 0 ? zodObject(node, typeCount(node, "object"), indent) : "z.record(z.unknown())";
+    }
+    if (type === "array") {
+      return `z.array(${node.items ? zodFor(node.items, indent) : "z.unknown()"})`;
+    }
+    return (TYPE_MAPPINGS[type] || UNKNOWN).zod;
+  }));
+
+  let schema = schemas.length === 0 ? "z.unknown()" : schemas.length === 1 ? schemas[0] : `z.union([${schemas.join(", ")}])`;
+  if (isNullable(node) && schemas.length > 0) {
+    schema += ".nullable()";
+  } else if (isNullable(node)) {
+    schema = "z.null()";
+  }
+  return schema;
+}
+
+function zodObject(node: ModelNode, objectCount: number, indent: string, parents?: string): string {
+  const innerIndent = `${indent}  `;
+  let body = "z.object({\n";
+  for (const property of properties(node, objectCount, parents)) {
+    body += docComment(fieldComment(property), innerIndent);
+    body += `${innerIndent}${propertyKey(property.name)}: ${zodFor(property.node, innerIndent)}${property.required ? "" : ".optional()"},\n`;
+  }
+  return `${body}${indent}})`;
+}
+
+// `orders` → `Order`
+export function modelName(collection: string): string {
+  const name = toTypeName(collection);
+  if (/ies$/.test(name)) return name.replace(/ies$/, "y");
+  if (/[^s]s$/.test(name)) return name.slice(0, -1);
+  return name;
+}
+
+export function generateModel(format: ModelFormat, collection: string, fields: InferredField[], sampleSize: number): string {
+  const root = buildTree(fields);
+  const name = modelName(collection);
+  const description = `Inferred from a random sample of ${sampleSize} documents in '${collection}'.`;
+
+  switch (format) {
+    case "jsonSchema":
+      return JSON.stringify({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        title: name,
+        description: `${description} ${SERIALIZATION_NOTE}`,
+        ...jsonSchemaObject(root, sampleSize),
+      }, null, 2);
+    case "typescript":
+      return `// ${description}\n// ${SERIALIZATION_NOTE}\n\nexport interface ${name} ${typeScriptObject(root, sampleSize, "", "sampled documents")}\n`;
+    case "zod": {
+      const schemaName = `${name[0].toLowerCase()}${name.slice(1)}Schema`;
+      return `// ${description}\n// ${SERIALIZATION_NOTE}\n`
+        + `import { z } from "zod";\n\n`
+        + `export const ${schemaName} = ${zodObject(root, sampleSize, "", "sampled documents")};\n\n`
+        + `export type ${name} = z.infer<typeof ${schemaName}>;\n`;
+    }
+  }
+}
@@ -0,0 +1,215 @@
+// Paging for mongodb_explorer queries: keyset continuation cursors over the sort key (with `_id` as
+// tie-breaker) and truncation of large values so one page stays within a character budget.
+// Cursors are encrypted with a per-process key, so they are opaque and do not leak sort values.
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { BSON, Document } from "mongodb";
+import { parseExtendedJson } from "./mongoJson.js";
+
+const DEFAULT_PAGE_CHAR_BUDGET = 40000;
+// Tried in order until the page fits
+const TRUNCATION_LEVELS = [
+  { maxString: 1000, maxArray: 50 },
+  { maxString: 300, maxArray: 20 },
+  { maxString: 100, maxArray: 5 },
+];
+
+const CURSOR_KEY = randomBytes(32);
+
+export type SortSpec = [string, 1 | -1][];
+
+interface CursorPayload {
+  // Hash of the collection, filter and sort the cursor was created for
+  query: string;
+  // Number of documents before the next page
+  position: number;
+  // Sort values of the last returned document; without them the next page is read with skip(position)
+  after?: unknown[];
+}
+
+export interface PageFit<T> {
+  documents: T[];
+  truncatedValues: number;
+  droppedDocuments: number;
+}
+
+export function getPageCharBudget(): number {
+  const budget = Number(process.env.MONGODB_PAGE_CHAR_BUDGET);
+  return Number.isFinite(budget) && budget > 0 ? budget : DEFAULT_PAGE_CHAR_BUDGET;
+}
+
+// `_id` is appended so every document has a unique position
+export function normalizeSort(sort?: Record<string, number>): SortSpec {
+  const spec: SortSpec = Object.entries(sort || {}).map(([field, direction]) => {
+    if (direction !== 1 && direction !== -1) {
+      throw new Error(`Sort direction for '${field}' must be 1 or -1`);
+    }
+    return [field, direction];
+  });
+  if (!spec.some(([field]) => field === "_id")) {
+    spec.push(["_id", 1]);
+  }
+  return spec;
+}
+
+export function getPath(document: any, path: string): unknown {
+  return path.split(".").reduce((value, key) => (value !== null && typeof value === "object" ? value[key] : undefined), document);
+}
+
+function deletePath(document: any, path: string) {
+  const keys = path.split(".");
+  const parent = keys.slice(0, -1).reduce((value, key) => (value !== null && typeof value === "object" ? value[key] : undefined), document);
+  if (parent !== null && typeof parent === "object") {
+    delete parent[keys[keys.length - 1]];
+  }
+}
+
+function isExcluded(value: unknown): boolean {
+  return value === 0 || value === false;
+}
+
+// Adds the sort fields a projection would leave out; `hidden` lists them so they can be removed again
+export function projectionWithFields(projection: Document | undefined, fields: string[]): { projection?: Document, hidden: string[] } {
+  if (!projection || Object.keys(projection).length === 0) {
+    return { projection, hidden: [] };
+  }
+
+  const result: Document = { ...projection };
+  const hidden: string[] = [];
+  const inclusion = Object.entries(projection).some(([key, value]) => key !== "_id" && !isExcluded(value));
+  const covers = (field: string, key: string) => field === key || field.startsWith(`${key}.`);
+
+  for (const field of fields) {
+    const keys = Object.keys(projection).filter(key => covers(field, key));
+    if (field === "_id" && isExcluded(projection._id)) {
+      delete result._id;
+      hidden.push(field);
+    } else if (inclusion && field !== "_id" && keys.length === 0) {
+      result[field] = 1;
+      hidden.push(field);
+    } else if (!inclusion && keys.some(key => isExcluded(projection[key]))) {
+      throw new Error(`Sort field '${field}' cannot be excluded by the projection`);
+    }
+  }
+
+  return { projection: result, hidden };
+}
+
+export function removeFields<T extends Document>(documents: T[], fields: string[]): T[] {
+  if (fields.length === 0) {
+    return documents;
+  }
+  return documents.map(document => {
+    const copy = BSON.EJSON.deserialize(BSON.EJSON.serialize(document, { relaxed: false }), { relaxed: false }) as T;
+    fields.forEach(field => deletePath(copy, field));
+    return copy;
+  });
+}
+
+export function queryFingerprint(collection: string, filter: Document, sort: SortSpec): string {
+  return createHash("sha256")
+    .update(BSON.EJSON.stringify({ collection, filter, sort }, { relaxed: false }))
+    .digest("base64url")
+    .slice(0, 16);
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", CURSOR_KEY, iv);
+  const data = Buffer.concat([cipher.update(BSON.EJSON.stringify(payload, { relaxed: false }), "utf8"), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), data]).toString("base64url");
+}
+
+export function decodeCursor(cursor: string, fingerprint: string): CursorPayload {
+  let payload: CursorPayload;
+  try {
+    const raw = Buffer.from(cursor, "base64url");
+    const decipher = createDecipheriv("aes-256-gcm", CURSOR_KEY, raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    const json = Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]).toString("utf8");
+    // Numbers come back as plain numbers, large Longs as Longs; ObjectId, Date etc. keep their types
+    payload = parseExtendedJson(json) as CursorPayload;
+  } catch {
+    throw new Error("Invalid or expired cursor. Cursors are only valid for the server process that issued them; run the query again without 'cursor'.");
+  }
+
+  if (payload.query !== fingerprint) {
+    throw new Error("The cursor belongs to a different query. Pass the same collection, query and sort as the request that returned it.");
+  }
+  return payload;
+}
+
+// Missing, null and array sort values cannot be compared with $gt/$lt the way MongoDB sorts them,
+// so after such a document the next page continues by position instead
+export function nextCursor(last: Document, sort: SortSpec, fingerprint: string, position: number): string {
+  const values = sort.map(([field]) => getPath(last, field));
+  const comparable = values.every(value => value !== null && value !== undefined && !Array.isArray(value));
+  return encodeCursor(comparable ? { query: fingerprint, position, after: values } : { query: fingerprint, position });
+}
+
+// Documents that sort after the cursor position. Null and missing values sort first, so in a
+// descending sort they come after every value. Fields mixing other types are not supported.
+export function afterCursorFilter(sort: SortSpec, values: unknown[]): Document {
+  return {
+    $or: sort.map(([field, direction], index) => {
+      const conditions: Document[] = sort.slice(0, index).map(([previous], previousIndex) => ({ [previous]: { $eq: values[previousIndex] } }));
+      conditions.push(direction === 1
+        ? { [field]: { $gt: values[index] } }
+        : { $or: [{ [field]: { $lt: values[index] } }, { [field]: null }] });
+      return conditions.length === 1 ? conditions[0] : { $and: conditions };
+    }),
+  };
+}
+
+function truncateValue(value: unknown, level: typeof TRUNCATION_LEVELS[number], counter: { count: number }): unknown {
+  if (typeof value === "string") {
+    if (value.length <= level.maxString) {
+      return value;
+    }
+    counter.count++;
+    return `${value.slice(0, level.maxString)}… (${value.length} characters)`;
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, level.maxArray).map(item => truncateValue(item, level, counter));
+    if (value.length > level.maxArray) {
+      counter.count++;
+      items.push(`… ${value.length - level.maxArray} more items`);
+    }
+    return items;
+  }
+  if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    const truncated: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      truncated[key] = truncateValue(child, level, counter);
+    }
+    return truncated;
+  }
+  return value;
+}
+
+function pageSize(documents: unknown[]): number {
+  return BSON.EJSON.stringify(documents, { relaxed: true }).length;
+}
+
+// Shortens long strings and arrays, then drops documents from the end, until the page fits `budget`
+// characters. At least one document is always kept.
+export function fitPageToBudget<T>(documents: T[], budget = getPageCharBudget()): PageFit<T> {
+  if (pageSize(documents) <= budget) {
+    return { documents, truncatedValues: 0, droppedDocuments: 0 };
+  }
+
+  let fitted = documents;
+  const counter = { count: 0 };
+  for (const level of TRUNCATION_LEVELS) {
+    counter.count = 0;
+    fitted = documents.map(document => truncateValue(document, level, counter) as T);
+    if (pageSize(fitted) <= budget) {
+      return { documents: fitted, truncatedValues: counter.count, droppedDocuments: 0 };
+    }
+  }
+
+  let kept = fitted.length;
+  while (kept > 1 && pageSize(fitted.slice(0, kept)) > budget) {
+    kept--;
+  }
+  return { documents: fitted.slice(0, kept), truncatedValues: counter.count, droppedDocuments: fitted.length - kept };
+}
@@ -0,0 +1,278 @@
+// Reference inference between MongoDB collections. Fields that hold ObjectIds, UUIDs or DBRefs, or
+// whose names look like references (`userId`, `author_ids`, `createdBy`), are collected from a
+// random sample; the sampled values are then looked up by `_id` in every collection. A field
+// counts as a reference when most of its values are found in one collection.
+import { BSON, Db, Document } from "mongodb";
+import { ErdColumn, ErdModel, ErdRelation, ErdTable } from "./erdModel.js";
+import { getMongoMaxTimeMs } from "./mongoSafety.js";
+import { bsonTypeOf } from "./mongoSchema.js";
+
+export const DEFAULT_REFERENCE_SAMPLE_SIZE = 100;
+// Collections analysed when no collection is given, and probed as targets
+export const MAX_REFERENCE_COLLECTIONS = 50;
+// Distinct values per field that are looked up
+const MAX_PROBE_VALUES = 20;
+// Share of the probed values that must be found in the target collection
+const MIN_MATCH_RATIO = 0.5;
+
+// Names that often hold a reference without an `Id` suffix
+const REFERENCE_NAMES = new Set([
+  "author",
+  "owner",
+  "user",
+  "creator",
+  "createdby",
+  "updatedby",
+  "deletedby",
+  "assignee",
+  "reporter",
+  "parent",
+  "customer",
+  "account",
+  "organization",
+  "tenant",
+  "group",
+  "team",
+  "project",
+  "product",
+  "order",
+  "category",
+]);
+
+export type ReferenceKind = "objectId" | "uuid" | "dbRef" | "name";
+
+export interface MongoRelation extends ErdRelation {
+  kind: ReferenceKind;
+  // Sampled values looked up, and how many of them were found in the target collection
+  probed: number;
+  matched: number;
+}
+
+export interface UnresolvedReference {
+  collection: string;
+  field: string;
+  kind: ReferenceKind;
+  probed: number;
+  // Best partial match, if any
+  bestMatch?: { collection: string, matched: number };
+}
+
+export interface ReferenceMap {
+  database: string;
+  collections: string[];
+  sampleSize: number;
+  relations: MongoRelation[];
+  unresolved: UnresolvedReference[];
+  // More collections exist than were analysed
+  truncated: boolean;
+}
+
+interface ReferenceCandidate {
+  field: string;
+  kind: ReferenceKind;
+  values: Map<string, unknown>;
+  // DBRefs name their collection
+  refCollection?: string;
+  refDatabase?: string;
+}
+
+function fieldName(path: string): string {
+  return path.replace(/\[\]/g, "").split(".").pop() || path;
+}
+
+// `userId`, `user_id`, `tagIds`, `ownerID`, or one of the known reference names
+export function isReferenceName(path: string): boolean {
+  const name = fieldName(path);
+  if (name === "_id") {
+    return false;
+  }
+  return /(Ids?|ID|_ids?)$/.test(name) || REFERENCE_NAMES.has(name.toLowerCase());
+}
+
+function valueKey(value: unknown): string {
+  return BSON.EJSON.stringify({ value }, { relaxed: false });
+}
+
+function referenceKind(path: string, value: unknown): ReferenceKind | undefined {
+  const type = bsonTypeOf(value);
+  if (type === "objectId" || type === "uuid" || type === "dbRef") {
+    return type as ReferenceKind;
+  }
+  if ((type === "string" && value !== "") || type === "int" || type === "long") {
+    return isReferenceName(path) ? "name" : undefined;
+  }
+  return undefined;
+}
+
+// Array elements are recorded under `field[]`, like in schema inference; the top-level _id is skipped
+export function collectReferenceCandidates(documents: Document[]): ReferenceCandidate[] {
+  const candidates = new Map<string, ReferenceCandidate>();
+
+  const visit = (path: string, value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(item => visit(`${path}[]`, item));
+      return;
+    }
+    if (bsonTypeOf(value) === "object") {
+      Object.entries(value as Document).forEach(([key, child]) => visit(`${path}.${key}`, child));
+      return;
+    }
+
+    const kind = referenceKind(path, value);
+    if (!kind) {
+      return;
+    }
+    let candidate = candidates.get(path);
+    if (!candidate) {
+      candidate = { field: path, kind, values: new Map() };
+      candidates.set(path, candidate);
+    }
+    if (kind === "dbRef") {
+      const ref = value as BSON.DBRef;
+      candidate.refCollection = ref.collection;
+      candidate.refDatabase = ref.db;
+      value = ref.oid;
+    }
+    if (candidate.values.size < MAX_PROBE_VALUES) {
+      candidate.values.set(valueKey(value), value);
+    }
+  };
+
+  documents.forEach(document => {
+    Object.entries(document)
+      .filter(([key]) => key !== "_id")
+      .forEach(([key, value]) => visit(key, value));
+  });
+
+  return Array.from(candidates.values());
+}
+
+// Keys of the probed values that exist as `_id` in the collection
+async function findExistingIds(db: Db, collection: string, values: unknown[]): Promise<Set<string>> {
+  const found = await db
+    .collection(collection)
+    .find({ _id: { $in: values as any[] } }, { projection: { _id: 1 }, maxTimeMS: getMongoMaxTimeMs() })
+    .limit(values.length)
+    .toArray();
+  return new Set(found.map(document => valueKey(document._id)));
+}
+
+// Collections named like the field come first, so they win ties: `userId` prefers `users`
+function nameScore(field: string, collection: string): number {
+  const base = fieldName(field).replace(/(Ids?|ID|_ids?)$/, "").toLowerCase();
+  const name = collection.toLowerCase();
+  if (!base) return 0;
+  if ([base, `${base}s`, `${base}es`, base.replace(/y$/, "ies")].includes(name)) return 2;
+  return name.includes(base) ? 1 : 0;
+}
+
+async function listReferenceCollections(db: Db): Promise<string[]> {
+  const collections = await db.listCollections({}, { nameOnly: false, maxTimeMS: getMongoMaxTimeMs() }).toArray();
+  // Views would run their pipeline for every lookup
+  return collections
+    .filter(collection => (collection.type || "collection") === "collection" && !collection.name.startsWith("system."))
+    .map(collection => collection.name)
+    .sort();
+}
+
+// Null when the given collection does not exist
+export async function inferReferences(db: Db, collection: string | undefined, sampleSize = DEFAULT_REFERENCE_SAMPLE_SIZE): Promise<ReferenceMap | null> {
+  const allCollections = await listReferenceCollections(db);
+  if (collection && !allCollections.includes(collection)) {
+    return null;
+  }
+  const targets = allCollections.slice(0, MAX_REFERENCE_COLLECTIONS);
+  const sources = collection ? [collection] : targets;
+  const relations: MongoRelation[] = [];
+  const unresolved: UnresolvedReference[] = [];
+
+  for (const source of sources) {
+    const documents = await db
+      .collection(source)
+      .aggregate([{ $sample: { size: sampleSize } }], { maxTimeMS: getMongoMaxTimeMs() })
+      .toArray();
+    const candidates = collectReferenceCandidates(documents);
+    if (candidates.length === 0) {
+      continue;
+    }
+
+    // One lookup per target collection with the values of every candidate field
+    const probeValues = new Map<string, unknown>();
+    candidates.forEach(candidate => candidate.values.forEach((value, key) => probeValues.set(key, value)));
+    const existing = new Map<string, Set<string>>();
+    for (const target of targets) {
+      existing.set(target, await findExistingIds(db, target, Array.from(probeValues.values())));
+    }
+
+    for (const candidate of candidates) {
+      const keys = Array.from(candidate.values.keys());
+      // A DBRef names its target; one into another database cannot be checked here
+      const candidateTargets = candidate.refCollection
+        ? (candidate.refDatabase && candidate.refDatabase !== db.databaseName ? [] : [candidate.refCollection].filter(name => existing.has(name)))
+        : targets;
+
+      const ranked = candidateTargets
+        .map(target => ({ target, matched: keys.filter(key => existing.get(target)!.has(key)).length }))
+        .filter(match => match.matched > 0)
+        .sort((a, b) => b.matched - a.matched || nameScore(candidate.field, b.target) - nameScore(candidate.field, a.target));
+      const best = ranked[0];
+
+      if (best && best.matched / keys.length >= MIN_MATCH_RATIO) {
+        relations.push({
+          type: candidate.field.includes("[]") ? "many-to-many" : "many-to-one",
+          description: fieldName(candidate.field),
+          sourceTable: source,
+          sourceColumn: candidate.field,
+          targetTable: best.target,
+          targetColumn: "_id",
+          kind: candidate.kind,
+          probed: keys.length,
+          matched: best.matched,
+        });
+      } else if (candidate.kind !== "uuid") {
+        // UUIDs are often identifiers of their own rather than references, so they are only reported when found
+        unresolved.push({
+          collection: source,
+          field: candidate.field,
+          kind: candidate.kind,
+          probed: keys.length,
+          bestMatch: best ? { collection: best.target, matched: best.matched } : undefined,
+        });
+      }
+    }
+  }
+
+  return {
+    database: db.databaseName,
+    collections: sources,
+    sampleSize,
+    relations,
+    unresolved,
+    truncated: allCollections.length > targets.length,
+  };
+}
+
+// An ERD model of the collections involved, for the Mermaid renderer
+export function referencesToErdModel(relations: MongoRelation[]): ErdModel {
+  const tables = new Map<string, ErdTable>();
+  const table = (name: string) => {
+    if (!tables.has(name)) {
+      tables.set(name, { name, columns: [] });
+    }
+    return tables.get(name)!;
+  };
+  const addColumn = (name: string, column: ErdColumn) => {
+    const columns = table(name).columns;
+    if (!columns.some(existing => existing.name === column.name)) {
+      columns.push(column);
+    }
+  };
+
+  for (const relation of relations) {
+    const type = relation.kind === "uuid" ? "uuid" : relation.kind === "name" ? "id" : "objectId";
+    addColumn(relation.targetTable, { name: "_id", type, isPrimaryKey: true });
+    addColumn(relation.sourceTable, { name: relation.sourceColumn, type, isForeignKey: true });
+  }
+
+  return { tables: Array.from(tables.values()), relations };
+}
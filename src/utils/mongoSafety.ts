@@ -0,0 +1,267 @@
+// Safety policy for mongodb_explorer: every operation gets a server-side time limit, result sizes
+// are capped, server-side JavaScript operators and writing aggregation stages are rejected, and
+// reads can be sent to secondaries.
+// The connection string is often a production database, so the configured user is also checked
+// for write privileges at startup.
+import { MongoClient, MongoClientOptions, ReadPreference, ReadPreferenceMode } from "mongodb";
+import { loadBackendsConfig } from "./backendConfig.js";
+
+const DEFAULT_MAX_TIME_MS = 10000;
+const DEFAULT_MAX_LIMIT = 100;
+const STARTUP_CHECK_TIMEOUT_MS = 5000;
+
+// Operators that run JavaScript on the server
+export const FORBIDDEN_OPERATORS = ["$where", "$function", "$accumulator"];
+
+// Read-only aggregation stages; $out and $merge write, and the others expose server internals
+export const ALLOWED_PIPELINE_STAGES = [
+  "$match",
+  "$project",
+  "$addFields",
+  "$set",
+  "$unset",
+  "$group",
+  "$sort",
+  "$limit",
+  "$skip",
+  "$unwind",
+  "$lookup",
+  "$graphLookup",
+  "$unionWith",
+  "$facet",
+  "$count",
+  "$sortByCount",
+  "$bucket",
+  "$bucketAuto",
+  "$replaceRoot",
+  "$replaceWith",
+  "$sample",
+  "$redact",
+  "$setWindowFields",
+  "$densify",
+  "$fill",
+  "$geoNear",
+];
+
+// Privilege actions that change data, indexes or users
+const WRITE_ACTIONS = new Set([
+  "insert",
+  "update",
+  "remove",
+  "createCollection",
+  "createIndex",
+  "dropCollection",
+  "dropDatabase",
+  "dropIndex",
+  "renameCollectionSameDB",
+  "collMod",
+  "convertToCapped",
+  "createUser",
+  "dropUser",
+  "grantRole",
+  "revokeRole",
+]);
+
+export interface MongoWriteAccess {
+  // Authenticated users; empty when the server does not require authentication
+  users: string[];
+  roles: string[];
+  writeActions: string[];
+}
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getMongoMaxTimeMs(): number {
+  return positiveNumber(process.env.MONGODB_MAX_TIME_MS, DEFAULT_MAX_TIME_MS);
+}
+
+export function getMongoMaxLimit(): number {
+  return Math.floor(positiveNumber(process.env.MONGODB_MAX_LIMIT, DEFAULT_MAX_LIMIT));
+}
+
+export function clampLimit(limit: number | undefined, fallback = 10): number {
+  const requested = limit && limit > 0 ? Math.floor(limit) : fallback;
+  return Math.min(requested, getMongoMaxLimit());
+}
+
+export function getMongoReadPreference(): ReadPreferenceMode | undefined {
+  const mode = process.env.MONGODB_READ_PREFERENCE;
+  if (!mode) {
+    return undefined;
+  }
+  if (!ReadPreference.isValid(mode)) {
+    throw new Error(`Invalid MONGODB_READ_PREFERENCE '${mode}'. Use one of: ${Object.values(ReadPreferenceMode).join(", ")}`);
+  }
+  return mode as ReadPreferenceMode;
+}
+
+export function mongoClientOptions(): MongoClientOptions {
+  const readPreference = getMongoReadPreference();
+  return readPreference ? { readPreference } : {};
+}
+
+// Throws on any forbidden operator, at any depth (including inside $expr, $or, arrays and pipelines)
+export function assertSafeMongoInput(value: unknown, path = ""): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => assertSafeMongoInput(item, `${path}[${index}]`));
+    return;
+  }
+  if (value === null || typeof value !== "object") {
+    return;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    const childPath = path ? `${path}.${key}` : key;
+    if (FORBIDDEN_OPERATORS.includes(key)) {
+      throw new Error(`Operator '${key}' is not allowed (at '${childPath}'): server-side JavaScript is disabled for mongodb_explorer`);
+    }
+    assertSafeMongoInput(child, childPath);
+  }
+}
+
+// Projection operators that select array elements rather than compute values
+const PROJECTION_OPERATORS = ["$slice", "$elemMatch"];
+
+// Find projections may hold aggregation expressions since MongoDB 4.4 (`{ "copy": "$password" }`),
+// which would put a field's value under another name; only inclusion and exclusion are accepted
+export function assertPlainProjection(projection: unknown, path = "projection"): void {
+  if (projection === undefined) {
+    return;
+  }
+  if (projection === null || typeof projection !== "object" || Array.isArray(projection)) {
+    throw new Error(`${path} must be an object of fields set to 0 or 1`);
+  }
+
+  for (const [key, value] of Object.entries(projection)) {
+    const childPath = `${path}.${key}`;
+    if (PROJECTION_OPERATORS.includes(key)) {
+      if (key === "$slice" && !(typeof value === "number" || (Array.isArray(value) && value.length === 2 && value.every(item => typeof item === "number")))) {
+        throw new Error(`${childPath} must be a number or a [skip, limit] pair`);
+      }
+      continue;
+    }
+    if (key.startsWith("$")) {
+      throw new Error(`Projection operator '${key}' is not allowed (at ${childPath}). Use 0 or 1, $slice or $elemMatch.`);
+    }
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      assertPlainProjection(value, childPath);
+    } else if (value !== 0 && value !== 1 && value !== true && value !== false) {
+      throw new Error(`${childPath} must be 0 or 1; projections cannot compute or rename fields`);
+    }
+  }
+}
+
+// Checks every stage, including the sub-pipelines of $lookup, $unionWith and $facet
+export function assertAllowedPipeline(pipeline: unknown, path = "pipeline"): void {
+  if (!Array.isArray(pipeline)) {
+    throw new Error(`${path} must be a JSON array of stages`);
+  }
+
+  pipeline.forEach((stage, index) => {
+    const stagePath = `${path}[${index}]`;
+    const keys = stage !== null && typeof stage === "object" && !Array.isArray(stage) ? Object.keys(stage) : [];
+    if (keys.length !== 1) {
+      throw new Error(`${stagePath} must be an object with exactly one stage operator`);
+    }
+
+    const [operator] = keys;
+    if (!ALLOWED_PIPELINE_STAGES.includes(operator)) {
+      throw new Error(`Stage '${operator}' is not allowed (at ${stagePath}). Allowed stages: ${ALLOWED_PIPELINE_STAGES.join(", ")}`);
+    }
+
+    const body = stage[operator];
+    if ((operator === "$lookup" || operator === "$unionWith") && body?.pipeline) {
+      assertAllowedPipeline(body.pipeline, `${stagePath}.${operator}.pipeline`);
+    }
+    if (operator === "$facet" && body && typeof body === "object") {
+      for (const [name, facet] of Object.entries(body)) {
+        assertAllowedPipeline(facet, `${stagePath}.$facet.${name}`);
+      }
+    }
+  });
+}
+
+export async function findMongoWriteAccess(client: MongoClient): Promise<MongoWriteAccess> {
+  const status = await client.db("admin").command({ connectionStatus: 1, showPrivileges: true });
+  const authInfo = status.authInfo || {};
+  const writeActions = new Set<string>();
+
+  for (const privilege of authInfo.authenticatedUserPrivileges || []) {
+    for (const action of privilege.actions || []) {
+      if (WRITE_ACTIONS.has(action)) {
+        writeActions.add(action);
+      }
+    }
+  }
+
+  return {
+    users: (authInfo.authenticatedUsers || []).map((user: any) => `${user.user}@${user.db}`),
+    roles: (authInfo.authenticatedUserRoles || []).map((role: any) => `${role.role}@${role.db}`),
+    writeActions: Array.from(writeActions).sort(),
+  };
+}
+
+export function describeWriteAccess(access: MongoWriteAccess): string | undefined {
+  if (access.users.length === 0) {
+    return "no authenticated user; access control may be disabled, so this connection can write";
+  }
+  if (access.writeActions.length > 0) {
+    return `user ${access.users.join(", ")} can write (roles: ${access.roles.join(", ") || "none"}; actions: ${access.writeActions.join(", ")})`;
+  }
+  return undefined;
+}
+
+async function configuredMongoUris(): Promise<Map<string, string>> {
+  const uris = new Map<string, string>();
+  const envUri = process.env.MONGODB_URI || process.env.MONGODB_CONNECTION_STRING;
+  if (envUri) {
+    uris.set(envUri, "environment");
+  }
+
+  const config = await loadBackendsConfig();
+  for (const [name, backend] of Object.entries(config?.backends || {})) {
+    if (backend.mongodbUri && !uris.has(backend.mongodbUri)) {
+      uris.set(backend.mongodbUri, `backend '${name}'`);
+    }
+    for (const [environment, settings] of Object.entries(backend.environments || {})) {
+      if (settings?.mongodbUri && !uris.has(settings.mongodbUri)) {
+        uris.set(settings.mongodbUri, `backend '${name}' (${environment})`);
+      }
+    }
+  }
+  return uris;
+}
+
+// Warns on stderr for every configured connection whose user can write; never fails startup
+export async function warnAboutMongoWriteAccess(): Promise<void> {
+  let uris: Map<string, string>;
+  try {
+    uris = await configuredMongoUris();
+  } catch (error) {
+    process.stderr.write(`- MongoDB permission check skipped: ${error instanceof Error ? error.message : error}\n`);
+    return;
+  }
+
+  for (const [uri, label] of Array.from(uris)) {
+    let client: MongoClient | undefined;
+    try {
+      // An invalid MONGODB_READ_PREFERENCE or URI throws here, and is reported like a failed check
+      client = new MongoClient(uri, {
+        ...mongoClientOptions(),
+        serverSelectionTimeoutMS: STARTUP_CHECK_TIMEOUT_MS,
+      });
+      await client.connect();
+      const warning = describeWriteAccess(await findMongoWriteAccess(client));
+      if (warning) {
+        process.stderr.write(`WARNING: MongoDB connection for ${label}: ${warning}. Use a read-only user (e.g. the 'read' role).\n`);
+      }
+    } catch (error) {
+      process.stderr.write(`- MongoDB permission check for ${label} failed: ${error instanceof Error ? error.message : error}\n`);
+    } finally {
+      await client?.close().catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,169 @@
+// Schema inference for MongoDB collections from a sample of documents. Every field path gets its
+// BSON types with percentages, the share of documents that contain it and a few example values.
+// Array elements are analysed under `field[]`, so `items[].price` is the price of each item.
+import { Document } from "mongodb";
+
+export const DEFAULT_SCHEMA_SAMPLE_SIZE = 100;
+export const MAX_SCHEMA_SAMPLE_SIZE = 5000;
+
+const MAX_EXAMPLES = 3;
+const MAX_EXAMPLE_LENGTH = 200;
+
+export interface InferredType {
+  type: string;
+  count: number;
+  // Share of the field's occurrences, 0-100
+  percentage: number;
+}
+
+export interface InferredField {
+  name: string;
+  // Summary such as "string 80% / null 20%"
+  type: string;
+  // Occurrences; for array element paths, one per element
+  count: number;
+  // Share of the sampled documents containing the field, 0-1
+  presence: number;
+  types: InferredType[];
+  examples: unknown[];
+}
+
+interface FieldAccumulator {
+  occurrences: number;
+  documents: number;
+  lastDocument: number;
+  types: Map<string, number>;
+  examples: unknown[];
+  exampleKeys: Set<string>;
+}
+
+// BSON type names as used by $type, with `uuid` split out of binData
+export function bsonTypeOf(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return "array";
+  if (value instanceof Date) return "date";
+
+  switch (typeof value) {
+    case "string":
+      return "string";
+    case "boolean":
+      return "bool";
+    case "number":
+      return Number.isInteger(value) ? "int" : "double";
+    case "bigint":
+      return "long";
+    case "object":
+      break;
+    default:
+      return typeof value;
+  }
+
+  switch ((value as { _bsontype?: string })._bsontype) {
+    case undefined:
+      return "object";
+    case "ObjectId":
+    case "ObjectID":
+      return "objectId";
+    case "Decimal128":
+      return "decimal";
+    case "Long":
+      return "long";
+    case "Int32":
+      return "int";
+    case "Double":
+      return "double";
+    case "Binary":
+      return (value as { sub_type?: number }).sub_type === 4 ? "uuid" : "binData";
+    case "BSONRegExp":
+      return "regex";
+    case "Code":
+      return "javascript";
+    case "DBRef":
+      return "dbRef";
+    case "BSONSymbol":
+      return "symbol";
+    default: {
+      // Timestamp, MinKey, MaxKey
+      const name = (value as { _bsontype: string })._bsontype;
+      return name.charAt(0).toLowerCase() + name.slice(1);
+    }
+  }
+}
+
+function isExampleValue(type: string, value: unknown): boolean {
+  if (type === "null" || type === "object" || type === "array") {
+    return false;
+  }
+  return typeof value !== "string" || value.length <= MAX_EXAMPLE_LENGTH;
+}
+
+function exampleKey(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+export function summarizeTypes(types: InferredType[]): string {
+  if (types.length === 1) {
+    return types[0].type;
+  }
+  return types.map(entry => `${entry.type} ${entry.percentage}%`).join(" / ");
+}
+
+// Fields are listed in the order they are first seen
+export function inferFields(documents: Document[]): InferredField[] {
+  const fields = new Map<string, FieldAccumulator>();
+
+  const record = (path: string, value: unknown, documentIndex: number) => {
+    let field = fields.get(path);
+    if (!field) {
+      field = { occurrences: 0, documents: 0, lastDocument: -1, types: new Map(), examples: [], exampleKeys: new Set() };
+      fields.set(path, field);
+    }
+
+    const type = bsonTypeOf(value);
+    field.occurrences++;
+    field.types.set(type, (field.types.get(type) || 0) + 1);
+    if (field.lastDocument !== documentIndex) {
+      field.lastDocument = documentIndex;
+      field.documents++;
+    }
+
+    if (field.examples.length < MAX_EXAMPLES && isExampleValue(type, value)) {
+      const key = `${type}:${exampleKey(value)}`;
+      if (!field.exampleKeys.has(key)) {
+        field.exampleKeys.add(key);
+        field.examples.push(value);
+      }
+    }
+
+    if (type === "object") {
+      for (const [key, child] of Object.entries(value as Document)) {
+        record(`${path}.${key}`, child, documentIndex);
+      }
+    } else if (type === "array") {
+      for (const item of value as unknown[]) {
+        record(`${path}[]`, item, documentIndex);
+      }
+    }
+  };
+
+  documents.forEach((document, index) => {
+    for (const [key, value] of Object.entries(document)) {
+      record(key, value, index);
+    }
+  });
+
+  return Array.from(fields.entries()).map(([name, field]) => {
+    const types = Array.from(field.types.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([type, count]) => ({ type, count, percentage: Math.round((count / field.occurrences) * 1000) / 10 }));
+
+    return {
+      name,
+      type: summarizeTypes(types),
+      count: field.occurrences,
+      presence: documents.length > 0 ? Math.round((field.documents / documents.length) * 1000) / 1000 : 0,
+      types,
+      examples: field.examples,
+    };
+  });
+}
@@ -0,0 +1,373 @@
+// Redaction of personal data and secrets in MongoDB documents before they are returned to the client.
+// Values are redacted when their field name matches a pattern (`*password*`, `email`, or a dotted
+// path such as `address.*`) or when a string value looks like an email, phone number, JWT or card number.
+import { createHash, randomBytes } from "crypto";
+import { loadBackendsConfig } from "./backendConfig.js";
+
+export type RedactionMode = "mask" | "hash";
+export type ValueDetector = "email" | "phone" | "jwt" | "card";
+
+export interface RedactionConfig {
+  enabled?: boolean;
+  mode?: RedactionMode;
+  // Added to the built-in field patterns
+  fields?: string[];
+  // Extra field patterns per collection
+  collections?: Record<string, string[]>;
+  // Defaults to every detector
+  detectors?: ValueDetector[];
+}
+
+export interface RedactionRules {
+  mode: RedactionMode;
+  // The field patterns, and the same compiled for matching
+  patterns: string[];
+  fields: RegExp[];
+  detectors: ValueDetector[];
+}
+
+const MASK = "[REDACTED]";
+
+const REDACTION_MODES: RedactionMode[] = ["mask", "hash"];
+
+// An unsalted hash of an email or phone number can be reversed by trying every candidate, so
+// without MONGODB_REDACT_SALT each server run hashes with its own random salt
+const PROCESS_SALT = randomBytes(16).toString("hex");
+
+export const DEFAULT_REDACTED_FIELDS = [
+  "*password*",
+  "*passwd*",
+  "*secret*",
+  "*token*",
+  "*apikey*",
+  "*api_key*",
+  "*email*",
+  "*phone*",
+  "ssn",
+  "*cardnumber*",
+  "*card_number*",
+];
+
+const ALL_DETECTORS: ValueDetector[] = ["email", "phone", "jwt", "card"];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const JWT_PATTERN = /^eyJ[\w-]+\.[\w-]+\.[\w-]*$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+const CARD_PATTERN = /^\d[\d -]{11,22}\d$/;
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const DETECTORS: Record<ValueDetector, (value: string) => boolean> = {
+  email: value => EMAIL_PATTERN.test(value),
+  jwt: value => JWT_PATTERN.test(value),
+  card: value => {
+    if (!CARD_PATTERN.test(value)) return false;
+    const digits = value.replace(/\D/g, "");
+    return digits.length >= 13 && digits.length <= 19 && luhnValid(digits);
+  },
+  // Bare digit strings are usually ids or amounts, so a phone number needs a '+' or separators
+  phone: value => {
+    if (!PHONE_PATTERN.test(value) || !/[+\s().-]/.test(value)) return false;
+    const digits = value.replace(/\D/g, "").length;
+    return digits >= 9 && digits <= 15;
+  },
+};
+
+// `*` matches within one path segment
+function globSource(pattern: string): string {
+  return pattern
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join("[^.]*");
+}
+
+// Patterns without a dot match the field name at any depth
+function patternToRegExp(pattern: string): RegExp {
+  const body = globSource(pattern);
+  return pattern.includes(".") ? new RegExp(`^${body}$`, "i") : new RegExp(`(^|\\.)${body}$`, "i");
+}
+
+function listFromEnv(value: string | undefined): string[] {
+  return (value || "").split(",").map(item => item.trim()).filter(Boolean);
+}
+
+function redactionEnabledFromEnv(): boolean | undefined {
+  const value = process.env.MONGODB_REDACTION;
+  return value ? !/^(off|false|0|no)$/i.test(value) : undefined;
+}
+
+export function redactionModeFromEnv(): RedactionMode | undefined {
+  const mode = process.env.MONGODB_REDACT_MODE;
+  if (!mode) {
+    return undefined;
+  }
+  if (!REDACTION_MODES.includes(mode as RedactionMode)) {
+    throw new Error(`Invalid MONGODB_REDACT_MODE '${mode}'. Use one of: ${REDACTION_MODES.join(", ")}`);
+  }
+  return mode as RedactionMode;
+}
+
+// For the startup banner; the backends config file can still change the mode
+export function describeRedactionEnv(): string {
+  try {
+    if (redactionEnabledFromEnv() === false) {
+      return "Off";
+    }
+    const mode = redactionModeFromEnv();
+    if (mode === "hash") {
+      return `hash (${process.env.MONGODB_REDACT_SALT ? "MONGODB_REDACT_SALT" : "random salt per run"})`;
+    }
+    return mode || "mask (default)";
+  } catch (error) {
+    return `${error instanceof Error ? error.message : error}; MongoDB output is refused until it is fixed`;
+  }
+}
+
+export async function loadRedactionConfig(): Promise<RedactionConfig> {
+  const fromFile = (await loadBackendsConfig())?.redaction || {};
+  const envEnabled = redactionEnabledFromEnv();
+
+  return {
+    ...fromFile,
+    enabled: envEnabled ?? fromFile.enabled,
+    mode: redactionModeFromEnv() || fromFile.mode,
+    fields: [...(fromFile.fields || []), ...listFromEnv(process.env.MONGODB_REDACT_FIELDS)],
+  };
+}
+
+// Null when redaction is turned off
+export function redactionRules(config: RedactionConfig, collection?: string): RedactionRules | null {
+  if (config.enabled === false) {
+    return null;
+  }
+
+  const mode = config.mode || "mask";
+  if (!REDACTION_MODES.includes(mode)) {
+    throw new Error(`Invalid redaction mode '${mode}'. Use one of: ${REDACTION_MODES.join(", ")}`);
+  }
+
+  const detectors = config.detectors || ALL_DETECTORS;
+  const unknown = detectors.filter(detector => !ALL_DETECTORS.includes(detector));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown redaction detector(s): ${unknown.join(", ")}. Available: ${ALL_DETECTORS.join(", ")}`);
+  }
+
+  const patterns = [
+    ...DEFAULT_REDACTED_FIELDS,
+    ...(config.fields || []),
+    ...(collection ? config.collections?.[collection] || [] : []),
+  ];
+  return { mode, patterns, fields: patterns.map(patternToRegExp), detectors };
+}
+
+function withPatterns(rules: RedactionRules, patterns: string[]): RedactionRules {
+  const unique = Array.from(new Set(patterns));
+  return { ...rules, patterns: unique, fields: unique.map(patternToRegExp) };
+}
+
+// Operators that read fields by a computed name or turn field names into values
+const COMPUTED_FIELD_OPERATORS = ["$objectToArray", "$getField", "$setField"];
+
+// Stages whose expressions build new values out of fields; the other stages filter, sort or
+// reshape documents without copying a value to another name
+const COMPUTING_STAGES = [
+  "$project",
+  "$addFields",
+  "$set",
+  "$group",
+  "$replaceRoot",
+  "$replaceWith",
+  "$bucket",
+  "$bucketAuto",
+  "$sortByCount",
+  "$setWindowFields",
+  "$fill",
+];
+
+function segmentMatches(pattern: string, segment: string): boolean {
+  return new RegExp(`^${globSource(pattern)}$`, "i").test(segment);
+}
+
+// True when the value at `path` is redacted, lies inside a redacted object, or is an object that
+// contains a path-anchored pattern (`address.*`). Name patterns need no such check: they keep
+// matching wherever a copied object ends up.
+function readsRedactedPath(path: string, rules: RedactionRules): boolean {
+  const segments = path ? path.split(".") : [];
+  for (let length = 1; length <= segments.length; length++) {
+    const prefix = segments.slice(0, length).join(".");
+    if (rules.fields.some(pattern => pattern.test(prefix))) {
+      return true;
+    }
+  }
+  return rules.patterns.some(pattern => {
+    const patternSegments = pattern.split(".");
+    return pattern.includes(".")
+      && patternSegments.length > segments.length
+      && segments.every((segment, index) => segmentMatches(patternSegments[index], segment));
+  });
+}
+
+function assertExpressionKeepsRedaction(value: unknown, rules: RedactionRules, location: string) {
+  if (typeof value === "string") {
+    let path: string | undefined;
+    if (/^\$\$(ROOT|CURRENT)(\.|$)/.test(value)) {
+      path = value.replace(/^\$\$(ROOT|CURRENT)\.?/, "");
+    } else if (value.startsWith("$$")) {
+      // Other variables hold values bound elsewhere ($map input, $lookup let), which are checked
+      // there; only the fields read through them remain, and only name patterns can match those
+      const fields = value.split(".").slice(1);
+      if (fields.some((_, index) => rules.fields.some(pattern => pattern.test(fields.slice(0, index + 1).join("."))))) {
+        throw new Error(`'${value}' reads a redacted field (at ${location}). Redacted fields cannot be copied or computed in an aggregation.`);
+      }
+      return;
+    } else if (value.length > 1 && value.startsWith("$")) {
+      path = value.slice(1);
+    }
+    if (path !== undefined && readsRedactedPath(path, rules)) {
+      throw new Error(`'${value}' reads a redacted field (at ${location}). Redacted fields cannot be copied or computed in an aggregation.`);
+    }
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => assertExpressionKeepsRedaction(item, rules, `${location}[${index}]`));
+    return;
+  }
+  if (!isPlainObject(value)) {
+    return;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    if (COMPUTED_FIELD_OPERATORS.includes(key)) {
+      throw new Error(`Operator '${key}' is not allowed while redaction is on (at ${location}): it reads fields by a computed name.`);
+    }
+    if (key !== "$literal") {
+      assertExpressionKeepsRedaction(child, rules, `${location}.${key}`);
+    }
+  }
+}
+
+// Joined documents land under `field`, so path-anchored patterns move with them
+function prefixPatterns(patterns: string[], field: string): string[] {
+  return patterns.map(pattern => pattern.includes(".") ? `${field}.${pattern}` : pattern);
+}
+
+function joinedCollection(from: unknown): string | undefined {
+  return typeof from === "string" ? from : (from as { coll?: string } | undefined)?.coll;
+}
+
+// Checks `pipeline` against `rules` and returns the rules for its output documents
+function pipelineOutputRules(pipeline: any[], rules: RedactionRules, config: RedactionConfig, path: string): RedactionRules {
+  let current = rules;
+
+  pipeline.forEach((stage, index) => {
+    const [operator] = Object.keys(stage);
+    const body = stage[operator];
+    const location = `${path}[${index}].${operator}`;
+    const collectionRules = (from: unknown) => redactionRules(config, joinedCollection(from))!;
+
+    if (COMPUTING_STAGES.includes(operator)) {
+      assertExpressionKeepsRedaction(body, current, location);
+    } else if (operator === "$lookup") {
+      // `let` variables carry this collection's values into the joined pipeline
+      assertExpressionKeepsRedaction(body.let, current, `${location}.let`);
+      const joined = body.pipeline
+        ? pipelineOutputRules(body.pipeline, collectionRules(body.from), config, `${location}.pipeline`)
+        : collectionRules(body.from);
+      current = withPatterns(current, [...current.patterns, ...prefixPatterns(joined.patterns, body.as)]);
+    } else if (operator === "$graphLookup") {
+      current = withPatterns(current, [...current.patterns, ...prefixPatterns(collectionRules(body.from).patterns, body.as)]);
+    } else if (operator === "$unionWith") {
+      const from = typeof body === "string" ? body : body.coll;
+      const joined = body.pipeline
+        ? pipelineOutputRules(body.pipeline, collectionRules(from), config, `${location}.pipeline`)
+        : collectionRules(from);
+      current = withPatterns(current, [...current.patterns, ...joined.patterns]);
+    } else if (operator === "$facet") {
+      const facets = Object.entries(body as Record<string, any[]>)
+        .map(([name, facet]) => prefixPatterns(pipelineOutputRules(facet, current, config, `${location}.${name}`).patterns, name));
+      current = withPatterns(current, facets.flat());
+    }
+  });
+
+  return current;
+}
+
+// Aggregation output cannot be redacted by the source collection's field names alone: stages can
+// copy a protected value to a new name, and $lookup/$unionWith/$graphLookup bring in documents from
+// other collections. Expressions that read a redacted field are therefore rejected (filtering and
+// sorting on one is allowed, as in 'query'), and joined documents get their own collection's
+// patterns. Returns the rules for the output documents; throws before anything runs.
+export function aggregationRedactionRules(config: RedactionConfig, collection: string, pipeline: any[]): RedactionRules | null {
+  const rules = redactionRules(config, collection);
+  return rules ? pipelineOutputRules(pipeline, rules, config, "pipeline") : null;
+}
+
+function replacement(value: unknown, rules: RedactionRules): string {
+  if (rules.mode === "hash") {
+    // Equal values hash equally, so redacted fields can still be compared and grouped
+    const salt = process.env.MONGODB_REDACT_SALT || PROCESS_SALT;
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    return `sha256:${createHash("sha256").update(salt + text).digest("hex").slice(0, 16)}`;
+  }
+  if (typeof value === "string" && EMAIL_PATTERN.test(value)) {
+    return `${MASK}@${value.split("@").pop()}`;
+  }
+  return MASK;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function redactValue(value: unknown, path: string, rules: RedactionRules): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  if (path && rules.fields.some(pattern => pattern.test(path))) {
+    return replacement(value, rules);
+  }
+  if (typeof value === "string") {
+    return rules.detectors.some(detector => DETECTORS[detector](value)) ? replacement(value, rules) : value;
+  }
+  // Array elements keep their field's path, so a pattern for `phones` covers every element
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, path, rules));
+  }
+  // ObjectId, Date, Decimal128 and other BSON values are kept as they are
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    redacted[key] = redactValue(child, path ? `${path}.${key}` : key, rules);
+  }
+  return redacted;
+}
+
+// For a value taken out of a document, e.g. an example value; `items[].price` is matched as `items.price`
+export function redactFieldValue(value: unknown, path: string, rules: RedactionRules | null): unknown {
+  return rules ? redactValue(value, path.replace(/\[\]/g, ""), rules) : value;
+}
+
+export function redactDocument<T>(document: T, rules: RedactionRules | null): T {
+  return rules ? redactValue(document, "", rules) as T : document;
+}
+
+export function redactDocuments<T>(documents: T[], rules: RedactionRules | null): T[] {
+  return rules ? documents.map(document => redactDocument(document, rules)) : documents;
+}
@@ -0,0 +1,624 @@
+// Live SQL databases (Postgres, MySQL, SQLite): connections, catalog introspection into the ERD
+// table/column/relation model, and read-only queries.
+import type { Connection as MysqlCoreConnection } from "mysql2";
+import mysql from "mysql2/promise";
+import pg from "pg";
+import Cursor from "pg-cursor";
+import { resolve } from "path";
+import { fileURLToPath } from "url";
+import { Worker } from "worker_threads";
+import { ErdBuilder, ErdTable } from "./erdModel.js";
+import type { SqliteRequest, SqliteResponse } from "./sqliteWorker.js";
+
+export type SqlDialect = "postgres" | "mysql" | "sqlite";
+
+export const QUERY_TIMEOUT_MS = 10_000;
+
+export interface SqlConnection {
+  dialect: SqlDialect;
+  // Runs `sql` in a read-only transaction (where the database supports one) with a statement timeout.
+  // With `maxRows`, stops reading the result after that many rows.
+  readOnly(sql: string, params?: unknown[], maxRows?: number): Promise<Record<string, unknown>[]>;
+}
+
+export interface SqlTableInfo {
+  name: string;
+  type: string;
+  rowEstimate?: number;
+  description?: string;
+}
+
+interface CatalogColumn {
+  table: string;
+  column: string;
+  type: string;
+  nullable: boolean;
+  description?: string;
+}
+
+interface CatalogKey {
+  kind: "p" | "f" | "u";
+  constraint: string;
+  table: string;
+  column: string;
+  foreignTable?: string;
+  foreignColumn?: string;
+}
+
+// Writes that can hide inside a read statement (data-modifying CTEs, SELECT INTO, row locks) and
+// functions with side effects; the read-only transaction is the backstop
+const WRITE_KEYWORDS = /\b(INSERT|UPDATE|DELETE|MERGE|UPSERT|DROP|ALTER|CREATE|TRUNCATE|GRANT|REVOKE|COPY|CALL|EXEC|EXECUTE|LOCK|INTO|ATTACH|DETACH)\b|\b(nextval|setval|set_config|pg_advisory_\w*|pg_terminate_backend|pg_cancel_backend|pg_read_file|pg_read_binary_file|pg_ls_dir|lo_import|lo_export|dblink\w*|load_file|get_lock)\s*\(/i;
+const READ_STATEMENT = /^\s*(SELECT|WITH|VALUES|TABLE|SHOW|EXPLAIN|DESCRIBE|DESC)\b/i;
+
+const SQLITE_EXTENSIONS = /\.(db|sqlite|sqlite3|db3)$/i;
+
+export function sqlDialect(uri: string): SqlDialect | undefined {
+  if (/^postgres(ql)?:\/\//i.test(uri)) return "postgres";
+  if (/^mysql:\/\//i.test(uri)) return "mysql";
+  if (/^sqlite:/i.test(uri) || SQLITE_EXTENSIONS.test(uri)) return "sqlite";
+  return undefined;
+}
+
+export function isSqlDatabaseUri(uri: string): boolean {
+  return sqlDialect(uri) !== undefined;
+}
+
+// sqlite:///abs/path.db, sqlite:./relative.db, file:///path.db or a plain path
+function sqlitePath(uri: string): string {
+  if (/^sqlite:\/\//i.test(uri)) {
+    return resolve(decodeURIComponent(uri.replace(/^sqlite:\/\//i, "")));
+  }
+  if (/^sqlite:/i.test(uri)) {
+    return resolve(uri.replace(/^sqlite:/i, ""));
+  }
+  return uri.startsWith("file://") ? fileURLToPath(uri) : resolve(uri);
+}
+
+// Blanks out string literals, quoted identifiers and comments so keyword checks only see SQL.
+// Quoting follows the dialect: backslashes escape only in MySQL strings and Postgres E'' strings
+// (the Postgres session keeps standard_conforming_strings on), Postgres block comments nest, and
+// MySQL runs the content of /*! */ comments, so those are refused. Anything left unterminated is
+// refused too, since the database could read it differently.
+function stripLiterals(sql: string, dialect: SqlDialect): string {
+  let stripped = "";
+  let index = 0;
+
+  // Index after the closing quote; a doubled quote stands for itself
+  const closingQuote = (quote: string, start: number, backslashEscapes: boolean): number => {
+    for (let i = start; i < sql.length; i++) {
+      if (backslashEscapes && sql[i] === "\\") {
+        i++;
+      } else if (sql[i] === quote) {
+        if (sql[i + 1] !== quote) {
+          return i + 1;
+        }
+        i++;
+      }
+    }
+    throw new Error("The query has an unterminated string or quoted identifier.");
+  };
+
+  const closingComment = (start: number): number => {
+    let depth = 1;
+    for (let i = start; i < sql.length - 1; i++) {
+      if (sql.startsWith("*/", i)) {
+        depth--;
+        if (depth === 0 || dialect !== "postgres") {
+          return i + 2;
+        }
+        i++;
+      } else if (dialect === "postgres" && sql.startsWith("/*", i)) {
+        depth++;
+        i++;
+      }
+    }
+    throw new Error("The query has an unterminated comment.");
+  };
+
+  while (index < sql.length) {
+    const char = sql[index];
+    const previous = sql[index - 1] || "";
+    const dollarTag = dialect === "postgres" && !/[\w$]/.test(previous)
+      ? /^\$(?:[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)?\$/.exec(sql.slice(index, index + 64))?.[0]
+      : undefined;
+
+    // MySQL needs whitespace after `--`: `1--1` is a subtraction there
+    if ((sql.startsWith("--", index) && (dialect !== "mysql" || index + 2 >= sql.length || /[\s\x00-\x1f]/.test(sql[index + 2]))) || (dialect === "mysql" && char === "#")) {
+      const end = sql.indexOf("\n", index);
+      index = end === -1 ? sql.length : end;
+      stripped += " ";
+    } else if (sql.startsWith("/*", index)) {
+      if (dialect === "mysql" && sql[index + 2] === "!") {
+        throw new Error("MySQL executable comments (/*! ... */) are not allowed.");
+      }
+      index = closingComment(index + 2);
+      stripped += " ";
+    } else if (dollarTag) {
+      const end = sql.indexOf(dollarTag, index + dollarTag.length);
+      if (end === -1) {
+        throw new Error("The query has an unterminated dollar-quoted string.");
+      }
+      index = end + dollarTag.length;
+      stripped += "''";
+    } else if (char === "'") {
+      const escapeString = dialect === "postgres" && /[eE]/.test(previous) && !/[\w$]/.test(sql[index - 2] || "");
+      index = closingQuote("'", index + 1, dialect === "mysql" || escapeString);
+      stripped += "''";
+    } else if (char === '"') {
+      // A string in MySQL, an identifier elsewhere
+      index = closingQuote('"', index + 1, dialect === "mysql");
+      stripped += '""';
+    } else if (char === "`" && dialect !== "postgres") {
+      index = closingQuote("`", index + 1, false);
+      stripped += "``";
+    } else if (char === "[" && dialect === "sqlite") {
+      const end = sql.indexOf("]", index + 1);
+      if (end === -1) {
+        throw new Error("The query has an unterminated quoted identifier.");
+      }
+      index = end + 1;
+      stripped += '""';
+    } else {
+      stripped += char;
+      index++;
+    }
+  }
+
+  return stripped;
+}
+
+// Throws unless `sql` is a single statement that only reads
+export function assertReadOnlyQuery(sql: string, dialect: SqlDialect) {
+  const stripped = stripLiterals(sql, dialect).trim().replace(/;\s*$/, "");
+
+  if (stripped.includes(";")) {
+    throw new Error("Only a single SQL statement is allowed.");
+  }
+  if (!READ_STATEMENT.test(stripped)) {
+    throw new Error("Only read-only statements (SELECT, WITH, VALUES, TABLE, SHOW, EXPLAIN, DESCRIBE) are allowed.");
+  }
+  if (/^\s*EXPLAIN\b[^]*\bANALY[SZ]E\b/i.test(stripped)) {
+    throw new Error("EXPLAIN ANALYZE executes the statement and is not allowed.");
+  }
+
+  const write = stripped.match(WRITE_KEYWORDS);
+  if (write) {
+    throw new Error(`Only read-only queries are allowed; '${write[0].toUpperCase()}' is not permitted.`);
+  }
+}
+
+export function quoteIdentifier(dialect: SqlDialect, name: string): string {
+  // Postgres tables outside the public schema are named `schema.table`
+  return name.split(".").map(part => dialect === "mysql"
+    ? `\`${part.replace(/`/g, "``")}\``
+    : `"${part.replace(/"/g, '""')}"`).join(".");
+}
+
+const pgPools = new Map<string, pg.Pool>();
+const mysqlPools = new Map<string, mysql.Pool>();
+const pendingSqliteQueries = new Map<number, { resolve(rows: Record<string, unknown>[]): void, reject(error: Error): void }>();
+let sqliteWorker: Worker | undefined;
+let nextSqliteQueryId = 0;
+
+function postgresConnection(uri: string): SqlConnection {
+  let pool = pgPools.get(uri);
+  if (!pool) {
+    pool = new pg.Pool({ connectionString: uri, max: 2 });
+    // Idle clients that lose their connection must not crash the server
+    pool.on("error", (error) => console.error("Postgres pool error:", error.message));
+    pgPools.set(uri, pool);
+  }
+  const activePool = pool;
+
+  return {
+    dialect: "postgres",
+    async readOnly(sql, params = [], maxRows) {
+      const client = await activePool.connect();
+      try {
+        // Session defaults back up the transaction: a query that ended it would still be read-only,
+        // and backslashes in plain strings stay literal, as assertReadOnlyQuery assumes
+        await client.query("SET SESSION default_transaction_read_only = on; SET SESSION standard_conforming_strings = on");
+        await client.query("BEGIN TRANSACTION READ ONLY");
+        await client.query(`SET LOCAL statement_timeout = ${QUERY_TIMEOUT_MS}`);
+        // The extended protocol runs exactly one statement, also when there are no parameters; a
+        // cursor uses it too, and fetches only the rows asked for
+        if (maxRows !== undefined) {
+          const cursor = client.query(new Cursor<Record<string, unknown>>(sql, params));
+          try {
+            return await cursor.read(maxRows);
+          } finally {
+            await cursor.close().catch(() => undefined);
+          }
+        }
+        const result = await client.query({ text: sql, values: params, queryMode: "extended" } as pg.QueryConfig);
+        return result.rows;
+      } finally {
+        await client.query("ROLLBACK").catch(() => undefined);
+        client.release();
+      }
+    },
+  };
+}
+
+function mysqlConnection(uri: string): SqlConnection {
+  let pool = mysqlPools.get(uri);
+  if (!pool) {
+    pool = mysql.createPool({ uri, connectionLimit: 2, dateStrings: true, supportBigNumbers: true, bigNumberStrings: true });
+    mysqlPools.set(uri, pool);
+  }
+  const activePool = pool;
+
+  return {
+    dialect: "mysql",
+    async readOnly(sql, params = [], maxRows) {
+      const connection = await activePool.getConnection();
+      let discarded = false;
+      try {
+        // MySQL and MariaDB name the statement timeout differently; each rejects the other's
+        await connection.query(`SET SESSION MAX_EXECUTION_TIME = ${QUERY_TIMEOUT_MS}`)
+          .catch(() => connection.query(`SET SESSION max_statement_time = ${QUERY_TIMEOUT_MS / 1000}`))
+          .catch(() => undefined);
+        await connection.query("START TRANSACTION READ ONLY");
+        if (maxRows !== undefined) {
+          const { rows, complete } = await streamMysqlRows(connection.connection as unknown as MysqlCoreConnection, sql, params, maxRows);
+          // The rest of the result is still on the wire, so the connection cannot be reused
+          discarded = !complete;
+          return rows;
+        }
+        const [rows] = await connection.query(sql, params);
+        return Array.isArray(rows) ? rows as Record<string, unknown>[] : [];
+      } finally {
+        if (discarded) {
+          connection.destroy();
+        } else {
+          await connection.query("ROLLBACK").catch(() => undefined);
+          connection.release();
+        }
+      }
+    },
+  };
+}
+
+// Reads rows as they arrive and stops at `maxRows`; `complete` is false when rows were left unread
+function streamMysqlRows(connection: MysqlCoreConnection, sql: string, params: unknown[], maxRows: number): Promise<{ rows: Record<string, unknown>[], complete: boolean }> {
+  return new Promise((resolve, reject) => {
+    const rows: Record<string, unknown>[] = [];
+    let stopped = false;
+    const query = connection.query(sql, params);
+    query.on("result", (row) => {
+      if (stopped) {
+        return;
+      }
+      rows.push(row as Record<string, unknown>);
+      if (rows.length >= maxRows) {
+        stopped = true;
+        connection.pause();
+        resolve({ rows, complete: false });
+      }
+    });
+    query.on("error", reject);
+    query.on("end", () => resolve({ rows, complete: true }));
+  });
+}
+
+// Queries run in a worker thread (see sqliteWorker.ts) that is terminated when one overruns the
+// time limit; queries still queued behind it fail and the next query starts a fresh worker
+function startSqliteWorker(): Worker {
+  const worker = new Worker(new URL("./sqliteWorker.js", import.meta.url));
+  worker.on("message", (response: SqliteResponse) => {
+    const pending = pendingSqliteQueries.get(response.id);
+    pendingSqliteQueries.delete(response.id);
+    if ("error" in response) {
+      pending?.reject(new Error(response.error));
+    } else {
+      pending?.resolve(response.rows);
+    }
+  });
+  worker.on("error", (error) => stopSqliteWorker(worker, () => error));
+  worker.on("exit", () => stopSqliteWorker(worker, () => new Error("The SQLite worker stopped unexpectedly.")));
+  // An idle worker must not keep the server process alive
+  worker.unref();
+  return worker;
+}
+
+function stopSqliteWorker(worker: Worker, reason: (id: number) => Error) {
+  if (sqliteWorker !== worker) {
+    return;
+  }
+  sqliteWorker = undefined;
+  worker.terminate().catch(() => undefined);
+  pendingSqliteQueries.forEach((pending, id) => pending.reject(reason(id)));
+  pendingSqliteQueries.clear();
+}
+
+function sqliteConnection(uri: string): SqlConnection {
+  const path = sqlitePath(uri);
+
+  return {
+    dialect: "sqlite",
+    readOnly(sql, params = [], maxRows) {
+      const worker = sqliteWorker = sqliteWorker || startSqliteWorker();
+      const id = nextSqliteQueryId++;
+
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => stopSqliteWorker(worker, (pendingId) => pendingId === id
+          ? new Error(`Query exceeded the ${QUERY_TIMEOUT_MS}ms time limit.`)
+          : new Error("Query was cancelled because another SQLite query exceeded the time limit.")), QUERY_TIMEOUT_MS);
+        pendingSqliteQueries.set(id, {
+          resolve: (rows) => { clearTimeout(timer); resolve(rows); },
+          reject: (error) => { clearTimeout(timer); reject(error); },
+        });
+        const request: SqliteRequest = { id, path, sql, params, maxRows };
+        worker.postMessage(request);
+      });
+    },
+  };
+}
+
+export function connectSql(uri: string): SqlConnection {
+  switch (sqlDialect(uri)) {
+    case "postgres":
+      return postgresConnection(uri);
+    case "mysql":
+      return mysqlConnection(uri);
+    case "sqlite":
+      return sqliteConnection(uri);
+    default:
+      throw new Error("Unsupported SQL database URI. Use postgres://, postgresql://, mysql:// or sqlite: (or a .db/.sqlite file path).");
+  }
+}
+
+// Postgres tables outside `public` keep their schema prefix
+function postgresTableName(schema: string, table: string): string {
+  return schema === "public" ? table : `${schema}.${table}`;
+}
+
+export async function listSqlTables(connection: SqlConnection): Promise<SqlTableInfo[]> {
+  switch (connection.dialect) {
+    case "postgres": {
+      const rows = await connection.readOnly(`
+        SELECT t.table_schema, t.table_name, t.table_type, s.n_live_tup AS row_estimate,
+               obj_description(format('%I.%I', t.table_schema, t.table_name)::regclass, 'pg_class') AS description
+        FROM information_schema.tables t
+        LEFT JOIN pg_stat_user_tables s ON s.schemaname = t.table_schema AND s.relname = t.table_name
+        WHERE t.table_schema NOT IN ('pg_catalog', 'information_schema')
+        ORDER BY t.table_schema, t.table_name`);
+      return rows.map(row => ({
+        name: postgresTableName(String(row.table_schema), String(row.table_name)),
+        type: String(row.table_type),
+        rowEstimate: row.row_estimate == null ? undefined : Number(row.row_estimate),
+        description: row.description ? String(row.description) : undefined,
+      }));
+    }
+    case "mysql": {
+      const rows = await connection.readOnly(`
+        SELECT TABLE_NAME AS table_name, TABLE_TYPE AS table_type, TABLE_ROWS AS row_estimate, TABLE_COMMENT AS description
+        FROM information_schema.TABLES
+        WHERE TABLE_SCHEMA = DATABASE()
+        ORDER BY TABLE_NAME`);
+      return rows.map(row => ({
+        name: String(row.table_name),
+        type: String(row.table_type),
+        rowEstimate: row.row_estimate == null ? undefined : Number(row.row_estimate),
+        description: row.description ? String(row.description) : undefined,
+      }));
+    }
+    case "sqlite": {
+      const rows = await connection.readOnly(
+        "SELECT name, type FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY name");
+      const tables: SqlTableInfo[] = [];
+      for (const row of rows) {
+        const name = String(row.name);
+        // SQLite keeps no statistics, but counting is cheap on the in-memory copy
+        const [count] = await connection.readOnly(`SELECT COUNT(*) AS count FROM ${quoteIdentifier("sqlite", name)}`);
+        tables.push({ name, type: String(row.type), rowEstimate: Number(count?.count ?? 0) });
+      }
+      return tables;
+    }
+  }
+}
+
+async function postgresCatalog(connection: SqlConnection): Promise<{ columns: CatalogColumn[], keys: CatalogKey[] }> {
+  const columns = await connection.readOnly(`
+    SELECT c.table_schema, c.table_name, c.column_name, c.is_nullable,
+           CASE WHEN c.data_type IN ('USER-DEFINED', 'ARRAY') THEN c.udt_name
+                WHEN c.character_maximum_length IS NOT NULL THEN c.data_type || '(' || c.character_maximum_length || ')'
+                WHEN c.data_type = 'numeric' AND c.numeric_precision IS NOT NULL THEN 'numeric(' || c.numeric_precision || ',' || c.numeric_scale || ')'
+                ELSE c.data_type END AS type,
+           col_description(format('%I.%I', c.table_schema, c.table_name)::regclass, c.ordinal_position) AS description
+    FROM information_schema.columns c
+    JOIN information_schema.tables t ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+    WHERE c.table_schema NOT IN ('pg_catalog', 'information_schema')
+    ORDER BY c.table_schema, c.table_name, c.ordinal_position`);
+
+  const keys = await connection.readOnly(`
+    SELECT con.contype, con.conname, ns.nspname AS table_schema, cl.relname AS table_name, att.attname AS column_name,
+           fns.nspname AS foreign_schema, fcl.relname AS foreign_table, fatt.attname AS foreign_column
+    FROM pg_constraint con
+    JOIN pg_class cl ON cl.oid = con.conrelid
+    JOIN pg_namespace ns ON ns.oid = cl.relnamespace
+    CROSS JOIN LATERAL unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+    JOIN pg_attribute att ON att.attrelid = con.conrelid AND att.attnum = k.attnum
+    LEFT JOIN pg_class fcl ON fcl.oid = con.confrelid
+    LEFT JOIN pg_namespace fns ON fns.oid = fcl.relnamespace
+    LEFT JOIN pg_attribute fatt ON fatt.attrelid = con.confrelid AND fatt.attnum = con.confkey[k.ord::int]
+    WHERE con.contype IN ('p', 'f', 'u') AND ns.nspname NOT IN ('pg_catalog', 'information_schema')
+    ORDER BY ns.nspname, cl.relname, con.conname, k.ord`);
+
+  return {
+    columns: columns.map(row => ({
+      table: postgresTableName(String(row.table_schema), String(row.table_name)),
+      column: String(row.column_name),
+      type: String(row.type),
+      nullable: row.is_nullable === "YES",
+      description: row.description ? String(row.description) : undefined,
+    })),
+    keys: keys.map(row => ({
+      kind: String(row.contype) as CatalogKey["kind"],
+      constraint: `${row.table_schema}.${row.conname}`,
+      table: postgresTableName(String(row.table_schema), String(row.table_name)),
+      column: String(row.column_name),
+      foreignTable: row.foreign_table ? postgresTableName(String(row.foreign_schema), String(row.foreign_table)) : undefined,
+      foreignColumn: row.foreign_column ? String(row.foreign_column) : undefined,
+    })),
+  };
+}
+
+async function mysqlCatalog(connection: SqlConnection): Promise<{ columns: CatalogColumn[], keys: CatalogKey[] }> {
+  const columns = await connection.readOnly(`
+    SELECT TABLE_NAME AS table_name, COLUMN_NAME AS column_name, COLUMN_TYPE AS type,
+           IS_NULLABLE AS is_nullable, COLUMN_COMMENT AS description
+    FROM information_schema.COLUMNS
+    WHERE TABLE_SCHEMA = DATABASE()
+    ORDER BY TABLE_NAME, ORDINAL_POSITION`);
+
+  const keys = await connection.readOnly(`
+    SELECT t.CONSTRAINT_TYPE AS constraint_type, k.CONSTRAINT_NAME AS constraint_name, k.TABLE_NAME AS table_name,
+           k.COLUMN_NAME AS column_name, k.REFERENCED_TABLE_NAME AS foreign_table, k.REFERENCED_COLUMN_NAME AS foreign_column
+    FROM information_schema.KEY_COLUMN_USAGE k
+    JOIN information_schema.TABLE_CONSTRAINTS t
+      ON t.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA AND t.TABLE_NAME = k.TABLE_NAME AND t.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+    WHERE k.TABLE_SCHEMA = DATABASE()
+    ORDER BY k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION`);
+
+  const kinds: Record<string, CatalogKey["kind"]> = { "PRIMARY KEY": "p", "FOREIGN KEY": "f", "UNIQUE": "u" };
+
+  return {
+    columns: columns.map(row => ({
+      table: String(row.table_name),
+      column: String(row.column_name),
+      type: String(row.type),
+      nullable: row.is_nullable === "YES",
+      description: row.description ? String(row.description) : undefined,
+    })),
+    keys: keys
+      .filter(row => kinds[String(row.constraint_type)])
+      .map(row => ({
+        kind: kinds[String(row.constraint_type)],
+        constraint: `${row.table_name}.${row.constraint_name}`,
+        table: String(row.table_name),
+        column: String(row.column_name),
+        foreignTable: row.foreign_table ? String(row.foreign_table) : undefined,
+        foreignColumn: row.foreign_column ? String(row.foreign_column) : undefined,
+      })),
+  };
+}
+
+async function sqliteCatalog(connection: SqlConnection): Promise<{ columns: CatalogColumn[], keys: CatalogKey[] }> {
+  const columns: CatalogColumn[] = [];
+  const keys: CatalogKey[] = [];
+  const tables = await connection.readOnly(
+    "SELECT name FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY name");
+
+  for (const { name } of tables) {
+    const table = String(name);
+
+    const info = await connection.readOnly("SELECT * FROM pragma_table_info(?) ORDER BY cid", [table]);
+    for (const row of info) {
+      columns.push({ table, column: String(row.name), type: String(row.type || "unknown"), nullable: !row.notnull && !row.pk });
+    }
+    // `pk` is the 1-based position within the primary key
+    info.filter(row => Number(row.pk) > 0)
+      .sort((a, b) => Number(a.pk) - Number(b.pk))
+      .forEach(row => keys.push({ kind: "p", constraint: `${table}.pk`, table, column: String(row.name) }));
+
+    const foreignKeys = await connection.readOnly("SELECT * FROM pragma_foreign_key_list(?) ORDER BY id, seq", [table]);
+    for (const row of foreignKeys) {
+      keys.push({
+        kind: "f",
+        constraint: `${table}.fk${row.id}`,
+        table,
+        column: String(row.from),
+        foreignTable: String(row.table),
+        foreignColumn: row.to == null ? undefined : String(row.to),
+      });
+    }
+
+    const indexes = await connection.readOnly('SELECT * FROM pragma_index_list(?) WHERE "unique" = 1', [table]);
+    for (const index of indexes) {
+      const indexColumns = await connection.readOnly("SELECT name FROM pragma_index_info(?)", [index.name]);
+      indexColumns.forEach(row => keys.push({ kind: "u", constraint: `${table}.${index.name}`, table, column: String(row.name) }));
+    }
+  }
+
+  return { columns, keys };
+}
+
+// Reads the catalog into the same `{ tables: [...] }` document the ERD API returns
+export async function introspectSqlSchema(connection: SqlConnection): Promise<{ tables: ErdTable[] }> {
+  const catalog = connection.dialect === "postgres"
+    ? await postgresCatalog(connection)
+    : connection.dialect === "mysql"
+      ? await mysqlCatalog(connection)
+      : await sqliteCatalog(connection);
+
+  const builder = new ErdBuilder();
+  // SQLite has no table comments, and counting its rows here would be wasted work
+  if (connection.dialect !== "sqlite") {
+    for (const table of await listSqlTables(connection)) {
+      builder.table(table.name, table.description);
+    }
+  }
+
+  for (const column of catalog.columns) {
+    builder.column(column.table, {
+      name: column.column,
+      type: column.type,
+      ...(column.description ? { description: column.description } : {}),
+      required: !column.nullable,
+    });
+  }
+
+  const constraints = new Map<string, CatalogKey[]>();
+  for (const key of catalog.keys) {
+    constraints.set(key.constraint, [...(constraints.get(key.constraint) || []), key]);
+  }
+
+  for (const keys of Array.from(constraints.values())) {
+    const [first] = keys;
+    if (first.kind === "p") {
+      builder.primaryKey(first.table, keys.map(key => key.column));
+    } else if (first.kind === "u" && keys.length === 1) {
+      builder.markUnique(first.table, first.column);
+    }
+  }
+
+  for (const keys of Array.from(constraints.values())) {
+    const [first] = keys;
+    if (first.kind === "f" && first.foreignTable) {
+      builder.reference({
+        sourceTable: first.table,
+        sourceColumns: keys.map(key => key.column),
+        targetTable: first.foreignTable,
+        targetColumns: keys.every(key => key.foreignColumn) ? keys.map(key => key.foreignColumn!) : undefined,
+      });
+    }
+  }
+
+  return builder.build();
+}
+
+// The query runs as written and the connection stops reading after `limit` rows; one extra row
+// tells whether the result was cut off
+export async function runReadOnlyQuery(connection: SqlConnection, sql: string, limit: number): Promise<{ rows: Record<string, unknown>[], truncated: boolean }> {
+  assertReadOnlyQuery(sql, connection.dialect);
+
+  const rows = await connection.readOnly(sql.trim(), [], limit + 1);
+
+  return { rows: rows.slice(0, limit).map(toPlainRow), truncated: rows.length > limit };
+}
+
+// JSON-safe row values: binary data is summarised, BigInts become strings
+export function toPlainRow(row: Record<string, unknown>): Record<string, unknown> {
+  const plain: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (value instanceof Uint8Array) {
+      plain[key] = `<${value.length} bytes>`;
+    } else if (typeof value === "bigint") {
+      plain[key] = value.toString();
+    } else {
+      plain[key] = value;
+    }
+  }
+  return plain;
+}
@@ -0,0 +1,59 @@
+// Worker thread for SQLite queries. sql.js runs synchronously, so a runaway query would block the
+// server's event loop; here it only blocks this worker, which sqlDatabase terminates when the
+// query overruns its time limit. sql.js keeps each database in memory, so nothing a query does
+// can reach the file; the file is re-read when it changes on disk.
+import { promises as fs } from "fs";
+import initSqlJs, { Database } from "sql.js";
+import { parentPort } from "worker_threads";
+
+export interface SqliteRequest {
+  id: number;
+  path: string;
+  sql: string;
+  params: unknown[];
+  maxRows?: number;
+}
+
+export type SqliteResponse =
+  | { id: number, rows: Record<string, unknown>[] }
+  | { id: number, error: string };
+
+const databases = new Map<string, { database: Database, modified: number }>();
+const sqlJs = initSqlJs();
+
+async function runQuery({ path, sql, params, maxRows }: SqliteRequest): Promise<Record<string, unknown>[]> {
+  const stat = await fs.stat(path);
+  let cached = databases.get(path);
+
+  if (!cached || cached.modified !== stat.mtimeMs) {
+    const SQL = await sqlJs;
+    cached?.database.close();
+    cached = { database: new SQL.Database(await fs.readFile(path)), modified: stat.mtimeMs };
+    databases.set(path, cached);
+  }
+
+  const statement = cached.database.prepare(sql, params as any[]);
+  const rows: Record<string, unknown>[] = [];
+  try {
+    while ((maxRows === undefined || rows.length < maxRows) && statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+  } finally {
+    statement.free();
+  }
+  return rows;
+}
+
+function respond(response: SqliteResponse) {
+  parentPort!.postMessage(response);
+}
+
+// Requests run one at a time, so a database is never loaded twice
+let queue: Promise<void> = Promise.resolve();
+
+parentPort?.on("message", (request: SqliteRequest) => {
+  queue = queue.then(() => runQuery(request).then(
+    rows => respond({ id: request.id, rows }),
+    (error: Error) => respond({ id: request.id, error: error.message }),
+  ));
+});
@@ -0,0 +1,358 @@
+// Compares two Swagger/OpenAPI documents and classifies the changes as breaking or non-breaking.
+import { promises as fs } from "fs";
+import { dirname, isAbsolute, relative, resolve, sep } from "path";
+import { fileURLToPath } from "url";
+import { getConfigPath } from "./backendConfig.js";
+import { isRemoteSource } from "./documentLoader.js";
+import {
+  isUnexpandedReference,
+  normalizeSpec,
+  NormalizedOperation,
+  NormalizedParameter,
+  NormalizedSchema,
+} from "./swaggerSpec.js";
+
+const MAX_FIELD_DEPTH = 12;
+const ROOT_FIELD = "(root)";
+
+export interface SwaggerChange {
+  kind: string;
+  breaking: boolean;
+  endpoint: string;
+  location?: string;
+  message: string;
+}
+
+export interface SwaggerDiff {
+  summary: {
+    endpointsAdded: number;
+    endpointsRemoved: number;
+    endpointsChanged: number;
+    breaking: number;
+    nonBreaking: number;
+  };
+  breaking: SwaggerChange[];
+  nonBreaking: SwaggerChange[];
+}
+
+interface FieldInfo {
+  schema: NormalizedSchema;
+  required: boolean;
+}
+
+// Request fields are written by the client, response fields are read by it; rules differ per direction
+type Direction = "request" | "response";
+
+function endpointKey(operation: NormalizedOperation): string {
+  return `${operation.method.toUpperCase()} ${operation.path}`;
+}
+
+// Compares shapes rather than model names so renaming a model is not reported as a type change
+function structuralType(schema: NormalizedSchema): string {
+  if (schema.variants) {
+    return schema.variants.map(variant => structuralType(variant)).sort().join(" | ");
+  }
+  if (schema.type === "array") {
+    return `${schema.items ? structuralType(schema.items) : "any"}[]`;
+  }
+  return schema.format ? `${schema.type}(${schema.format})` : schema.type;
+}
+
+function collectFields(schema: NormalizedSchema | undefined): Map<string, FieldInfo> {
+  const fields = new Map<string, FieldInfo>();
+  if (!schema) {
+    return fields;
+  }
+
+  const visit = (current: NormalizedSchema, path: string, depth: number) => {
+    if (isUnexpandedReference(current) || depth > MAX_FIELD_DEPTH) {
+      return;
+    }
+
+    if (current.type === "array" && current.items) {
+      const itemPath = `${path === ROOT_FIELD ? "" : path}[]`;
+      fields.set(itemPath, { schema: current.items, required: true });
+      visit(current.items, itemPath, depth + 1);
+      return;
+    }
+
+    (current.variants || []).forEach(variant => visit(variant, path, depth + 1));
+
+    for (const [name, prop] of Object.entries(current.properties || {})) {
+      const fieldPath = path === ROOT_FIELD ? name : `${path}.${name}`;
+      if (!fields.has(fieldPath)) {
+        fields.set(fieldPath, { schema: prop, required: (current.required || []).includes(name) });
+        visit(prop, fieldPath, depth + 1);
+      }
+    }
+  };
+
+  fields.set(ROOT_FIELD, { schema, required: true });
+  visit(schema, ROOT_FIELD, 0);
+  return fields;
+}
+
+function diffEnum(
+  before: NormalizedSchema,
+  after: NormalizedSchema,
+  direction: Direction,
+  push: (kind: string, breaking: boolean, message: string) => void
+) {
+  if (!before.enum && !after.enum) {
+    return;
+  }
+
+  const oldValues = (before.enum || []).map(value => JSON.stringify(value));
+  const newValues = (after.enum || []).map(value => JSON.stringify(value));
+  const added = newValues.filter(value => !oldValues.includes(value));
+  const removed = oldValues.filter(value => !newValues.includes(value));
+
+  // Unconstrained -> constrained removes every other value, constrained -> unconstrained adds them
+  if (before.enum && added.length > 0) {
+    push("enum-values-added", direction === "response", `enum values added: ${added.join(", ")}`);
+  }
+  if (after.enum && removed.length > 0) {
+    push("enum-values-removed", direction === "request", `enum values removed: ${removed.join(", ")}`);
+  }
+  if (!before.enum && after.enum) {
+    push("enum-added", direction === "request", `now restricted to enum: ${newValues.join(", ")}`);
+  }
+  if (before.enum && !after.enum) {
+    push("enum-removed", direction === "response", "enum restriction removed");
+  }
+}
+
+function diffSchemas(
+  before: NormalizedSchema | undefined,
+  after: NormalizedSchema | undefined,
+  direction: Direction,
+  endpoint: string,
+  location: string,
+  changes: SwaggerChange[]
+) {
+  const oldFields = collectFields(before);
+  const newFields = collectFields(after);
+
+  for (const [path, newField] of newFields) {
+    const fieldLocation = path === ROOT_FIELD ? location : `${location} field \`${path}\``;
+    const push = (kind: string, breaking: boolean, message: string) =>
+      changes.push({ kind, breaking, endpoint, location: fieldLocation, message });
+    const oldField = oldFields.get(path);
+
+    if (!oldField) {
+      if (direction === "request" && newField.required) {
+        push("field-added", true, "new required field");
+      } else {
+        push("field-added", false, newField.required ? "new field" : "new optional field");
+      }
+      continue;
+    }
+
+    const oldType = structuralType(oldField.schema);
+    const newType = structuralType(newField.schema);
+    if (oldType !== newType) {
+      push("field-type-changed", true, `type changed from \`${oldType}\` to \`${newType}\``);
+    }
+
+    if (!oldField.required && newField.required) {
+      push("field-required", direction === "request", "field became required");
+    } else if (oldField.required && !newField.required) {
+      push("field-optional", direction === "response", "field became optional");
+    }
+
+    diffEnum(oldField.schema, newField.schema, direction, push);
+  }
+
+  for (const [path] of oldFields) {
+    if (!newFields.has(path)) {
+      changes.push({
+        kind: "field-removed",
+        breaking: true,
+        endpoint,
+        location: `${location} field \`${path}\``,
+        message: "field removed",
+      });
+    }
+  }
+}
+
+function parameterKey(param: NormalizedParameter): string {
+  return `${param.in}:${param.name}`;
+}
+
+function diffParameters(before: NormalizedOperation, after: NormalizedOperation, endpoint: string, changes: SwaggerChange[]) {
+  const oldParams = new Map(before.parameters.map(param => [parameterKey(param), param]));
+  const newParams = new Map(after.parameters.map(param => [parameterKey(param), param]));
+
+  for (const [key, newParam] of newParams) {
+    const location = `${newParam.in} parameter \`${newParam.name}\``;
+    const push = (kind: string, breaking: boolean, message: string) =>
+      changes.push({ kind, breaking, endpoint, location, message });
+    const oldParam = oldParams.get(key);
+
+    if (!oldParam) {
+      push("parameter-added", newParam.required, newParam.required ? "new required parameter" : "new optional parameter");
+      continue;
+    }
+
+    if (!oldParam.required && newParam.required) {
+      push("parameter-required", true, "parameter became required");
+    } else if (oldParam.required && !newParam.required) {
+      push("parameter-optional", false, "parameter became optional");
+    }
+
+    const oldType = structuralType(oldParam.schema);
+    const newType = structuralType(newParam.schema);
+    if (oldType !== newType) {
+      push("parameter-type-changed", true, `type changed from \`${oldType}\` to \`${newType}\``);
+    }
+
+    diffEnum(oldParam.schema, newParam.schema, "request", push);
+  }
+
+  for (const [key, oldParam] of oldParams) {
+    if (!newParams.has(key)) {
+      changes.push({
+        kind: "parameter-removed",
+        breaking: true,
+        endpoint,
+        location: `${oldParam.in} parameter \`${oldParam.name}\``,
+        message: "parameter removed",
+      });
+    }
+  }
+}
+
+function diffOperation(before: NormalizedOperation, after: NormalizedOperation, changes: SwaggerChange[]) {
+  const endpoint = endpointKey(after);
+
+  if (!before.deprecated && after.deprecated) {
+    changes.push({ kind: "endpoint-deprecated", breaking: false, endpoint, message: "endpoint deprecated" });
+  }
+
+  diffParameters(before, after, endpoint, changes);
+
+  const oldBody = before.requestBody;
+  const newBody = after.requestBody;
+  if (!oldBody && newBody) {
+    changes.push({
+      kind: "request-body-added",
+      breaking: newBody.required,
+      endpoint,
+      message: newBody.required ? "required request body added" : "optional request body added",
+    });
+  } else if (oldBody && !newBody) {
+    changes.push({ kind: "request-body-removed", breaking: true, endpoint, message: "request body removed" });
+  } else if (oldBody && newBody) {
+    if (!oldBody.required && newBody.required) {
+      changes.push({ kind: "request-body-required", breaking: true, endpoint, message: "request body became required" });
+    }
+    if (oldBody.contentType !== newBody.contentType) {
+      changes.push({
+        kind: "request-content-type-changed",
+        breaking: true,
+        endpoint,
+        message: `request content type changed from \`${oldBody.contentType}\` to \`${newBody.contentType}\``,
+      });
+    }
+    diffSchemas(oldBody.schema, newBody.schema, "request", endpoint, "request body", changes);
+  }
+
+  const oldResponses = new Map(before.responses.map(response => [response.status, response]));
+  const newResponses = new Map(after.responses.map(response => [response.status, response]));
+
+  for (const [status, newResponse] of newResponses) {
+    const oldResponse = oldResponses.get(status);
+    if (!oldResponse) {
+      changes.push({ kind: "response-added", breaking: false, endpoint, location: `response ${status}`, message: "response status added" });
+      continue;
+    }
+    diffSchemas(oldResponse.schema, newResponse.schema, "response", endpoint, `response ${status}`, changes);
+  }
+
+  for (const [status] of oldResponses) {
+    if (!newResponses.has(status)) {
+      // Dropping a success response changes what clients receive; dropping an error response does not
+      changes.push({
+        kind: "response-removed",
+        breaking: /^2/.test(status),
+        endpoint,
+        location: `response ${status}`,
+        message: "response status removed",
+      });
+    }
+  }
+}
+
+export function diffSwaggerDocuments(baselineDoc: any, currentDoc: any): SwaggerDiff {
+  const oldOperations = new Map(normalizeSpec(baselineDoc).operations.map(op => [endpointKey(op), op]));
+  const newOperations = new Map(normalizeSpec(currentDoc).operations.map(op => [endpointKey(op), op]));
+  const changes: SwaggerChange[] = [];
+  const changedEndpoints = new Set<string>();
+  let endpointsAdded = 0;
+  let endpointsRemoved = 0;
+
+  for (const [key, operation] of newOperations) {
+    const baseline = oldOperations.get(key);
+    if (!baseline) {
+      endpointsAdded++;
+      changes.push({ kind: "endpoint-added", breaking: false, endpoint: key, message: operation.summary || "endpoint added" });
+      continue;
+    }
+
+    const before = changes.length;
+    diffOperation(baseline, operation, changes);
+    if (changes.length > before) {
+      changedEndpoints.add(key);
+    }
+  }
+
+  for (const [key] of oldOperations) {
+    if (!newOperations.has(key)) {
+      endpointsRemoved++;
+      changes.push({ kind: "endpoint-removed", breaking: true, endpoint: key, message: "endpoint removed" });
+    }
+  }
+
+  const breaking = changes.filter(change => change.breaking);
+  const nonBreaking = changes.filter(change => !change.breaking);
+
+  return {
+    summary: {
+      endpointsAdded,
+      endpointsRemoved,
+      endpointsChanged: changedEndpoints.size,
+      breaking: breaking.length,
+      nonBreaking: nonBreaking.length,
+    },
+    breaking,
+    nonBreaking,
+  };
+}
+
+// The baseline is chosen by the caller, so it may only be an http(s) URL or a file inside the
+// directory of the backends config file (BACKEND_EXPLORER_CONFIG); relative paths start there.
+// Returns the URL or the real path of the file.
+export async function resolveBaselineSource(baseline: string): Promise<string> {
+  if (isRemoteSource(baseline)) {
+    return baseline;
+  }
+  if (/^[a-z][a-z0-9+.-]+:/i.test(baseline) && !/^file:\/\//i.test(baseline)) {
+    throw new Error(`Unsupported baseline '${baseline}': use an http(s) URL or a file in the config directory`);
+  }
+
+  const configPath = getConfigPath();
+  if (!configPath) {
+    throw new Error("Local baseline files are read from the directory of the backends config file, and BACKEND_EXPLORER_CONFIG is not set. Use an http(s) URL instead.");
+  }
+
+  const directory = await fs.realpath(dirname(resolve(configPath)));
+  const path = /^file:\/\//i.test(baseline) ? fileURLToPath(baseline) : resolve(directory, baseline);
+  // Symlinks are followed before the check, so a link cannot point out of the directory
+  const realPath = await fs.realpath(path);
+  const relativePath = relative(directory, realPath);
+  if (relativePath === ".." || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath)) {
+    throw new Error(`Baseline '${baseline}' is outside the config directory ${directory}`);
+  }
+  return realPath;
+}
@@ -0,0 +1,269 @@
+// Path, method, tag and operationId filtering for Swagger/OpenAPI documents.
+import { HTTP_METHODS, isSwagger2, resolveRef } from "./swaggerSpec.js";
+
+const MAX_SUGGESTIONS = 5;
+
+export interface SwaggerFilter {
+  path?: string;
+  method?: string;
+  tag?: string;
+  operationId?: string;
+}
+
+export interface SwaggerFilterResult {
+  doc: any;
+  matchCount: number;
+  suggestions: string[];
+}
+
+export function hasSwaggerFilter(filter: SwaggerFilter): boolean {
+  return !!(filter.path || filter.method || filter.tag || filter.operationId);
+}
+
+export function describeSwaggerFilter(filter: SwaggerFilter): string {
+  return Object.entries(filter)
+    .filter(([_, value]) => !!value)
+    .map(([key, value]) => `${key}: \`${value}\``)
+    .join(", ");
+}
+
+function splitSegments(path: string): string[] {
+  return path.split("/").filter(segment => segment.length > 0);
+}
+
+function isTemplateSegment(segment: string): boolean {
+  return /^\{[^}]+\}$/.test(segment);
+}
+
+function segmentsMatch(specSegment: string, patternSegment: string): boolean {
+  return isTemplateSegment(specSegment)
+    || isTemplateSegment(patternSegment)
+    || specSegment.toLowerCase() === patternSegment.toLowerCase();
+}
+
+// `/users/123` matches `/users/{id}`
+function matchesTemplate(specPath: string, pattern: string): boolean {
+  const specSegments = splitSegments(specPath);
+  const patternSegments = splitSegments(pattern);
+
+  return specSegments.length === patternSegments.length
+    && specSegments.every((segment, i) => segmentsMatch(segment, patternSegments[i]));
+}
+
+// `/users` matches `/api/v1/users/{id}` (pattern segments appear contiguously in the path)
+function containsSegments(specPath: string, pattern: string): boolean {
+  const specSegments = splitSegments(specPath);
+  const patternSegments = splitSegments(pattern);
+
+  if (patternSegments.length === 0) {
+    return true;
+  }
+
+  for (let start = 0; start + patternSegments.length <= specSegments.length; start++) {
+    const window = specSegments.slice(start, start + patternSegments.length);
+    // At least one literal segment must match so `{id}` alone does not match everything
+    const hasLiteralMatch = window.some((segment, i) =>
+      !isTemplateSegment(segment) && segment.toLowerCase() === patternSegments[i].toLowerCase());
+
+    if (hasLiteralMatch && window.every((segment, i) => segmentsMatch(segment, patternSegments[i]))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// `*` matches within one segment, `**` matches across segments
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("**")
+    .map(part => part
+      .split("*")
+      .map(literal => literal.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join("[^/]*"))
+    .join(".*");
+
+  return new RegExp(`^${source}/?$`, "i");
+}
+
+// Server base paths (`basePath` / `servers[].url`) that may prefix user-supplied paths
+function getBasePaths(doc: any): string[] {
+  const basePaths: string[] = [];
+
+  if (isSwagger2(doc)) {
+    if (doc.basePath && doc.basePath !== "/") {
+      basePaths.push(doc.basePath);
+    }
+  } else if (Array.isArray(doc.servers)) {
+    for (const server of doc.servers) {
+      const match = typeof server?.url === "string" ? server.url.match(/^(?:[a-z]+:\/\/[^/]+)?(\/[^?#]*)/i) : null;
+      if (match && match[1] !== "/") {
+        basePaths.push(match[1].replace(/\/$/, ""));
+      }
+    }
+  }
+
+  return basePaths;
+}
+
+function matchPaths(pathKeys: string[], pattern: string, basePaths: string[]): string[] {
+  const candidates = [pattern];
+  for (const basePath of basePaths) {
+    if (pattern.toLowerCase().startsWith(basePath.toLowerCase())) {
+      candidates.push(pattern.slice(basePath.length) || "/");
+    }
+  }
+
+  if (pattern.includes("*")) {
+    const regexes = candidates.map(candidate => globToRegExp(candidate));
+    return pathKeys.filter(key => regexes.some(regex => regex.test(key)));
+  }
+
+  const exact = pathKeys.filter(key => candidates.some(candidate => key === candidate));
+  if (exact.length > 0) {
+    return exact;
+  }
+
+  const templated = pathKeys.filter(key => candidates.some(candidate => matchesTemplate(key, candidate)));
+  if (templated.length > 0) {
+    return templated;
+  }
+
+  return pathKeys.filter(key => candidates.some(candidate => containsSegments(key, candidate)));
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
+
+export function closestMatches(target: string, candidates: string[], limit = MAX_SUGGESTIONS): string[] {
+  const needle = target.toLowerCase();
+
+  return Array.from(new Set(candidates))
+    .map(candidate => {
+      const haystack = candidate.toLowerCase();
+      // Substring hits rank ahead of anything scored by edit distance
+      const distance = haystack.includes(needle) || needle.includes(haystack)
+        ? Math.abs(haystack.length - needle.length) / 100
+        : levenshtein(needle, haystack);
+      return { candidate, distance };
+    })
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(entry => entry.candidate);
+}
+
+export function filterSwaggerDocument(doc: any, filter: SwaggerFilter): SwaggerFilterResult {
+  const rawPaths: Record<string, any> = doc?.paths || {};
+  const pathKeys = Object.keys(rawPaths);
+  const methods = filter.method
+    ? filter.method.toLowerCase().split(/[\s,|]+/).filter(method => method.length > 0)
+    : undefined;
+  const tag = filter.tag?.toLowerCase();
+  const operationId = filter.operationId?.toLowerCase();
+
+  const selectedPaths = filter.path ? matchPaths(pathKeys, filter.path, getBasePaths(doc)) : pathKeys;
+  const paths: Record<string, any> = {};
+  let matchCount = 0;
+
+  for (const path of selectedPaths) {
+    const rawPathItem = rawPaths[path];
+    const pathItem = typeof rawPathItem?.$ref === "string" ? resolveRef(doc, rawPathItem.$ref) || {} : rawPathItem || {};
+    const filteredItem: Record<string, any> = {};
+    let hasOperation = false;
+
+    for (const [key, value] of Object.entries(pathItem)) {
+      if (!HTTP_METHODS.includes(key)) {
+        filteredItem[key] = value;
+        continue;
+      }
+
+      const operation: any = value;
+      if (methods && !methods.includes(key)) {
+        continue;
+      }
+      if (tag && !(operation.tags || []).some((t: string) => t.toLowerCase() === tag)) {
+        continue;
+      }
+      if (operationId && operation.operationId?.toLowerCase() !== operationId) {
+        continue;
+      }
+
+      filteredItem[key] = operation;
+      hasOperation = true;
+      matchCount++;
+    }
+
+    if (hasOperation) {
+      paths[path] = filteredItem;
+    }
+  }
+
+  let suggestions: string[] = [];
+  if (matchCount === 0) {
+    suggestions = buildSuggestions(doc, filter);
+  }
+
+  return {
+    doc: { ...doc, paths },
+    matchCount,
+    suggestions,
+  };
+}
+
+function buildSuggestions(doc: any, filter: SwaggerFilter): string[] {
+  const operations: { path: string; method: string; operationId?: string; tags: string[] }[] = [];
+
+  for (const [path, rawPathItem] of Object.entries<any>(doc?.paths || {})) {
+    const pathItem = typeof rawPathItem?.$ref === "string" ? resolveRef(doc, rawPathItem.$ref) || {} : rawPathItem || {};
+    for (const method of HTTP_METHODS) {
+      if (pathItem[method]) {
+        operations.push({
+          path,
+          method,
+          operationId: pathItem[method].operationId,
+          tags: pathItem[method].tags || [],
+        });
+      }
+    }
+  }
+
+  if (filter.operationId) {
+    const ids = operations.filter(op => op.operationId).map(op => op.operationId as string);
+    return closestMatches(filter.operationId, ids);
+  }
+
+  if (filter.path) {
+    const labels = new Map<string, string>();
+    operations.forEach(op => {
+      const methods = labels.get(op.path);
+      labels.set(op.path, methods ? `${methods}, ${op.method.toUpperCase()}` : op.method.toUpperCase());
+    });
+    return closestMatches(filter.path, Array.from(labels.keys()))
+      .map(path => `${labels.get(path)} ${path}`);
+  }
+
+  if (filter.tag) {
+    const tags = operations.flatMap(op => op.tags);
+    return closestMatches(filter.tag, tags);
+  }
+
+  return [];
+}
@@ -0,0 +1,598 @@
+// Normalizes Swagger 2.0 and OpenAPI 3.x documents into a single model and
+// dereferences local `$ref` pointers so tools can render the real fields.
+
+export const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+// Guards against very deep (or pathological) schema trees
+const MAX_SCHEMA_DEPTH = 12;
+
+export interface NormalizedSchema {
+  type: string;
+  format?: string;
+  description?: string;
+  refName?: string;
+  properties?: Record<string, NormalizedSchema>;
+  required?: string[];
+  items?: NormalizedSchema;
+  additionalProperties?: NormalizedSchema;
+  enum?: any[];
+  nullable?: boolean;
+  combinator?: "oneOf" | "anyOf";
+  variants?: NormalizedSchema[];
+  circular?: boolean;
+}
+
+export interface NormalizedParameter {
+  name: string;
+  in: string;
+  required: boolean;
+  description?: string;
+  schema: NormalizedSchema;
+}
+
+export interface NormalizedRequestBody {
+  required: boolean;
+  description?: string;
+  contentType?: string;
+  schema?: NormalizedSchema;
+}
+
+export interface NormalizedResponse {
+  status: string;
+  description?: string;
+  contentType?: string;
+  schema?: NormalizedSchema;
+}
+
+export interface NormalizedOperation {
+  path: string;
+  method: string;
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags: string[];
+  deprecated: boolean;
+  parameters: NormalizedParameter[];
+  requestBody?: NormalizedRequestBody;
+  responses: NormalizedResponse[];
+}
+
+export interface NormalizedSpec {
+  specVersion: string;
+  info: {
+    title?: string;
+    description?: string;
+    version?: string;
+  };
+  servers: string[];
+  operations: NormalizedOperation[];
+}
+
+export interface EndpointSummary {
+  method: string;
+  path: string;
+  operationId?: string;
+  tags: string[];
+  summary?: string;
+  deprecated: boolean;
+}
+
+export interface TaggedEndpoint {
+  tag: string;
+  endpoint: EndpointSummary;
+}
+
+export interface SchemaRow {
+  name: string;
+  type: string;
+  required: boolean;
+  description: string;
+}
+
+// Resolved `$ref` targets are cached per document so shared models are only expanded once
+const refCache = new WeakMap<object, Map<string, NormalizedSchema>>();
+
+// Marks a resolution that stopped at MAX_SCHEMA_DEPTH, among the refs it found on the stack
+const DEPTH_CUT = "#depth";
+
+export function isSwagger2(doc: any): boolean {
+  return typeof doc?.swagger === "string" && doc.swagger.startsWith("2");
+}
+
+// `~1` and `~0` escape `/` and `~` in JSON Pointer segments, and a `$ref` URI fragment is also
+// percent-encoded. A stray `%` that is not an escape is kept as written.
+function decodePointerSegment(segment: string): string {
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    // Malformed percent-encoding
+  }
+  return decoded.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+function encodePointerSegment(name: string): string {
+  return encodeURIComponent(name.replace(/~/g, "~0").replace(/\//g, "~1"));
+}
+
+export function resolveRef(doc: any, ref: string): any {
+  if (!ref.startsWith("#/")) {
+    return undefined;
+  }
+
+  let current = doc;
+  for (const segment of ref.slice(2).split("/")) {
+    const key = decodePointerSegment(segment);
+    if (current === null || typeof current !== "object" || !(key in current)) {
+      return undefined;
+    }
+    current = current[key];
+  }
+
+  return current;
+}
+
+// Follows `$ref` chains on non-schema objects (parameters, responses, request bodies)
+function resolveObject(doc: any, value: any): any {
+  const seen = new Set<string>();
+  let current = value;
+
+  while (current && typeof current.$ref === "string" && !seen.has(current.$ref)) {
+    seen.add(current.$ref);
+    current = resolveRef(doc, current.$ref);
+  }
+
+  return current;
+}
+
+export function dereferenceSchema(doc: any, schema: any, stack: string[] = []): NormalizedSchema {
+  return dereference(doc, schema, stack, new Set());
+}
+
+// A reference left unexpanded because of a cycle or the depth limit. An allOf that merged one is
+// marked circular too, but keeps the properties of its other members.
+export function isUnexpandedReference(schema: NormalizedSchema): boolean {
+  return schema.circular === true && !schema.properties;
+}
+
+// `cuts` collects why the result is incomplete: refs found further up the stack, and DEPTH_CUT.
+// Only a result that depends on neither is cached, since elsewhere it may expand further.
+function dereference(doc: any, schema: any, stack: string[], cuts: Set<string>): NormalizedSchema {
+  if (!schema || typeof schema !== "object") {
+    return { type: "any" };
+  }
+
+  if (typeof schema.$ref === "string") {
+    const ref: string = schema.$ref;
+    const refName = decodePointerSegment(ref.split("/").pop() || ref);
+
+    if (stack.includes(ref) || stack.length >= MAX_SCHEMA_DEPTH) {
+      cuts.add(stack.includes(ref) ? ref : DEPTH_CUT);
+      return { type: "object", refName, circular: true };
+    }
+
+    let cache = refCache.get(doc);
+    if (!cache) {
+      cache = new Map();
+      refCache.set(doc, cache);
+    }
+
+    let resolved = cache.get(ref);
+    if (!resolved) {
+      const target = resolveRef(doc, ref);
+      if (target === undefined) {
+        return { type: "unknown", refName, description: `Unresolved reference ${ref}` };
+      }
+      const innerCuts = new Set<string>();
+      resolved = dereference(doc, target, [...stack, ref], innerCuts);
+      // A cycle back to this ref looks the same wherever the ref is used
+      innerCuts.delete(ref);
+      if (innerCuts.size === 0) {
+        cache.set(ref, resolved);
+      }
+      innerCuts.forEach(cut => cuts.add(cut));
+    }
+
+    return {
+      ...resolved,
+      refName,
+      description: schema.description || resolved.description,
+    };
+  }
+
+  const nextStack = stack.length >= MAX_SCHEMA_DEPTH ? stack : [...stack, ""];
+
+  if (Array.isArray(schema.allOf)) {
+    const merged: NormalizedSchema = {
+      type: "object",
+      description: schema.description,
+      properties: {},
+      required: [...(schema.required || [])],
+    };
+
+    const parts = [...schema.allOf];
+    if (schema.properties) {
+      parts.push({ type: "object", properties: schema.properties });
+    }
+
+    for (const part of parts) {
+      const resolvedPart = dereference(doc, part, nextStack, cuts);
+      Object.assign(merged.properties!, resolvedPart.properties || {});
+      merged.required!.push(...(resolvedPart.required || []));
+      merged.description = merged.description || resolvedPart.description;
+      if (resolvedPart.circular) {
+        merged.circular = true;
+      }
+    }
+
+    merged.required = Array.from(new Set(merged.required));
+    return merged;
+  }
+
+  const combinator = Array.isArray(schema.oneOf) ? "oneOf" : Array.isArray(schema.anyOf) ? "anyOf" : undefined;
+  if (combinator) {
+    return {
+      type: combinator,
+      combinator,
+      description: schema.description,
+      variants: schema[combinator].map((variant: any) => dereference(doc, variant, nextStack, cuts)),
+    };
+  }
+
+  let type = schema.type;
+  let nullable = schema.nullable === true || schema["x-nullable"] === true;
+
+  // OpenAPI 3.1 allows `type: ["string", "null"]`
+  if (Array.isArray(type)) {
+    nullable = nullable || type.includes("null");
+    type = type.find((t: string) => t !== "null") || "null";
+  }
+
+  if (!type) {
+    if (schema.properties || schema.additionalProperties) {
+      type = "object";
+    } else if (schema.items) {
+      type = "array";
+    } else {
+      type = "any";
+    }
+  }
+
+  const normalized: NormalizedSchema = { type };
+
+  if (schema.format) normalized.format = schema.format;
+  if (schema.description) normalized.description = schema.description;
+  if (Array.isArray(schema.enum)) normalized.enum = schema.enum;
+  if (nullable) normalized.nullable = true;
+
+  if (type === "array") {
+    normalized.items = dereference(doc, schema.items, nextStack, cuts);
+  }
+
+  if (schema.properties) {
+    normalized.properties = {};
+    for (const [name, propSchema] of Object.entries(schema.properties)) {
+      normalized.properties[name] = dereference(doc, propSchema, nextStack, cuts);
+    }
+    normalized.required = Array.isArray(schema.required) ? schema.required : [];
+  }
+
+  if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+    normalized.additionalProperties = dereference(doc, schema.additionalProperties, nextStack, cuts);
+  }
+
+  return normalized;
+}
+
+function pickContent(content: any): { contentType?: string; media?: any } {
+  if (!content || typeof content !== "object") {
+    return {};
+  }
+
+  const types = Object.keys(content);
+  const contentType = types.find(t => t === "application/json")
+    || types.find(t => t.includes("json"))
+    || types[0];
+
+  return contentType ? { contentType, media: content[contentType] } : {};
+}
+
+function normalizeParameters(doc: any, pathParams: any[], opParams: any[]): any[] {
+  const merged = new Map<string, any>();
+
+  for (const raw of [...(pathParams || []), ...(opParams || [])]) {
+    const param = resolveObject(doc, raw);
+    if (param && param.name) {
+      merged.set(`${param.in}:${param.name}`, param);
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+function normalizeOperation(doc: any, path: string, method: string, pathItem: any, op: any): NormalizedOperation {
+  const swagger2 = isSwagger2(doc);
+  const rawParams = normalizeParameters(doc, pathItem.parameters, op.parameters);
+
+  const operation: NormalizedOperation = {
+    path,
+    method,
+    operationId: op.operationId,
+    summary: op.summary,
+    description: op.description,
+    tags: Array.isArray(op.tags) ? op.tags : [],
+    deprecated: op.deprecated === true,
+    parameters: [],
+    responses: [],
+  };
+
+  if (swagger2) {
+    const consumes: string[] = op.consumes || doc.consumes || [];
+    const formFields: any[] = [];
+
+    for (const param of rawParams) {
+      if (param.in === "body") {
+        operation.requestBody = {
+          required: param.required === true,
+          description: param.description,
+          contentType: consumes.find(t => t.includes("json")) || consumes[0] || "application/json",
+          schema: dereferenceSchema(doc, param.schema),
+        };
+      } else if (param.in === "formData") {
+        formFields.push(param);
+      } else {
+        operation.parameters.push({
+          name: param.name,
+          in: param.in,
+          required: param.required === true || param.in === "path",
+          description: param.description,
+          schema: dereferenceSchema(doc, param),
+        });
+      }
+    }
+
+    if (formFields.length > 0 && !operation.requestBody) {
+      const properties: Record<string, any> = {};
+      for (const field of formFields) {
+        properties[field.name] = field;
+      }
+      operation.requestBody = {
+        required: formFields.some(field => field.required === true),
+        contentType: formFields.some(field => field.type === "file")
+          ? "multipart/form-data"
+          : consumes[0] || "application/x-www-form-urlencoded",
+        schema: dereferenceSchema(doc, {
+          type: "object",
+          properties,
+          required: formFields.filter(field => field.required === true).map(field => field.name),
+        }),
+      };
+    }
+  } else {
+    for (const param of rawParams) {
+      const { media } = pickContent(param.content);
+      operation.parameters.push({
+        name: param.name,
+        in: param.in,
+        required: param.required === true || param.in === "path",
+        description: param.description,
+        schema: dereferenceSchema(doc, param.schema || media?.schema),
+      });
+    }
+
+    const requestBody = resolveObject(doc, op.requestBody);
+    if (requestBody) {
+      const { contentType, media } = pickContent(requestBody.content);
+      operation.requestBody = {
+        required: requestBody.required === true,
+        description: requestBody.description,
+        contentType,
+        schema: media?.schema ? dereferenceSchema(doc, media.schema) : undefined,
+      };
+    }
+  }
+
+  const produces: string[] = op.produces || doc.produces || [];
+
+  for (const [status, rawResponse] of Object.entries(op.responses || {})) {
+    const response = resolveObject(doc, rawResponse) || {};
+    const normalized: NormalizedResponse = {
+      status,
+      description: response.description,
+    };
+
+    if (swagger2) {
+      if (response.schema) {
+        normalized.contentType = produces.find(t => t.includes("json")) || produces[0] || "application/json";
+        normalized.schema = dereferenceSchema(doc, response.schema);
+      }
+    } else {
+      const { contentType, media } = pickContent(response.content);
+      if (contentType) {
+        normalized.contentType = contentType;
+        normalized.schema = media?.schema ? dereferenceSchema(doc, media.schema) : undefined;
+      }
+    }
+
+    operation.responses.push(normalized);
+  }
+
+  return operation;
+}
+
+export function normalizeSpec(doc: any): NormalizedSpec {
+  const swagger2 = isSwagger2(doc);
+  const servers: string[] = [];
+
+  if (swagger2) {
+    if (doc.host) {
+      const scheme = Array.isArray(doc.schemes) && doc.schemes.length > 0 ? doc.schemes[0] : "https";
+      servers.push(`${scheme}://${doc.host}${doc.basePath || ""}`);
+    } else if (doc.basePath) {
+      servers.push(doc.basePath);
+    }
+  } else if (Array.isArray(doc?.servers)) {
+    doc.servers.forEach((server: any) => server?.url && servers.push(server.url));
+  }
+
+  const operations: NormalizedOperation[] = [];
+
+  for (const [path, rawPathItem] of Object.entries(doc?.paths || {})) {
+    const pathItem = resolveObject(doc, rawPathItem);
+    if (!pathItem || typeof pathItem !== "object") {
+      continue;
+    }
+
+    for (const method of HTTP_METHODS) {
+      if (pathItem[method]) {
+        operations.push(normalizeOperation(doc, path, method, pathItem, pathItem[method]));
+      }
+    }
+  }
+
+  return {
+    specVersion: swagger2 ? doc.swagger : doc?.openapi || "unknown",
+    info: {
+      title: doc?.info?.title,
+      description: doc?.info?.description,
+      version: doc?.info?.version,
+    },
+    servers,
+    operations,
+  };
+}
+
+// Lightweight index of operations that skips schema dereferencing
+export function listEndpoints(doc: any): EndpointSummary[] {
+  const endpoints: EndpointSummary[] = [];
+
+  for (const [path, rawPathItem] of Object.entries(doc?.paths || {})) {
+    const pathItem = resolveObject(doc, rawPathItem);
+    if (!pathItem || typeof pathItem !== "object") {
+      continue;
+    }
+
+    for (const method of HTTP_METHODS) {
+      const op = pathItem[method];
+      if (!op) {
+        continue;
+      }
+
+      endpoints.push({
+        method,
+        path,
+        operationId: op.operationId,
+        tags: Array.isArray(op.tags) ? op.tags : [],
+        summary: op.summary || (typeof op.description === "string" ? op.description.split("\n")[0] : undefined),
+        deprecated: op.deprecated === true,
+      });
+    }
+  }
+
+  return endpoints;
+}
+
+export const UNTAGGED = "(untagged)";
+
+// One entry per tag, so an endpoint tagged `[orders, admin]` is listed under both. Sorted by tag,
+// in spec order within a tag.
+export function endpointsByTag(endpoints: EndpointSummary[]): TaggedEndpoint[] {
+  return endpoints
+    .flatMap(endpoint => (endpoint.tags.length > 0 ? endpoint.tags : [UNTAGGED]).map(tag => ({ tag, endpoint })))
+    .sort((a, b) => a.tag.localeCompare(b.tag));
+}
+
+// Returns every named model (`components.schemas` or `definitions`) fully dereferenced
+export function normalizeSchemas(doc: any): Record<string, NormalizedSchema> {
+  const swagger2 = isSwagger2(doc);
+  const definitions = swagger2 ? doc.definitions : doc?.components?.schemas;
+  const prefix = swagger2 ? "#/definitions/" : "#/components/schemas/";
+  const schemas: Record<string, NormalizedSchema> = {};
+
+  for (const name of Object.keys(definitions || {})) {
+    schemas[name] = dereferenceSchema(doc, { $ref: `${prefix}${encodePointerSegment(name)}` });
+  }
+
+  return schemas;
+}
+
+export function schemaTypeLabel(schema: NormalizedSchema): string {
+  let label: string;
+
+  if (schema.variants) {
+    label = schema.variants.map(variant => schemaTypeLabel(variant)).join(" | ");
+  } else if (schema.type === "array") {
+    const itemLabel = schema.items ? schemaTypeLabel(schema.items) : "any";
+    label = itemLabel.includes(" | ") ? `(${itemLabel})[]` : `${itemLabel}[]`;
+  } else if (schema.refName && (schema.type === "object" || schema.type === "unknown")) {
+    label = schema.refName;
+  } else if (schema.type === "object" && schema.additionalProperties) {
+    label = `map<string, ${schemaTypeLabel(schema.additionalProperties)}>`;
+  } else {
+    label = schema.format ? `${schema.type}(${schema.format})` : schema.type;
+  }
+
+  return schema.nullable ? `${label} | null` : label;
+}
+
+function describeSchema(schema: NormalizedSchema): string {
+  const parts: string[] = [];
+
+  if (schema.description) {
+    parts.push(schema.description.replace(/\s*\n\s*/g, " "));
+  }
+  if (schema.enum) {
+    parts.push(`Enum: ${schema.enum.map(value => JSON.stringify(value)).join(", ")}`);
+  }
+  if (schema.circular) {
+    parts.push("(circular reference)");
+  }
+
+  return parts.join(" ");
+}
+
+// Flattens nested objects/arrays into `a.b` / `items[].price` rows for markdown tables
+export function flattenSchema(schema: NormalizedSchema, prefix = ""): SchemaRow[] {
+  const rows: SchemaRow[] = [];
+  const seen = new Set<string>();
+
+  const visit = (current: NormalizedSchema, path: string, depth: number) => {
+    if (isUnexpandedReference(current) || depth > MAX_SCHEMA_DEPTH) {
+      return;
+    }
+
+    if (current.type === "array" && current.items) {
+      visit(current.items, `${path}[]`, depth + 1);
+      return;
+    }
+
+    if (current.variants) {
+      current.variants.forEach(variant => visit(variant, path, depth + 1));
+      return;
+    }
+
+    for (const [name, prop] of Object.entries(current.properties || {})) {
+      const fieldName = path ? `${path}.${name}` : name;
+      if (seen.has(fieldName)) {
+        continue;
+      }
+      seen.add(fieldName);
+
+      rows.push({
+        name: fieldName,
+        type: schemaTypeLabel(prop),
+        required: (current.required || []).includes(name),
+        description: describeSchema(prop),
+      });
+
+      visit(prop, fieldName, depth + 1);
+    }
+  };
+
+  visit(schema, prefix, 0);
+  return rows;
+}
+
+export function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
@@ -0,0 +1,329 @@
+// Emits TypeScript interfaces and typed request functions from the normalized Swagger model.
+import { isUnexpandedReference, NormalizedOperation, NormalizedSchema } from "./swaggerSpec.js";
+
+export type ClientFlavor = "axios" | "fetch" | "none";
+
+export interface GeneratedClient {
+  code: string;
+  types: string[];
+  functions: string[];
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+export function toTypeName(name: string): string {
+  const parts = name.split(/[^A-Za-z0-9]+/).filter(part => part.length > 0);
+  const typeName = parts.map(part => part[0].toUpperCase() + part.slice(1)).join("");
+
+  if (!typeName) {
+    return "Unnamed";
+  }
+  return /^[0-9]/.test(typeName) ? `_${typeName}` : typeName;
+}
+
+function toIdentifier(name: string): string {
+  const typeName = toTypeName(name);
+  return typeName[0].toLowerCase() + typeName.slice(1);
+}
+
+export function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+export function docComment(text: string | undefined, indent: string): string {
+  if (!text) {
+    return "";
+  }
+  const lines = text.trim().replace(/\*\//g, "*\\/").split(/\r?\n/);
+  if (lines.length === 1) {
+    return `${indent}/** ${lines[0]} */\n`;
+  }
+  return `${indent}/**\n${lines.map(line => `${indent} * ${line}`.trimEnd()).join("\n")}\n${indent} */\n`;
+}
+
+function primitiveType(schema: NormalizedSchema): string {
+  switch (schema.type) {
+    case "string":
+      return schema.format === "binary" ? "Blob" : "string";
+    case "integer":
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    default:
+      return "unknown";
+  }
+}
+
+// Renders a schema as a TypeScript type expression; named models are referenced rather than inlined
+export function schemaToTypeScript(schema: NormalizedSchema, indent = "", isRoot = false): string {
+  let type: string;
+
+  if (!isRoot && schema.refName && schema.type !== "unknown") {
+    type = toTypeName(schema.refName);
+  } else if (schema.variants) {
+    type = schema.variants.map(variant => schemaToTypeScript(variant, indent)).join(" | ") || "unknown";
+  } else if (schema.enum && schema.enum.length > 0) {
+    type = schema.enum.map(value => JSON.stringify(value)).join(" | ");
+  } else if (schema.type === "array") {
+    const itemType = schema.items ? schemaToTypeScript(schema.items, indent) : "unknown";
+    type = /[|&]/.test(itemType) ? `Array<${itemType}>` : `${itemType}[]`;
+  } else if (schema.type === "object" && schema.properties && Object.keys(schema.properties).length > 0) {
+    type = objectLiteral(schema, indent);
+  } else if (schema.type === "object" && schema.additionalProperties) {
+    type = `Record<string, ${schemaToTypeScript(schema.additionalProperties, indent)}>`;
+  } else if (schema.type === "object") {
+    type = "Record<string, unknown>";
+  } else {
+    type = primitiveType(schema);
+  }
+
+  return schema.nullable && type !== "null" ? `${type} | null` : type;
+}
+
+function objectLiteral(schema: NormalizedSchema, indent: string): string {
+  const innerIndent = `${indent}  `;
+  const required = schema.required || [];
+  let body = "{\n";
+
+  for (const [name, prop] of Object.entries(schema.properties || {})) {
+    body += docComment(prop.description, innerIndent);
+    body += `${innerIndent}${propertyKey(name)}${required.includes(name) ? "" : "?"}: ${schemaToTypeScript(prop, innerIndent)};\n`;
+  }
+
+  if (schema.additionalProperties) {
+    body += `${innerIndent}[key: string]: ${schemaToTypeScript(schema.additionalProperties, innerIndent)};\n`;
+  }
+
+  return `${body}${indent}}`;
+}
+
+export function generateTypeDeclaration(name: string, schema: NormalizedSchema): string {
+  const typeName = toTypeName(name);
+  const comment = docComment(schema.description, "");
+
+  if (schema.type === "object" && !schema.variants && !schema.enum && schema.properties && Object.keys(schema.properties).length > 0) {
+    return `${comment}export interface ${typeName} ${objectLiteral(schema, "")}\n`;
+  }
+
+  return `${comment}export type ${typeName} = ${schemaToTypeScript(schema, "", true)};\n`;
+}
+
+// Collects the named models used by a schema, including models nested inside other models
+export function collectReferencedSchemas(schema: NormalizedSchema | undefined, names: Set<string>): void {
+  if (!schema) {
+    return;
+  }
+
+  if (schema.refName && schema.type !== "unknown") {
+    names.add(schema.refName);
+  }
+  if (isUnexpandedReference(schema)) {
+    return;
+  }
+
+  Object.values(schema.properties || {}).forEach(prop => collectReferencedSchemas(prop, names));
+  (schema.variants || []).forEach(variant => collectReferencedSchemas(variant, names));
+  collectReferencedSchemas(schema.items, names);
+  collectReferencedSchemas(schema.additionalProperties, names);
+}
+
+export function operationFunctionName(operation: NormalizedOperation): string {
+  if (operation.operationId) {
+    return toIdentifier(operation.operationId);
+  }
+
+  const parts = operation.path
+    .split("/")
+    .filter(segment => segment.length > 0)
+    .map(segment => segment.startsWith("{") ? `By ${segment.slice(1, -1)}` : segment);
+
+  return toIdentifier(`${operation.method} ${parts.join(" ")}`);
+}
+
+function successResponseSchema(operation: NormalizedOperation): NormalizedSchema | undefined {
+  return operation.responses
+    .filter(response => /^2\d\d$/.test(response.status) || response.status === "2XX" || response.status === "default")
+    .sort((a, b) => a.status.localeCompare(b.status))
+    .find(response => response.schema)?.schema;
+}
+
+function generateRequestFunction(operation: NormalizedOperation, flavor: "axios" | "fetch", functionName: string): string {
+  const pathParams = operation.parameters.filter(param => param.in === "path");
+  const queryParams = operation.parameters.filter(param => param.in === "query");
+  const headerParams = operation.parameters.filter(param => param.in === "header");
+  const body = operation.requestBody;
+  const args: string[] = [];
+  let declarations = "";
+
+  // Inline object types are hoisted into named aliases to keep signatures readable
+  const namedType = (schema: NormalizedSchema, suffix: string) => {
+    const type = schemaToTypeScript(schema, "");
+    if (!type.includes("\n")) {
+      return type;
+    }
+    const alias = `${toTypeName(functionName)}${suffix}`;
+    declarations += `export type ${alias} = ${type};\n\n`;
+    return alias;
+  };
+
+  const responseSchema = successResponseSchema(operation);
+  const responseType = responseSchema ? namedType(responseSchema, "Response") : "void";
+
+  pathParams.forEach(param => {
+    args.push(`${toIdentifier(param.name)}: ${schemaToTypeScript(param.schema, "")}`);
+  });
+
+  const optionalArgs: string[] = [];
+  const addArg = (name: string, type: string, required: boolean) => {
+    if (required) {
+      args.push(`${name}: ${type}`);
+    } else {
+      optionalArgs.push(`${name}?: ${type}`);
+    }
+  };
+
+  const isMultipart = body?.contentType?.startsWith("multipart/");
+  const isUrlEncoded = body?.contentType === "application/x-www-form-urlencoded";
+
+  if (body) {
+    const bodyType = isMultipart ? "FormData" : body.schema ? namedType(body.schema, "Body") : "unknown";
+    addArg("body", bodyType, body.required);
+  }
+
+  const paramsType = (params: typeof queryParams) => {
+    const fields = params.map(param =>
+      `${propertyKey(param.name)}${param.required ? "" : "?"}: ${schemaToTypeScript(param.schema, "")}`);
+    return `{ ${fields.join("; ")} }`;
+  };
+
+  if (queryParams.length > 0) {
+    addArg("query", paramsType(queryParams), queryParams.some(param => param.required));
+  }
+  if (headerParams.length > 0) {
+    addArg("headers", paramsType(headerParams), headerParams.some(param => param.required));
+  }
+
+  const url = "`${BASE_URL}" + operation.path.replace(/\{([^}]+)\}/g, (_, name) =>
+    `\${encodeURIComponent(String(${toIdentifier(name)}))}`) + "`";
+  const method = operation.method.toUpperCase();
+
+  let code = declarations;
+  code += docComment(
+    [`${method} ${operation.path}`, operation.summary, operation.deprecated ? "@deprecated" : undefined]
+      .filter(Boolean)
+      .join("\n"),
+    ""
+  );
+  code += `export async function ${functionName}(${[...args, ...optionalArgs].join(", ")}): Promise<${responseType}> {\n`;
+
+  if (flavor === "axios") {
+    const config = [`method: "${operation.method}"`, `url: ${url}`];
+    if (queryParams.length > 0) config.push("params: query");
+    if (headerParams.length > 0) config.push("headers");
+    if (body) config.push(isUrlEncoded ? "data: new URLSearchParams(body as Record<string, string>)" : "data: body");
+
+    code += responseType === "void"
+      ? "  await axios.request({\n"
+      : `  const response = await axios.request<${responseType}>({\n`;
+    code += config.map(line => `    ${line},\n`).join("");
+    code += "  });\n";
+    code += responseType === "void" ? "" : "  return response.data;\n";
+  } else {
+    const headers: string[] = [];
+    if (headerParams.length > 0) headers.push("...(headers as Record<string, string>)");
+    if (body && !isMultipart && !isUrlEncoded) headers.push(`"Content-Type": "${body.contentType || "application/json"}"`);
+
+    let bodyExpression: string | undefined;
+    if (body) {
+      bodyExpression = isMultipart
+        ? "body"
+        : isUrlEncoded
+          ? "new URLSearchParams(body as Record<string, string>)"
+          : "body === undefined ? undefined : JSON.stringify(body)";
+    }
+
+    const requestUrl = queryParams.length > 0 ? `${url.slice(0, -1)}\${toQueryString(query)}\`` : url;
+    code += `  const response = await fetch(${requestUrl}, {\n`;
+    code += `    method: "${method}",\n`;
+    if (headers.length > 0) code += `    headers: { ${headers.join(", ")} },\n`;
+    if (bodyExpression) code += `    body: ${bodyExpression},\n`;
+    code += "  });\n";
+    code += "  if (!response.ok) {\n";
+    code += `    throw new Error(\`${method} ${operation.path} failed with status \${response.status}\`);\n`;
+    code += "  }\n";
+    if (responseType !== "void") {
+      code += `  return (await response.json()) as ${responseType};\n`;
+    }
+  }
+
+  code += "}\n";
+  return code;
+}
+
+const FETCH_QUERY_HELPER = `function toQueryString(query?: Record<string, unknown>): string {
+  if (!query) {
+    return "";
+  }
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null) continue;
+    if (Array.isArray(value)) {
+      value.forEach(item => params.append(key, String(item)));
+    } else {
+      params.append(key, String(value));
+    }
+  }
+  const queryString = params.toString();
+  return queryString ? \`?\${queryString}\` : "";
+}
+`;
+
+export function generateClient(
+  schemas: Record<string, NormalizedSchema>,
+  operations: NormalizedOperation[],
+  flavor: ClientFlavor,
+  baseUrl: string
+): GeneratedClient {
+  const sections: string[] = [];
+  const types = Object.keys(schemas).map(name => toTypeName(name));
+  const functions: string[] = [];
+
+  if (flavor === "axios") {
+    sections.push(`import axios from "axios";\n\nexport const BASE_URL = ${JSON.stringify(baseUrl)};\n`);
+  } else if (flavor === "fetch") {
+    sections.push(`export const BASE_URL = ${JSON.stringify(baseUrl)};\n`);
+  }
+
+  for (const [name, schema] of Object.entries(schemas)) {
+    sections.push(generateTypeDeclaration(name, schema));
+  }
+
+  if (flavor !== "none") {
+    if (flavor === "fetch" && operations.some(op => op.parameters.some(param => param.in === "query"))) {
+      sections.push(FETCH_QUERY_HELPER);
+    }
+
+    const usedNames = new Set<string>();
+    for (const operation of operations) {
+      let functionName = operationFunctionName(operation);
+
+      // Disambiguate duplicate operationIds / derived names
+      for (let suffix = 2; usedNames.has(functionName); suffix++) {
+        functionName = `${operationFunctionName(operation)}${suffix}`;
+      }
+      usedNames.add(functionName);
+
+      functions.push(functionName);
+      sections.push(generateRequestFunction(operation, flavor, functionName));
+    }
+  }
+
+  return {
+    code: sections.join("\n"),
+    types,
+    functions,
+  };
+}
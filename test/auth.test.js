@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { AxiosError, AxiosHeaders } from "axios";
+import { authFromConfig, authFromEnv, buildAuthRequestConfig, describeAuth, describeAuthEnv, redactAxiosError } from "../dist/utils/auth.js";
+
+const ENV_NAMES = ["ERD_API_HEADERS", "ERD_API_BEARER_TOKEN", "API_BASIC_AUTH", "API_KEY", "API_KEY_IN", "API_KEY_NAME", "SWAGGER_API_HEADERS", "TEST_SECRET"];
+
+describe("authFromEnv", () => {
+  afterEach(() => ENV_NAMES.forEach(name => delete process.env[name]));
+
+  it("reads headers as JSON or as Name: value pairs", () => {
+    process.env.ERD_API_HEADERS = '{"X-Api-Version": "2"}';
+    process.env.SWAGGER_API_HEADERS = "X-Tenant: acme; X-Trace: a:b";
+    assert.deepEqual(authFromEnv("erd").headers, { "X-Api-Version": "2" });
+    assert.deepEqual(authFromEnv("swagger").headers, { "X-Tenant": "acme", "X-Trace": "a:b" });
+  });
+
+  it("prefers the source prefix over the shared API_ prefix", () => {
+    process.env.ERD_API_BEARER_TOKEN = "erd-token";
+    process.env.API_BASIC_AUTH = "user:pa:ss";
+    assert.deepEqual(authFromEnv("erd"), { bearerToken: "erd-token" });
+    assert.deepEqual(authFromEnv("swagger"), { basic: { username: "user", password: "pa:ss" } });
+  });
+
+  it("reports malformed header JSON without quoting the value", () => {
+    process.env.ERD_API_HEADERS = '{"Authorization": secret-token';
+    assert.throws(() => authFromEnv("erd"), error => /^Invalid ERD_API_HEADERS JSON/.test(error.message) && !error.message.includes("secret"));
+    assert.match(describeAuthEnv("erd"), /^Invalid ERD_API_HEADERS JSON.*requests to this source fail until it is fixed$/);
+  });
+});
+
+describe("authFromConfig", () => {
+  afterEach(() => delete process.env.TEST_SECRET);
+
+  it("expands ${VAR} placeholders", () => {
+    process.env.TEST_SECRET = "s3cret";
+    assert.deepEqual(authFromConfig({ basic: { username: "svc", password: "${TEST_SECRET}" } }), { basic: { username: "svc", password: "s3cret" } });
+  });
+});
+
+describe("buildAuthRequestConfig", () => {
+  it("combines headers, bearer tokens, basic auth and API keys", async () => {
+    const config = await buildAuthRequestConfig({
+      headers: { "X-Tenant": "acme" },
+      bearerToken: "token",
+      basic: { username: "user", password: "pass" },
+      apiKey: { name: "key", value: "k", in: "query" },
+    });
+    assert.deepEqual(config, {
+      auth: { username: "user", password: "pass" },
+      headers: { "X-Tenant": "acme", Authorization: "Bearer token" },
+      params: { key: "k" },
+    });
+    assert.equal(describeAuth({ headers: { "X-Tenant": "acme" }, apiKey: { name: "key", value: "k" } }), "headers (X-Tenant), apiKey (query)");
+  });
+});
+
+describe("redactAxiosError", () => {
+  it("removes credentials from the request config", () => {
+    const config = { headers: new AxiosHeaders({ Authorization: "Bearer token" }), auth: { username: "u", password: "p" }, params: { key: "k" } };
+    const error = redactAxiosError(new AxiosError("Request failed", "ERR_BAD_RESPONSE", config, {}));
+    assert.equal(error.config.headers.Authorization, undefined);
+    assert.equal(error.config.auth, undefined);
+    assert.equal(error.config.params, undefined);
+    assert.equal(error.request, undefined);
+  });
+
+  it("passes other errors through", () => {
+    const error = new Error("boom");
+    assert.equal(redactAxiosError(error), error);
+  });
+});
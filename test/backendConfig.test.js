@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { resolveBackend, sourceNotConfiguredMessage } from "../dist/utils/backendConfig.js";
+import { clearDocumentCache } from "../dist/utils/documentLoader.js";
+
+const ENV_NAMES = ["BACKEND_EXPLORER_CONFIG", "ERD_API_URL", "SWAGGER_API_URL", "MONGODB_URI", "MONGODB_CONNECTION_STRING", "SQL_DATABASE_URL"];
+
+describe("resolveBackend", () => {
+  let directory;
+  const saved = {};
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "backends-"));
+    ENV_NAMES.forEach(name => {
+      saved[name] = process.env[name];
+      delete process.env[name];
+    });
+  });
+
+  beforeEach(() => {
+    delete process.env.BACKEND_EXPLORER_CONFIG;
+  });
+
+  after(async () => {
+    ENV_NAMES.forEach(name => saved[name] === undefined ? delete process.env[name] : process.env[name] = saved[name]);
+    clearDocumentCache();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const useConfig = async (name, config) => {
+    const path = join(directory, name);
+    await writeFile(path, JSON.stringify(config));
+    process.env.BACKEND_EXPLORER_CONFIG = path;
+  };
+
+  it("uses the environment variables without a config file", async () => {
+    process.env.SWAGGER_API_URL = "https://api.example.com/swagger.json";
+    try {
+      const backend = await resolveBackend();
+      assert.equal(backend.name, "default");
+      assert.equal(backend.fromConfig, false);
+      assert.equal(backend.swaggerUrl, "https://api.example.com/swagger.json");
+      assert.equal(sourceNotConfiguredMessage("erd", backend), "ERD_API_URL is not set in the environment variables");
+    } finally {
+      delete process.env.SWAGGER_API_URL;
+    }
+    await assert.rejects(resolveBackend({ backend: "shop" }), /No backend config file is set/);
+  });
+
+  it("picks the default backend and lets environments override its settings", async () => {
+    await useConfig("environments.json", {
+      defaultBackend: "shop",
+      backends: {
+        shop: {
+          swaggerUrl: "https://shop.example.com/swagger.json",
+          erdUrl: "schema/erd.sql",
+          defaultEnvironment: "dev",
+          environments: { dev: { mongodbUri: "mongodb://localhost/shop" }, prod: { swaggerUrl: "https://prod.example.com/swagger.json" } },
+        },
+        billing: { swaggerUrl: "https://billing.example.com/swagger.json" },
+      },
+    });
+
+    const dev = await resolveBackend();
+    assert.deepEqual([dev.name, dev.environment, dev.mongodbUri, dev.swaggerUrl], ["shop", "dev", "mongodb://localhost/shop", "https://shop.example.com/swagger.json"]);
+    assert.equal(dev.erdUrl, join(directory, "schema", "erd.sql"));
+
+    const prod = await resolveBackend({ environment: "prod" });
+    assert.equal(prod.swaggerUrl, "https://prod.example.com/swagger.json");
+    assert.equal(prod.mongodbUri, undefined);
+    assert.equal(sourceNotConfiguredMessage("mongodb", prod), "'mongodbUri' is not configured for backend 'shop' (prod)");
+
+    assert.equal((await resolveBackend({ backend: "billing" })).swaggerUrl, "https://billing.example.com/swagger.json");
+  });
+
+  it("names the available backends and environments when one is unknown", async () => {
+    await useConfig("unknown.json", { backends: { shop: { environments: { dev: {} } }, billing: {} } });
+    await assert.rejects(resolveBackend({ backend: "crm" }), /Unknown backend 'crm'. Configured backends: shop, billing/);
+    await assert.rejects(resolveBackend({ backend: "shop", environment: "qa" }), /Available environments: dev/);
+  });
+
+  it("rejects a config file without backends", async () => {
+    await useConfig("invalid.json", { servers: {} });
+    await assert.rejects(resolveBackend(), /expected a 'backends' object/);
+  });
+});
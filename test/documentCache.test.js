@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { clearDocumentCache, loadDocument } from "../dist/utils/documentLoader.js";
+
+describe("loadDocument with remote sources", () => {
+  let server;
+  let baseUrl;
+  let requests;
+  let version;
+  let failing;
+
+  before(async () => {
+    server = createServer((request, response) => {
+      requests.push({ url: request.url, ifNoneMatch: request.headers["if-none-match"], authorization: request.headers.authorization });
+      if (failing) {
+        response.writeHead(500).end();
+      } else if (request.headers["if-none-match"] === `"v${version}"`) {
+        response.writeHead(304).end();
+      } else {
+        response.writeHead(200, { "Content-Type": "application/json", ETag: `"v${version}"` }).end(JSON.stringify({ version }));
+      }
+    });
+    await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(async () => {
+    delete process.env.SOURCE_CACHE_TTL;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    clearDocumentCache();
+    requests = [];
+    version = 1;
+    failing = false;
+    delete process.env.SOURCE_CACHE_TTL;
+  });
+
+  it("serves the cached copy within the TTL", async () => {
+    assert.equal((await loadDocument(`${baseUrl}/ttl`)).version, 1);
+    version = 2;
+    assert.equal((await loadDocument(`${baseUrl}/ttl`)).version, 1);
+    assert.equal(requests.length, 1);
+    assert.equal((await loadDocument(`${baseUrl}/ttl`, undefined, { refresh: true })).version, 2);
+  });
+
+  it("revalidates with the ETag once the TTL has passed", async () => {
+    process.env.SOURCE_CACHE_TTL = "0";
+    await loadDocument(`${baseUrl}/etag`);
+    assert.equal((await loadDocument(`${baseUrl}/etag`)).version, 1);
+    assert.deepEqual(requests.map(request => request.ifNoneMatch), [undefined, '"v1"']);
+  });
+
+  it("shares one request between concurrent callers", async () => {
+    await Promise.all([loadDocument(`${baseUrl}/shared`), loadDocument(`${baseUrl}/shared`)]);
+    assert.equal(requests.length, 1);
+  });
+
+  it("serves the stale copy when revalidation fails, unless a refresh is asked for", async () => {
+    process.env.SOURCE_CACHE_TTL = "0";
+    await loadDocument(`${baseUrl}/stale`);
+    failing = true;
+    const logged = console.error;
+    console.error = () => {};
+    try {
+      assert.equal((await loadDocument(`${baseUrl}/stale`)).version, 1);
+    } finally {
+      console.error = logged;
+    }
+    await assert.rejects(loadDocument(`${baseUrl}/stale`, undefined, { refresh: true }), /status code 500/);
+  });
+
+  it("keeps separate entries per parser and per credentials", async () => {
+    const parser = content => ({ parsed: JSON.parse(content).version });
+    await loadDocument(`${baseUrl}/keys`);
+    assert.deepEqual(await loadDocument(`${baseUrl}/keys`, undefined, { parser }), { parsed: 1 });
+    await loadDocument(`${baseUrl}/keys`, { bearerToken: "a" });
+    await loadDocument(`${baseUrl}/keys`, { bearerToken: "b" });
+    assert.deepEqual(requests.map(request => request.authorization), [undefined, undefined, "Bearer a", "Bearer b"]);
+  });
+});
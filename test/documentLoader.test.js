@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { after, before, describe, it } from "node:test";
+import { clearDocumentCache, loadDocument, parseDocument } from "../dist/utils/documentLoader.js";
+
+describe("parseDocument", () => {
+  it("parses JSON, and YAML by extension, content type or content", () => {
+    assert.deepEqual(parseDocument('{"a": 1}', "spec.json"), { a: 1 });
+    assert.deepEqual(parseDocument("a: 1", "spec.yaml"), { a: 1 });
+    assert.deepEqual(parseDocument("a: 1", "https://example.com/spec", "application/x-yaml"), { a: 1 });
+    assert.deepEqual(parseDocument("openapi: 3.0.0\npaths: {}", "https://example.com/spec"), { openapi: "3.0.0", paths: {} });
+  });
+});
+
+describe("loadDocument with local files", () => {
+  let directory;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "loader-"));
+  });
+
+  after(async () => {
+    clearDocumentCache();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("loads plain paths and file:// URLs", async () => {
+    const path = join(directory, "spec.yml");
+    await writeFile(path, "info:\n  title: Local\n");
+    assert.equal((await loadDocument(path)).info.title, "Local");
+    assert.equal((await loadDocument(pathToFileURL(path).href)).info.title, "Local");
+  });
+
+  it("keeps one cached document per parser", async () => {
+    const path = join(directory, "schema.txt");
+    await writeFile(path, "CREATE TABLE users (id INT)");
+    const upper = content => content.toUpperCase();
+    const length = content => content.length;
+    assert.equal(await loadDocument(path, undefined, { parser: upper }), "CREATE TABLE USERS (ID INT)");
+    assert.equal(await loadDocument(path, undefined, { parser: length }), 27);
+    assert.equal(await loadDocument(path, undefined, { parser: upper }), "CREATE TABLE USERS (ID INT)");
+  });
+
+  it("reloads a cached file when a refresh is asked for", async () => {
+    const path = join(directory, "cached.json");
+    await writeFile(path, '{"version": 1}');
+    assert.equal((await loadDocument(path)).version, 1);
+
+    await writeFile(path, '{"version": 2}');
+    assert.equal((await loadDocument(path, undefined, { refresh: true })).version, 2);
+  });
+
+  it("reads the file again on every call without watching", async () => {
+    const path = join(directory, "once.json");
+    await writeFile(path, '{"version": 1}');
+    assert.equal((await loadDocument(path, undefined, { watch: false })).version, 1);
+    await writeFile(path, '{"version": 2}');
+    assert.equal((await loadDocument(path, undefined, { watch: false })).version, 2);
+  });
+
+  it("reports parse errors", async () => {
+    const path = join(directory, "broken.json");
+    await writeFile(path, '{"open": ');
+    await assert.rejects(loadDocument(path), SyntaxError);
+  });
+});
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { erdToMermaid, erdToPlantUml } from "../dist/utils/erdDiagram.js";
+import { findTableName, normalizeErd, subsetErd, tableNeighbourhood } from "../dist/utils/erdModel.js";
+
+const model = normalizeErd({
+  tables: [
+    {
+      name: "users",
+      columns: [
+        { name: "id", type: "uuid", isPrimaryKey: true },
+        { name: "email", type: "varchar(255)", required: true, isUnique: true, description: 'Login "email"' },
+      ],
+    },
+    {
+      name: "orders",
+      columns: [{ name: "id", type: "int", isPrimaryKey: true }, { name: "user_id", type: "uuid", isForeignKey: true }],
+      relations: [{ type: "many-to-one", sourceTable: "orders", sourceColumn: "user_id", targetTable: "users", targetColumn: "id" }],
+    },
+    { name: "order-items", columns: [{ name: "order_id", type: "int", isForeignKey: true }] },
+    { name: "audit_log", columns: [] },
+  ],
+  relations: [
+    { type: "many-to-one", sourceTable: "orders", sourceColumn: "user_id", targetTable: "users", targetColumn: "id" },
+    { type: "OneToMany", sourceTable: "orders", sourceColumn: "id", targetTable: "order-items", targetColumn: "order_id" },
+  ],
+});
+
+describe("normalizeErd", () => {
+  it("keeps each relation once, whether declared on a table or at the top level", () => {
+    assert.equal(model.relations.length, 2);
+    assert.equal(normalizeErd({ nope: [] }), null);
+  });
+});
+
+describe("erdToMermaid", () => {
+  it("renders entities, keys and crow's foot relations", () => {
+    assert.equal(erdToMermaid(model), [
+      "erDiagram",
+      "  users {",
+      "    uuid id PK",
+      `    varchar(255) email UK "Login 'email'"`,
+      "  }",
+      "  orders {",
+      "    int id PK",
+      "    uuid user_id FK",
+      "  }",
+      "  order_items {",
+      "    int order_id FK",
+      "  }",
+      "  audit_log",
+      '  orders }o--|| users : "user_id"',
+      '  orders ||--o{ order_items : "id"',
+    ].join("\n"));
+  });
+});
+
+describe("erdToPlantUml", () => {
+  it("renders entities with key columns first", () => {
+    const diagram = erdToPlantUml(model);
+    assert.match(diagram, /^@startuml\n/);
+    assert.match(diagram, /entity "users" as users \{\n {2}\* id : uuid <<PK>>\n {2}--\n {2}\* email : varchar\(255\) <<UK>>\n\}/);
+    assert.match(diagram, /entity "order-items" as order_items \{/);
+    assert.match(diagram, /\norders }o--\|\| users : user_id\n/);
+    assert.match(diagram, /@enduml$/);
+  });
+});
+
+describe("table neighbourhood", () => {
+  it("follows relations in both directions up to the depth", () => {
+    assert.deepEqual([...tableNeighbourhood(model, "users", 1)], ["users", "orders"]);
+    assert.deepEqual([...tableNeighbourhood(model, "users", 2)], ["users", "orders", "order-items"]);
+  });
+
+  it("keeps only the relations between the kept tables", () => {
+    const subset = subsetErd(model, tableNeighbourhood(model, "users", 1));
+    assert.deepEqual(subset.tables.map(table => table.name), ["users", "orders"]);
+    assert.deepEqual(subset.relations.map(relation => relation.targetTable), ["users"]);
+  });
+
+  it("finds table names case-insensitively", () => {
+    assert.equal(findTableName(model, "ORDERS"), "orders");
+    assert.equal(findTableName(model, "missing"), undefined);
+  });
+});
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildErdEdges, findJoinPaths, findNeighbours, inboundEdges, outboundEdges } from "../dist/utils/erdGraph.js";
+import { normalizeErd } from "../dist/utils/erdModel.js";
+
+const model = normalizeErd({
+  tables: [
+    { name: "companies", columns: [{ name: "id", type: "int", isPrimaryKey: true }] },
+    {
+      name: "employees",
+      columns: [
+        { name: "id", type: "int", isPrimaryKey: true },
+        { name: "company_id", type: "int", isForeignKey: true },
+        { name: "manager_id", type: "int" },
+      ],
+    },
+    {
+      name: "categories",
+      columns: [{ name: "code", type: "text", isPrimaryKey: true }],
+    },
+    {
+      name: "tickets",
+      columns: [
+        { name: "id", type: "int", isPrimaryKey: true },
+        { name: "employee_id", type: "int" },
+        { name: "category_id", type: "text", isForeignKey: true },
+      ],
+    },
+  ],
+  relations: [
+    { type: "many-to-one", sourceTable: "employees", sourceColumn: "manager_id", targetTable: "employees", targetColumn: "id" },
+    { type: "many-to-one", sourceTable: "tickets", sourceColumn: "employee_id", targetTable: "employees", targetColumn: "id" },
+  ],
+});
+const edges = buildErdEdges(model);
+
+describe("buildErdEdges", () => {
+  it("adds edges for foreign-key columns without a declared relation", () => {
+    assert.deepEqual(edges.filter(edge => edge.inferred).map(edge => `${edge.fromTable}.${edge.fromColumn} -> ${edge.toTable}.${edge.toColumn}`), [
+      "employees.company_id -> companies.id",
+      "tickets.category_id -> categories.code",
+    ]);
+    assert.equal(edges.filter(edge => !edge.inferred).length, 2);
+  });
+
+  it("splits edges into inbound and outbound ones", () => {
+    assert.deepEqual(inboundEdges(edges, "employees").map(edge => edge.fromTable), ["employees", "tickets"]);
+    assert.deepEqual(outboundEdges(edges, "tickets").map(edge => edge.toTable), ["employees", "categories"]);
+  });
+});
+
+describe("findJoinPaths", () => {
+  it("walks foreign keys in both directions", () => {
+    const [path] = findJoinPaths(edges, "companies", "tickets", 3, 5);
+    assert.deepEqual(path.tables, ["companies", "employees", "tickets"]);
+    assert.deepEqual(path.joins, [
+      "JOIN employees ON employees.company_id = companies.id",
+      "JOIN tickets ON tickets.employee_id = employees.id",
+    ]);
+  });
+
+  it("aliases the second copy of a self-referencing table", () => {
+    const [path] = findJoinPaths(edges, "employees", "employees", 3, 5);
+    assert.deepEqual(path.joins, ["JOIN employees e2 ON employees.manager_id = e2.id"]);
+  });
+
+  it("stops at the depth limit", () => {
+    assert.deepEqual(findJoinPaths(edges, "companies", "categories", 2, 5), []);
+    assert.equal(findJoinPaths(edges, "companies", "categories", 3, 5).length, 1);
+  });
+});
+
+describe("findNeighbours", () => {
+  it("reports each table once at its shortest distance", () => {
+    assert.deepEqual(findNeighbours(edges, "companies", 3).map(entry => [entry.table, entry.distance]), [
+      ["employees", 1],
+      ["tickets", 2],
+      ["categories", 3],
+    ]);
+    assert.deepEqual(findNeighbours(edges, "companies", 1).map(entry => entry.table), ["employees"]);
+  });
+});
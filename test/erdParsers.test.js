@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseDbml } from "../dist/utils/erdDbml.js";
+import { parsePrismaSchema } from "../dist/utils/erdPrisma.js";
+import { parseSqlDdl } from "../dist/utils/erdSql.js";
+
+const table = (model, name) => model.tables.find(entry => entry.name === name);
+const column = (model, tableName, name) => table(model, tableName).columns.find(entry => entry.name === name);
+
+describe("parseSqlDdl", () => {
+  const model = parseSqlDdl(`
+    CREATE TABLE users (id SERIAL PRIMARY KEY, email VARCHAR(255) NOT NULL UNIQUE);
+    CREATE TABLE "orders" (id INT PRIMARY KEY, user_id INT REFERENCES users(id), note TEXT DEFAULT 'a;b');
+    ALTER TABLE orders ADD CONSTRAINT orders_user FOREIGN KEY (user_id) REFERENCES users (id);
+    COMMENT ON TABLE orders IS 'Customer orders';
+  `);
+
+  it("reads tables, columns and keys", () => {
+    assert.deepEqual(model.tables.map(entry => entry.name), ["users", "orders"]);
+    assert.deepEqual(column(model, "users", "email"), { name: "email", type: "VARCHAR(255)", required: true, isUnique: true });
+    assert.equal(column(model, "orders", "id").isPrimaryKey, true);
+    assert.equal(column(model, "orders", "note").type, "TEXT");
+    assert.equal(table(model, "orders").description, "Customer orders");
+  });
+
+  it("records a foreign key declared twice once", () => {
+    assert.deepEqual(table(model, "orders").relations, [
+      { type: "many-to-one", sourceTable: "orders", sourceColumn: "user_id", targetTable: "users", targetColumn: "id" },
+    ]);
+  });
+});
+
+describe("parsePrismaSchema", () => {
+  const model = parsePrismaSchema(`
+    datasource db {
+      provider = "postgresql"
+      url      = env("DATABASE_URL")
+    }
+
+    /// People
+    model User {
+      id    Int    @id @default(autoincrement())
+      email String @unique @map("email_address")
+      posts Post[]
+
+      @@map("users")
+    }
+
+    model Post {
+      id       Int  @id
+      authorId Int  @map("author_id")
+      author   User @relation(fields: [authorId], references: [id])
+
+      @@map("posts")
+    }
+  `);
+
+  it("uses the @@map and @map names", () => {
+    assert.deepEqual(model.tables.map(entry => entry.name), ["users", "posts"]);
+    assert.deepEqual(table(model, "users").columns.map(entry => entry.name), ["id", "email_address"]);
+    assert.equal(table(model, "users").description, "People");
+  });
+
+  it("marks @unique columns and keeps back-relations out of the columns", () => {
+    assert.equal(column(model, "users", "email_address").isUnique, true);
+    assert.equal(column(model, "users", "posts"), undefined);
+  });
+
+  it("reads relations from the side holding the foreign key", () => {
+    assert.deepEqual(table(model, "posts").relations, [
+      { type: "many-to-one", description: "author", sourceTable: "posts", sourceColumn: "author_id", targetTable: "users", targetColumn: "id" },
+    ]);
+    assert.deepEqual(table(model, "users").relations, []);
+  });
+
+  it("keeps // inside string literals and drops trailing comments", () => {
+    const site = parsePrismaSchema(`
+      model Site {
+        id  Int    @id // primary key
+        url String @default("https://example.com") @map("site_url") @unique
+      }
+    `);
+    const url = column(site, "Site", "site_url");
+    assert.equal(url.isUnique, true);
+    assert.equal(column(site, "Site", "id").isPrimaryKey, true);
+  });
+});
+
+describe("parseDbml", () => {
+  const model = parseDbml(`
+    Table users as U {
+      id int [pk]
+      email varchar [unique, not null]
+    }
+
+    Table posts {
+      id int [pk]
+      user_id int [ref: > U.id] // author
+    }
+
+    Ref: posts.id - users.id
+  `);
+
+  it("reads tables and column settings", () => {
+    assert.deepEqual(column(model, "users", "email"), { name: "email", type: "varchar", required: true, isUnique: true });
+    assert.equal(column(model, "users", "id").isPrimaryKey, true);
+  });
+
+  it("resolves table aliases in inline and standalone refs", () => {
+    assert.deepEqual(table(model, "posts").relations, [
+      { type: "many-to-one", sourceTable: "posts", sourceColumn: "user_id", targetTable: "users", targetColumn: "id" },
+      { type: "one-to-one", sourceTable: "posts", sourceColumn: "id", targetTable: "users", targetColumn: "id" },
+    ]);
+  });
+});
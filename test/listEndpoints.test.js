@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { endpointsByTag, listEndpoints } from "../dist/utils/swaggerSpec.js";
+
+const doc = {
+  openapi: "3.0.0",
+  paths: {
+    "/orders": {
+      get: { operationId: "listOrders", tags: ["orders"], summary: "List orders" },
+      delete: { operationId: "purgeOrders", tags: ["orders", "admin"], description: "Removes old orders\nSecond line", deprecated: true },
+    },
+    "/health": { $ref: "#/components/pathItems/Health" },
+  },
+  components: { pathItems: { Health: { get: { operationId: "health" } } } },
+};
+
+describe("listEndpoints", () => {
+  it("lists operations in spec order with a one-line summary", () => {
+    assert.deepEqual(listEndpoints(doc), [
+      { method: "get", path: "/orders", operationId: "listOrders", tags: ["orders"], summary: "List orders", deprecated: false },
+      { method: "delete", path: "/orders", operationId: "purgeOrders", tags: ["orders", "admin"], summary: "Removes old orders", deprecated: true },
+      { method: "get", path: "/health", operationId: "health", tags: [], summary: undefined, deprecated: false },
+    ]);
+  });
+});
+
+describe("endpointsByTag", () => {
+  it("lists an endpoint under every tag it has", () => {
+    const entries = endpointsByTag(listEndpoints(doc)).map(({ tag, endpoint }) => `${tag}: ${endpoint.operationId}`);
+    assert.deepEqual(entries, ["(untagged): health", "admin: purgeOrders", "orders: listOrders", "orders: purgeOrders"]);
+  });
+});
@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { MongoClient } from "mongodb";
+import { describe, it } from "node:test";
+import { defaultDatabaseName, isDatabaseExposed, listExposedDatabases, selectDatabase } from "../dist/utils/mongoDatabases.js";
+
+// Never connected; client.db() only needs the connection string
+const client = new MongoClient("mongodb://localhost:27017/shop");
+
+describe("database allowlist", () => {
+  it("hides system databases without an allowlist", () => {
+    assert.equal(isDatabaseExposed("shop"), true);
+    assert.equal(isDatabaseExposed("admin"), false);
+    assert.equal(isDatabaseExposed("admin", ["admin"]), true);
+    assert.equal(isDatabaseExposed("shop", ["crm"]), false);
+  });
+
+  it("defaults to the connection string's database unless it is not allowed", () => {
+    assert.equal(defaultDatabaseName(client), "shop");
+    assert.equal(defaultDatabaseName(client, ["crm", "shop"]), "shop");
+    assert.equal(defaultDatabaseName(client, ["crm", "billing"]), "crm");
+  });
+
+  it("opens only allowed databases", () => {
+    assert.equal(selectDatabase(client, ["crm"]).databaseName, "crm");
+    assert.equal(selectDatabase(client, ["crm", "billing"], "billing").databaseName, "billing");
+    assert.throws(() => selectDatabase(client, ["crm"], "shop"), /'shop' is not available. Available databases: crm/);
+    assert.throws(() => selectDatabase(client, undefined, "local"), /system database/);
+  });
+});
+
+describe("listExposedDatabases", () => {
+  it("filters the server's list and marks the default", async () => {
+    const fake = {
+      db: name => name === "admin"
+        ? { command: async () => ({ databases: [{ name: "admin" }, { name: "shop", sizeOnDisk: 8192, empty: false }, { name: "crm" }] }) }
+        : { databaseName: "shop" },
+    };
+    assert.deepEqual(await listExposedDatabases(fake), [
+      { name: "shop", sizeOnDisk: 8192, empty: false, default: true },
+      { name: "crm", sizeOnDisk: undefined, empty: undefined, default: false },
+    ]);
+    assert.deepEqual((await listExposedDatabases(fake, ["crm"])).map(database => [database.name, database.default]), [["crm", true]]);
+  });
+});
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { describePlan, leadingMatchAndSort, suggestIndex, summarizeExplain } from "../dist/utils/mongoExplain.js";
+
+const collectionScan = {
+  queryPlanner: {
+    winningPlan: { stage: "SORT", inputStage: { stage: "COLLSCAN" } },
+    rejectedPlans: [],
+  },
+  executionStats: { nReturned: 5, totalDocsExamined: 1000, totalKeysExamined: 0, executionTimeMillis: 12 },
+};
+
+const indexScan = {
+  queryPlanner: {
+    winningPlan: { stage: "LIMIT", inputStage: { stage: "FETCH", inputStage: { stage: "IXSCAN", indexName: "status_1" } } },
+    rejectedPlans: [{}],
+  },
+  executionStats: { nReturned: 10, totalDocsExamined: 10, totalKeysExamined: 10, executionTimeMillis: 1 },
+};
+
+describe("summarizeExplain", () => {
+  it("warns about collection scans, in-memory sorts and poor selectivity", () => {
+    const summary = summarizeExplain(collectionScan, { status: "paid", total: { $gt: 100 } }, { createdAt: -1 });
+    assert.equal(summary.winningPlan, "SORT → COLLSCAN");
+    assert.equal(summary.collectionScan, true);
+    assert.equal(summary.inMemorySort, true);
+    assert.equal(summary.warnings.length, 3);
+    assert.match(summary.warnings[2], /Examined 1000 documents to return 5/);
+    assert.deepEqual(summary.suggestedIndex, { status: 1, createdAt: -1, total: 1 });
+  });
+
+  it("reports the indexes of a good plan without suggestions", () => {
+    const summary = summarizeExplain(indexScan, { status: "paid" });
+    assert.equal(summary.winningPlan, "LIMIT → FETCH → IXSCAN (status_1)");
+    assert.deepEqual(summary.indexesUsed, ["status_1"]);
+    assert.equal(summary.rejectedPlans, 1);
+    assert.deepEqual(summary.warnings, []);
+    assert.equal(summary.suggestedIndex, undefined);
+  });
+
+  it("finds the query stage of an aggregation and lists the later stages", () => {
+    const summary = summarizeExplain({ stages: [{ $cursor: indexScan }, { $group: {} }, { $sort: {} }] });
+    assert.equal(summary.nReturned, 10);
+    assert.deepEqual(summary.pipelineStages, ["$group", "$sort"]);
+  });
+
+  it("adds up shard statistics and keeps the slowest time", () => {
+    const summary = summarizeExplain({ shards: { a: indexScan, b: collectionScan } });
+    assert.equal(summary.totalDocsExamined, 1010);
+    assert.equal(summary.executionTimeMillis, 12);
+    assert.deepEqual(summary.indexesUsed, ["status_1"]);
+  });
+});
+
+describe("describePlan", () => {
+  it("shows branching and sharded plans", () => {
+    assert.equal(describePlan({ stage: "OR", inputStages: [{ stage: "IXSCAN", indexName: "a_1" }, { stage: "IXSCAN", indexName: "b_1" }] }),
+      "OR → [IXSCAN (a_1) | IXSCAN (b_1)]");
+    assert.equal(describePlan({ stage: "SHARD_MERGE", shards: [{ shardName: "s1", winningPlan: { queryPlan: { stage: "COLLSCAN" } } }] }), "s1: COLLSCAN");
+  });
+});
+
+describe("suggestIndex", () => {
+  it("puts equality fields before the sort and range fields after it", () => {
+    assert.deepEqual(suggestIndex({ $and: [{ name: /^A/ }, { tags: { $in: ["x"] } }], $or: [{ a: 1 }] }, { age: 1 }), { tags: 1, age: 1, name: 1 });
+    assert.equal(suggestIndex({}, undefined), undefined);
+  });
+});
+
+describe("leadingMatchAndSort", () => {
+  it("combines the $match stages before the first other stage", () => {
+    assert.deepEqual(leadingMatchAndSort([{ $match: { a: 1 } }, { $match: { b: 2 } }, { $sort: { c: -1 } }, { $match: { d: 3 } }]), {
+      filter: { $and: [{ a: 1 }, { b: 2 }] },
+      sort: { c: -1 },
+    });
+    assert.deepEqual(leadingMatchAndSort([{ $group: { _id: "$a" } }, { $match: { a: 1 } }]), { filter: undefined, sort: undefined });
+  });
+});
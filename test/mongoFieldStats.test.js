@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { assertFieldPath, fieldStatsPipeline, summarizeFieldStats } from "../dist/utils/mongoFieldStats.js";
+
+describe("assertFieldPath", () => {
+  it("accepts dotted names and rejects expressions", () => {
+    assertFieldPath("items.price");
+    assert.throws(() => assertFieldPath("$password"), /Invalid field path/);
+    assert.throws(() => assertFieldPath("a..b"), /Invalid field path/);
+    assert.throws(() => assertFieldPath(""), /Invalid field path/);
+  });
+});
+
+describe("fieldStatsPipeline", () => {
+  it("filters and samples before projecting the field", () => {
+    const pipeline = fieldStatsPipeline("items.price", { status: "paid" }, 5, 1000);
+    assert.deepEqual(pipeline.slice(0, 3), [{ $match: { status: "paid" } }, { $sample: { size: 1000 } }, { $project: { _id: 0, value: "$items.price" } }]);
+    assert.deepEqual(pipeline[3].$facet.topValues.at(-1), { $limit: 5 });
+    assert.deepEqual(Object.keys(fieldStatsPipeline("a", {}, 5)[0]), ["$project"]);
+  });
+});
+
+describe("summarizeFieldStats", () => {
+  it("turns the facets into counts, ratios and ranges", () => {
+    const stats = summarizeFieldStats("total", {
+      presence: [{ documents: 10, missing: 2, nulls: 1 }],
+      types: [{ _id: "int", count: 6 }, { _id: "double", count: 2 }],
+      distinct: [{ count: 4 }],
+      topValues: [{ _id: 5, count: 4 }, { _id: 10, count: 2 }],
+      number: [{ count: 8, min: 1, max: 20, avg: 7.123456 }],
+      numberHistogram: [{ _id: { min: 1, max: 10 }, count: 6 }, { _id: { min: 10, max: 20 }, count: 0 }],
+      date: [],
+    }, true);
+
+    assert.equal(stats.sampled, true);
+    assert.equal(stats.missingRatio, 0.2);
+    assert.equal(stats.nullRatio, 0.1);
+    assert.equal(stats.values, 8);
+    assert.equal(stats.distinct, 4);
+    assert.deepEqual(stats.topValues, [{ value: 5, count: 4, percentage: 50 }, { value: 10, count: 2, percentage: 25 }]);
+    assert.equal(stats.otherValues, 2);
+    assert.deepEqual(stats.number, { count: 8, min: 1, max: 20, avg: 7.123 });
+    assert.equal(stats.date, undefined);
+    assert.deepEqual(stats.histogram, { type: "number", buckets: [{ min: 1, max: 10, count: 6 }] });
+  });
+
+  it("uses the date histogram for mostly date fields", () => {
+    const stats = summarizeFieldStats("createdAt", {
+      presence: [{ documents: 2, missing: 0, nulls: 0 }],
+      types: [{ _id: "date", count: 2 }],
+      date: [{ count: 2, min: new Date(0), max: new Date(2000), avg: 1000 }],
+      dateHistogram: [{ _id: { min: new Date(0), max: new Date(2000) }, count: 2 }],
+    }, false);
+    assert.deepEqual(stats.date.avg, new Date(1000));
+    assert.equal(stats.histogram.type, "date");
+  });
+
+  it("reports an empty collection as zeros", () => {
+    const stats = summarizeFieldStats("x", {}, false);
+    assert.equal(stats.documents, 0);
+    assert.equal(stats.missingRatio, 0);
+    assert.deepEqual(stats.topValues, []);
+    assert.equal(stats.histogram, undefined);
+  });
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { BSON } from "mongodb";
+import { describe, it } from "node:test";
+import { parseMongoJson, shellToExtendedJson } from "../dist/utils/mongoJson.js";
+
+const convert = text => JSON.parse(shellToExtendedJson(text));
+
+describe("shellToExtendedJson", () => {
+  it("quotes keys and converts single-quoted strings", () => {
+    assert.deepEqual(convert("{ name: 'O\\'Brien', active: true, note: null }"), { name: "O'Brien", active: true, note: null });
+  });
+
+  it("converts shell constructors", () => {
+    assert.deepEqual(convert('{ _id: ObjectId("64b7f0c2a1b2c3d4e5f60718"), total: NumberDecimal("9.99"), n: NumberLong(5) }'), {
+      _id: { $oid: "64b7f0c2a1b2c3d4e5f60718" },
+      total: { $numberDecimal: "9.99" },
+      n: { $numberLong: "5" },
+    });
+    assert.deepEqual(convert('{ at: ISODate("2024-01-02T03:04:05Z"), was: new Date(0) }'), {
+      at: { $date: "2024-01-02T03:04:05.000Z" },
+      was: { $date: { $numberLong: "0" } },
+    });
+  });
+
+  it("converts regex literals", () => {
+    assert.deepEqual(convert("{ email: /@example\\.com$/i, ratio: [4, 2] }"), {
+      email: { $regularExpression: { pattern: "@example\\.com$", options: "i" } },
+      ratio: [4, 2],
+    });
+  });
+
+  it("keeps numbers with exponents", () => {
+    assert.deepEqual(convert("{ big: 1e6, small: -2.5E-3 }"), { big: 1e6, small: -2.5e-3 });
+  });
+
+  it("rejects unknown identifiers and bad input", () => {
+    assert.throws(() => shellToExtendedJson("{ a: Code('x') }"), /Unexpected 'Code'/);
+    assert.throws(() => shellToExtendedJson("{ a: 'open }"), /Unterminated string/);
+    assert.throws(() => shellToExtendedJson('{ at: ISODate("not a date") }'), /Invalid date/);
+  });
+});
+
+describe("parseMongoJson", () => {
+  it("keeps the precision of large longs", () => {
+    for (const text of ['{ "n": { "$numberLong": "9007199254740993" } }', '{ n: NumberLong("9007199254740993") }']) {
+      const { n } = parseMongoJson(text);
+      assert.ok(n instanceof BSON.Long);
+      assert.equal(n.toString(), "9007199254740993");
+    }
+  });
+
+  it("gives plain numbers for values that fit", () => {
+    assert.deepEqual(parseMongoJson('{ a: NumberLong(5), b: NumberInt(3), c: 2.5, d: { "$numberDouble": "1.0" }, e: [3000000000] }'), {
+      a: 5, b: 3, c: 2.5, d: 1, e: [3000000000],
+    });
+  });
+
+  it("keeps other BSON types", () => {
+    const { _id, at } = parseMongoJson('{ _id: ObjectId("64b7f0c2a1b2c3d4e5f60718"), at: ISODate("2024-01-02T03:04:05Z") }');
+    assert.ok(_id instanceof BSON.ObjectId);
+    assert.equal(at.toISOString(), "2024-01-02T03:04:05.000Z");
+  });
+});
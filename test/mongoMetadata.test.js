@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatIndexKey, indexProperties, loadCollectionMetadata } from "../dist/utils/mongoMetadata.js";
+
+const cursor = items => ({ toArray: async () => items });
+
+// Just enough of Db and MongoClient for one collection
+function fakeDb(info, indexes, { collStats, shardKey } = {}) {
+  const db = {
+    databaseName: "shop",
+    listCollections: filter => cursor(info && info.name === filter.name ? [info] : []),
+    collection: () => ({ listIndexes: () => cursor(indexes) }),
+    command: async () => {
+      if (!collStats) throw new Error("not authorized");
+      return collStats;
+    },
+  };
+  const client = {
+    db: () => ({ collection: () => ({ findOne: async () => { if (!shardKey) throw new Error("not mongos"); return shardKey; } }) }),
+  };
+  return { db, client };
+}
+
+describe("loadCollectionMetadata", () => {
+  it("reads indexes, sizes, the validator and the shard key", async () => {
+    const validator = { $jsonSchema: { required: ["email"] } };
+    const { db, client } = fakeDb(
+      { name: "users", type: "collection", options: { validator, validationLevel: "strict", capped: true } },
+      [
+        { name: "_id_", key: { _id: 1 } },
+        { name: "email_1", key: { email: 1 }, unique: true, collation: { locale: "en" } },
+      ],
+      { collStats: { indexSizes: { _id_: 4096 } }, shardKey: { key: { _id: "hashed" }, unique: false } },
+    );
+    const metadata = await loadCollectionMetadata(client, db, "users");
+    assert.equal(metadata.type, "collection");
+    assert.deepEqual(metadata.options, { capped: true });
+    assert.deepEqual(metadata.validator, validator);
+    assert.equal(metadata.validationLevel, "strict");
+    assert.deepEqual(metadata.indexes.map(index => [index.name, index.unique, index.sizeBytes]), [["_id_", false, 4096], ["email_1", true, undefined]]);
+    assert.deepEqual(metadata.shardKey, { key: { _id: "hashed" }, unique: false });
+  });
+
+  it("skips indexes for views and what the user cannot read", async () => {
+    const { db, client } = fakeDb({ name: "recent", type: "view", options: { viewOn: "orders", pipeline: [] } }, [{ name: "_id_", key: { _id: 1 } }]);
+    const metadata = await loadCollectionMetadata(client, db, "recent");
+    assert.deepEqual(metadata.indexes, []);
+    assert.equal(metadata.shardKey, undefined);
+    assert.equal(metadata.options.viewOn, "orders");
+  });
+
+  it("returns null for a missing collection", async () => {
+    const { db, client } = fakeDb(undefined, []);
+    assert.equal(await loadCollectionMetadata(client, db, "missing"), null);
+  });
+});
+
+describe("index formatting", () => {
+  it("lists the key and the index properties", () => {
+    assert.equal(formatIndexKey({ status: 1, createdAt: -1 }), "status: 1, createdAt: -1");
+    assert.deepEqual(indexProperties({
+      name: "x", key: {}, unique: true, sparse: false, hidden: true, expireAfterSeconds: 3600,
+      partialFilterExpression: { active: true }, collation: { locale: "fr" },
+    }), ["unique", "hidden", "TTL 3600s", 'partial: {"active":true}', "collation: fr"]);
+  });
+});
@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { BSON } from "mongodb";
+import { describe, it } from "node:test";
+import { generateModel, modelName } from "../dist/utils/mongoModel.js";
+import { inferFields } from "../dist/utils/mongoSchema.js";
+
+const fields = inferFields([
+  { _id: new BSON.ObjectId(), name: "a", total: 5, items: [{ price: 1.5 }], status: "paid", shippedAt: new Date(0) },
+  { _id: new BSON.ObjectId(), name: "b", total: new BSON.Double(2.5), items: [], status: null, "first-name": "x" },
+]);
+
+describe("modelName", () => {
+  it("singularizes the collection name", () => {
+    assert.equal(modelName("orders"), "Order");
+    assert.equal(modelName("categories"), "Category");
+    assert.equal(modelName("order_items"), "OrderItem");
+    assert.equal(modelName("address"), "Address");
+  });
+});
+
+describe("generateModel", () => {
+  it("marks fields missing from some documents optional and null-holding ones nullable", () => {
+    const schema = JSON.parse(generateModel("jsonSchema", "orders", fields, 2));
+    assert.equal(schema.title, "Order");
+    assert.deepEqual(schema.required, ["_id", "name", "total", "items", "status"]);
+    assert.deepEqual(schema.properties.status, { type: ["string", "null"] });
+    assert.deepEqual(schema.properties.total, { type: "number" });
+    assert.deepEqual(schema.properties.shippedAt, { type: "string", format: "date-time" });
+    assert.deepEqual(schema.properties.items, { type: "array", items: { type: "object", properties: { price: { type: "number" } }, required: ["price"] } });
+  });
+
+  it("writes a TypeScript interface with comments for serialized and optional fields", () => {
+    const source = generateModel("typescript", "orders", fields, 2);
+    assert.match(source, /^export interface Order \{$/m);
+    assert.match(source, /\/\*\* BSON objectId \*\/\n {2}_id: string;/);
+    assert.match(source, /\n {2}status: string \| null;/);
+    assert.match(source, /\n {2}items: \{\n {4}price: number;\n {2}\}\[\];/);
+    assert.match(source, /\/\*\* BSON date; present in 50% of sampled documents \*\/\n {2}shippedAt\?: string;/);
+    assert.match(source, /\n {2}"first-name"\?: string;/);
+  });
+
+  it("writes a Zod schema and its inferred type", () => {
+    const source = generateModel("zod", "orders", fields, 2);
+    assert.match(source, /export const orderSchema = z\.object\(\{/);
+    assert.match(source, /\n {2}status: z\.string\(\)\.nullable\(\),/);
+    assert.match(source, /\n {2}shippedAt: z\.string\(\)\.datetime\(\)\.optional\(\),/);
+    assert.match(source, /export type Order = z\.infer<typeof orderSchema>;/);
+  });
+});
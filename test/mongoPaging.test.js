@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { BSON } from "mongodb";
+import { describe, it } from "node:test";
+import {
+  afterCursorFilter,
+  decodeCursor,
+  fitPageToBudget,
+  nextCursor,
+  normalizeSort,
+  projectionWithFields,
+  removeFields,
+} from "../dist/utils/mongoPaging.js";
+
+describe("normalizeSort", () => {
+  it("appends _id as the tie-breaker", () => {
+    assert.deepEqual(normalizeSort({ createdAt: -1 }), [["createdAt", -1], ["_id", 1]]);
+    assert.deepEqual(normalizeSort({ _id: -1 }), [["_id", -1]]);
+    assert.throws(() => normalizeSort({ a: 2 }), /must be 1 or -1/);
+  });
+});
+
+describe("afterCursorFilter", () => {
+  it("continues after the last sort values", () => {
+    assert.deepEqual(afterCursorFilter([["total", 1], ["_id", 1]], [10, 7]), {
+      $or: [
+        { total: { $gt: 10 } },
+        { $and: [{ total: { $eq: 10 } }, { _id: { $gt: 7 } }] },
+      ],
+    });
+  });
+
+  it("includes nulls after every value in a descending sort", () => {
+    assert.deepEqual(afterCursorFilter([["createdAt", -1]], ["2024-01-01"]), {
+      $or: [{ $or: [{ createdAt: { $lt: "2024-01-01" } }, { createdAt: null }] }],
+    });
+  });
+});
+
+describe("projectionWithFields", () => {
+  it("adds sort fields an inclusion projection leaves out and reports them", () => {
+    assert.deepEqual(projectionWithFields({ name: 1 }, ["total", "_id"]), { projection: { name: 1, total: 1 }, hidden: ["total"] });
+    assert.deepEqual(projectionWithFields({ "order.total": 1 }, ["order.total.net"]), { projection: { "order.total": 1 }, hidden: [] });
+  });
+
+  it("keeps an excluded _id for the cursor and hides it again", () => {
+    const { projection, hidden } = projectionWithFields({ name: 1, _id: 0 }, ["_id"]);
+    assert.deepEqual(projection, { name: 1 });
+    assert.deepEqual(removeFields([{ _id: 1, name: "a" }], hidden), [{ name: "a" }]);
+  });
+
+  it("rejects excluding a sort field", () => {
+    assert.throws(() => projectionWithFields({ total: 0 }, ["total", "_id"]), /Sort field 'total' cannot be excluded/);
+    assert.deepEqual(projectionWithFields(undefined, ["_id"]), { projection: undefined, hidden: [] });
+  });
+});
+
+describe("cursors", () => {
+  it("carry the sort values of the last document", () => {
+    const sort = normalizeSort({ total: 1 });
+    const cursor = nextCursor({ _id: 5, total: 10 }, sort, "query-a", 20);
+    assert.deepEqual(decodeCursor(cursor, "query-a"), { query: "query-a", position: 20, after: [10, 5] });
+  });
+
+  it("keep large long sort values exact", () => {
+    const cursor = nextCursor({ _id: 5, total: BSON.Long.fromString("9007199254740993") }, normalizeSort({ total: 1 }), "query-a", 1);
+    const [total, id] = decodeCursor(cursor, "query-a").after;
+    assert.equal(total.toString(), "9007199254740993");
+    assert.equal(id, 5);
+  });
+
+  it("fall back to the position after missing sort values", () => {
+    const cursor = nextCursor({ _id: 5 }, normalizeSort({ total: 1 }), "query-a", 20);
+    assert.deepEqual(decodeCursor(cursor, "query-a"), { query: "query-a", position: 20 });
+  });
+
+  it("are only accepted for the same query", () => {
+    const cursor = nextCursor({ _id: 5 }, normalizeSort({}), "query-a", 1);
+    assert.throws(() => decodeCursor(cursor, "query-b"), /different query/);
+    assert.throws(() => decodeCursor("not-a-cursor", "query-a"), /Invalid or expired cursor/);
+  });
+});
+
+describe("fitPageToBudget", () => {
+  it("shortens long values before dropping documents", () => {
+    const documents = [{ text: "x".repeat(2000) }, { text: "y" }];
+    const page = fitPageToBudget(documents, 1200);
+    assert.equal(page.droppedDocuments, 0);
+    assert.equal(page.truncatedValues, 1);
+    assert.match(page.documents[0].text, /… \(2000 characters\)$/);
+  });
+
+  it("keeps at least one document", () => {
+    const page = fitPageToBudget([{ a: "x".repeat(500) }, { a: "y".repeat(500) }], 10);
+    assert.equal(page.documents.length, 1);
+    assert.equal(page.droppedDocuments, 1);
+  });
+});
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { BSON } from "mongodb";
+import { describe, it } from "node:test";
+import { collectReferenceCandidates, inferReferences, isReferenceName, referencesToErdModel } from "../dist/utils/mongoReferences.js";
+
+const ids = Array.from({ length: 4 }, () => new BSON.ObjectId());
+const key = value => BSON.EJSON.stringify(value, { relaxed: false });
+
+// Collections as arrays of documents; find() only supports { _id: { $in } }
+function fakeDb(collections) {
+  const cursor = items => ({ toArray: async () => items, limit: () => cursor(items) });
+  return {
+    databaseName: "shop",
+    listCollections: () => cursor(Object.keys(collections).map(name => ({ name, type: "collection" }))),
+    collection: name => ({
+      aggregate: () => cursor(collections[name]),
+      find: filter => {
+        const wanted = new Set(filter._id.$in.map(key));
+        return cursor(collections[name].filter(document => wanted.has(key(document._id))).map(({ _id }) => ({ _id })));
+      },
+    }),
+  };
+}
+
+describe("isReferenceName", () => {
+  it("recognises id suffixes and common reference names", () => {
+    assert.equal(isReferenceName("userId"), true);
+    assert.equal(isReferenceName("tag_ids"), true);
+    assert.equal(isReferenceName("meta.createdBy"), true);
+    assert.equal(isReferenceName("items[].productID"), true);
+    assert.equal(isReferenceName("_id"), false);
+    assert.equal(isReferenceName("valid"), false);
+  });
+});
+
+describe("collectReferenceCandidates", () => {
+  it("collects id-typed values and reference-named scalars", () => {
+    const candidates = collectReferenceCandidates([
+      { _id: ids[0], userId: ids[1], tags: [ids[2], ids[2]], sku: "A-1", customer: 42, meta: { owner: new BSON.DBRef("users", ids[3]) } },
+    ]);
+    assert.deepEqual(candidates.map(candidate => [candidate.field, candidate.kind, candidate.values.size]), [
+      ["userId", "objectId", 1],
+      ["tags[]", "objectId", 1],
+      ["customer", "name", 1],
+      ["meta.owner", "dbRef", 1],
+    ]);
+    assert.equal(candidates[3].refCollection, "users");
+    assert.deepEqual(Array.from(candidates[3].values.values()), [ids[3]]);
+  });
+});
+
+describe("inferReferences", () => {
+  it("links fields to the collection holding most of their values", async () => {
+    const db = fakeDb({
+      orders: [{ _id: 1, userId: ids[0] }, { _id: 2, userId: ids[1] }, { _id: 3, userId: ids[0], reviewerId: ids[3] }],
+      users: [{ _id: ids[0] }, { _id: ids[1] }],
+    });
+    const map = await inferReferences(db, "orders", 10);
+    assert.deepEqual(map.relations.map(relation => [relation.sourceColumn, relation.targetTable, relation.type, relation.matched, relation.probed]), [
+      ["userId", "users", "many-to-one", 2, 2],
+    ]);
+    assert.deepEqual(map.unresolved.map(entry => [entry.field, entry.bestMatch]), [["reviewerId", undefined]]);
+    assert.equal(await inferReferences(db, "missing"), null);
+  });
+});
+
+describe("referencesToErdModel", () => {
+  it("adds the key columns of both ends", () => {
+    const model = referencesToErdModel([
+      { type: "many-to-one", sourceTable: "orders", sourceColumn: "userId", targetTable: "users", targetColumn: "_id", kind: "objectId", probed: 2, matched: 2 },
+      { type: "many-to-many", sourceTable: "orders", sourceColumn: "tags[]", targetTable: "tags", targetColumn: "_id", kind: "name", probed: 1, matched: 1 },
+    ]);
+    assert.deepEqual(model.tables, [
+      { name: "users", columns: [{ name: "_id", type: "objectId", isPrimaryKey: true }] },
+      { name: "orders", columns: [{ name: "userId", type: "objectId", isForeignKey: true }, { name: "tags[]", type: "id", isForeignKey: true }] },
+      { name: "tags", columns: [{ name: "_id", type: "id", isPrimaryKey: true }] },
+    ]);
+    assert.equal(model.relations.length, 2);
+  });
+});
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { assertAllowedPipeline, assertPlainProjection, assertSafeMongoInput } from "../dist/utils/mongoSafety.js";
+
+describe("assertSafeMongoInput", () => {
+  it("accepts ordinary filters", () => {
+    assertSafeMongoInput({ age: { $gte: 18 }, $or: [{ name: "a" }, { tags: { $in: ["x"] } }] });
+  });
+
+  it("rejects server-side JavaScript at any depth", () => {
+    assert.throws(() => assertSafeMongoInput({ $where: "this.a > 1" }), /'\$where' is not allowed/);
+    assert.throws(() => assertSafeMongoInput({ $expr: { $and: [{ $function: { body: "", args: [], lang: "js" } }] } }), /at '\$expr\.\$and\[0\]\.\$function'/);
+    assert.throws(() => assertSafeMongoInput([{ $group: { _id: null, x: { $accumulator: {} } } }]), /'\$accumulator'/);
+  });
+});
+
+describe("assertAllowedPipeline", () => {
+  it("accepts read-only stages", () => {
+    assertAllowedPipeline([{ $match: { a: 1 } }, { $group: { _id: "$a", n: { $sum: 1 } } }, { $sort: { n: -1 } }]);
+  });
+
+  it("requires an array of single-operator stages", () => {
+    assert.throws(() => assertAllowedPipeline({ $match: {} }), /must be a JSON array/);
+    assert.throws(() => assertAllowedPipeline([{ $match: {}, $limit: 1 }]), /exactly one stage operator/);
+  });
+
+  it("rejects writing stages, including in sub-pipelines", () => {
+    assert.throws(() => assertAllowedPipeline([{ $out: "copy" }]), /Stage '\$out' is not allowed/);
+    assert.throws(() => assertAllowedPipeline([{ $lookup: { from: "b", as: "b", pipeline: [{ $merge: "c" }] } }]), /pipeline\[0\]\.\$lookup\.pipeline\[0\]/);
+    assert.throws(() => assertAllowedPipeline([{ $facet: { all: [{ $out: "c" }] } }]), /\$facet\.all\[0\]/);
+  });
+});
+
+describe("assertPlainProjection", () => {
+  it("accepts inclusion, exclusion and array element operators", () => {
+    assertPlainProjection({ name: 1, _id: 0, "address.city": true, tags: { $slice: [1, 2] }, items: { $elemMatch: { qty: { $gt: 1 } } } });
+    assertPlainProjection({ profile: { bio: 0 } });
+    assertPlainProjection(undefined);
+  });
+
+  it("rejects expressions that compute or rename fields", () => {
+    assert.throws(() => assertPlainProjection({ leak: "$password" }), /projection\.leak must be 0 or 1/);
+    assert.throws(() => assertPlainProjection({ x: { $concat: ["$passwordHash"] } }), /'\$concat' is not allowed \(at projection\.x\.\$concat\)/);
+    assert.throws(() => assertPlainProjection({ x: { $slice: ["$password", 1] } }), /\$slice must be a number/);
+    assert.throws(() => assertPlainProjection({ x: { $literal: 1 } }), /'\$literal'/);
+  });
+});
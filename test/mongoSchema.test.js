@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { BSON } from "mongodb";
+import { describe, it } from "node:test";
+import { bsonTypeOf, inferFields } from "../dist/utils/mongoSchema.js";
+
+describe("bsonTypeOf", () => {
+  it("names values the way $type does", () => {
+    assert.equal(bsonTypeOf(new BSON.ObjectId()), "objectId");
+    assert.equal(bsonTypeOf(new BSON.Int32(1)), "int");
+    assert.equal(bsonTypeOf(BSON.Long.fromNumber(1)), "long");
+    assert.equal(bsonTypeOf(new BSON.Double(1)), "double");
+    assert.equal(bsonTypeOf(1.5), "double");
+    assert.equal(bsonTypeOf(new Date(0)), "date");
+    assert.equal(bsonTypeOf(new BSON.UUID()), "uuid");
+    assert.equal(bsonTypeOf(new BSON.Timestamp({ t: 1, i: 1 })), "timestamp");
+    assert.equal(bsonTypeOf(undefined), "null");
+  });
+});
+
+describe("inferFields", () => {
+  const fields = inferFields([
+    { name: "Ada", age: new BSON.Int32(36), address: { city: "London" }, items: [{ price: 5 }, { price: 7.5 }] },
+    { name: "Grace", age: null, items: [] },
+    { name: "Ada", age: new BSON.Int32(40), tags: ["x"] },
+    { name: "Linus", age: new BSON.Int32(41) },
+  ]);
+  const field = name => fields.find(entry => entry.name === name);
+
+  it("lists nested and array element paths in the order they are first seen", () => {
+    assert.deepEqual(fields.map(entry => entry.name), ["name", "age", "address", "address.city", "items", "items[]", "items[].price", "tags", "tags[]"]);
+  });
+
+  it("reports type shares and presence", () => {
+    assert.equal(field("age").type, "int 75% / null 25%");
+    assert.deepEqual(field("age").types, [{ type: "int", count: 3, percentage: 75 }, { type: "null", count: 1, percentage: 25 }]);
+    assert.equal(field("address.city").presence, 0.25);
+    assert.equal(field("items").presence, 0.5);
+  });
+
+  it("counts each array element under the element path", () => {
+    assert.equal(field("items[].price").count, 2);
+    assert.equal(field("items[].price").type, "int 50% / double 50%");
+    assert.equal(field("items[].price").presence, 0.25);
+  });
+
+  it("keeps a few distinct scalar examples", () => {
+    assert.deepEqual(field("name").examples, ["Ada", "Grace", "Linus"]);
+    assert.deepEqual(field("address").examples, []);
+  });
+});
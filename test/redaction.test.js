@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { aggregationRedactionRules, redactDocument, redactionRules } from "../dist/utils/redaction.js";
+
+const config = { fields: ["address.*"], collections: { users: ["nickname"] } };
+
+describe("redactDocument", () => {
+  it("masks fields matching the default and configured patterns", () => {
+    const rules = redactionRules(config, "users");
+    const document = {
+      name: "Ada",
+      password: "hunter2",
+      profile: { contactEmail: "ada@example.com", nickname: "ace" },
+      address: { city: "London", zip: "N1" },
+      phones: ["+44 20 7946 0000"],
+      contacts: ["+44 20 7946 0001", "office"],
+    };
+    assert.deepEqual(redactDocument(document, rules), {
+      name: "Ada",
+      password: "[REDACTED]",
+      profile: { contactEmail: "[REDACTED]@example.com", nickname: "[REDACTED]" },
+      address: { city: "[REDACTED]", zip: "[REDACTED]" },
+      phones: "[REDACTED]",
+      contacts: ["[REDACTED]", "office"],
+    });
+  });
+
+  it("anchors dotted patterns at the root", () => {
+    const rules = redactionRules(config);
+    assert.deepEqual(redactDocument({ billing: { address: { city: "Paris" } } }, rules), { billing: { address: { city: "Paris" } } });
+  });
+
+  it("detects sensitive values in fields with harmless names", () => {
+    const rules = redactionRules({});
+    const document = { note: "eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.sig", card: "4111 1111 1111 1111", count: "123456789012" };
+    assert.deepEqual(redactDocument(document, rules), { note: "[REDACTED]", card: "[REDACTED]", count: "123456789012" });
+  });
+
+  it("hashes equal values equally in hash mode", () => {
+    const rules = redactionRules({ mode: "hash" });
+    const redacted = redactDocument({ a: { email: "x@example.com" }, b: { email: "x@example.com" } }, rules);
+    assert.match(redacted.a.email, /^sha256:[0-9a-f]{16}$/);
+    assert.equal(redacted.a.email, redacted.b.email);
+  });
+
+  it("returns the document unchanged when redaction is off", () => {
+    const document = { password: "hunter2" };
+    assert.equal(redactDocument(document, redactionRules({ enabled: false })), document);
+  });
+});
+
+describe("aggregationRedactionRules", () => {
+  it("allows filtering and sorting on redacted fields", () => {
+    assert.ok(aggregationRedactionRules(config, "users", [{ $match: { email: /@example\.com$/ } }, { $sort: { email: 1 } }]));
+  });
+
+  it("rejects copying a redacted field to another name", () => {
+    assert.throws(() => aggregationRedactionRules(config, "users", [{ $project: { contact: "$email" } }]), /'\$email' reads a redacted field/);
+    assert.throws(() => aggregationRedactionRules(config, "users", [{ $group: { _id: "$address.city" } }]), /redacted field/);
+    assert.throws(() => aggregationRedactionRules(config, "users", [{ $replaceWith: "$address" }]), /redacted field/);
+    assert.throws(() => aggregationRedactionRules(config, "users", [{ $set: { fields: { $objectToArray: "$$ROOT" } } }]), /'\$objectToArray' is not allowed/);
+  });
+
+  it("applies the joined collection's patterns under the $lookup field", () => {
+    const rules = aggregationRedactionRules(config, "orders", [{ $lookup: { from: "users", localField: "userId", foreignField: "_id", as: "user" } }]);
+    assert.deepEqual(redactDocument({ user: [{ nickname: "ace", address: { city: "Rome" } }] }, rules), {
+      user: [{ nickname: "[REDACTED]", address: { city: "[REDACTED]" } }],
+    });
+  });
+
+  it("rejects $lookup variables that carry redacted values", () => {
+    const pipeline = [{ $lookup: { from: "users", let: { mail: "$email" }, pipeline: [], as: "same" } }];
+    assert.throws(() => aggregationRedactionRules(config, "orders", pipeline), /redacted field/);
+  });
+});
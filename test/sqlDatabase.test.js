@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import initSqlJs from "sql.js";
+import { assertReadOnlyQuery, connectSql, runReadOnlyQuery } from "../dist/utils/sqlDatabase.js";
+
+describe("assertReadOnlyQuery", () => {
+  it("accepts single read statements", () => {
+    assertReadOnlyQuery("SELECT * FROM users WHERE name = 'x'", "postgres");
+    assertReadOnlyQuery("WITH t AS (SELECT 1) SELECT * FROM t;", "mysql");
+    assertReadOnlyQuery("EXPLAIN SELECT 1", "sqlite");
+    assertReadOnlyQuery("SHOW TABLES", "mysql");
+  });
+
+  it("ignores keywords inside literals, identifiers and comments", () => {
+    assertReadOnlyQuery("SELECT 'DROP TABLE users; DELETE' AS note", "postgres");
+    assertReadOnlyQuery('SELECT "update" FROM t -- DELETE FROM t', "postgres");
+    assertReadOnlyQuery("SELECT $body$ ; INSERT $body$", "postgres");
+    assertReadOnlyQuery("SELECT [delete] FROM t /* ; DROP */", "sqlite");
+  });
+
+  it("rejects writes and several statements", () => {
+    assert.throws(() => assertReadOnlyQuery("DELETE FROM users", "postgres"), /read-only statements/);
+    assert.throws(() => assertReadOnlyQuery("SELECT 1; DROP TABLE users", "postgres"), /single SQL statement/);
+    assert.throws(() => assertReadOnlyQuery("WITH d AS (DELETE FROM users RETURNING *) SELECT * FROM d", "postgres"), /'DELETE'/);
+    assert.throws(() => assertReadOnlyQuery("EXPLAIN ANALYZE DELETE FROM users", "postgres"));
+  });
+
+  it("does not treat a backslash as an escape in standard Postgres strings", () => {
+    assert.throws(() => assertReadOnlyQuery("SELECT '\\'; DROP TABLE users; --'", "postgres"), /single SQL statement/);
+    assertReadOnlyQuery("SELECT E'\\'; DROP TABLE users; --'", "postgres");
+  });
+
+  it("follows nested Postgres block comments", () => {
+    assertReadOnlyQuery("SELECT 1 /* /* */ ; DROP TABLE users; */", "postgres");
+    assert.throws(() => assertReadOnlyQuery("SELECT 1 /* /* */ ; DROP TABLE users", "postgres"), /unterminated comment/);
+    assert.throws(() => assertReadOnlyQuery("SELECT 1 /* /* */ */ ; DROP TABLE users", "postgres"), /single SQL statement/);
+  });
+
+  it("reads MySQL quoting and comments the way MySQL does", () => {
+    assertReadOnlyQuery("SELECT 'it\\'s; DROP TABLE users' # ; DELETE", "mysql");
+    assert.throws(() => assertReadOnlyQuery("SELECT 1--1; DROP TABLE users", "mysql"), /single SQL statement/);
+    assert.throws(() => assertReadOnlyQuery("SELECT 1 /*! ; DROP TABLE users */", "mysql"), /executable comments/);
+  });
+
+  it("rejects unterminated literals", () => {
+    assert.throws(() => assertReadOnlyQuery("SELECT 'open", "sqlite"), /unterminated/);
+    assert.throws(() => assertReadOnlyQuery("SELECT $x$ open", "postgres"), /unterminated/);
+  });
+});
+
+describe("runReadOnlyQuery", () => {
+  let directory;
+  let connection;
+
+  before(async () => {
+    const SQL = await initSqlJs();
+    const database = new SQL.Database();
+    database.run("CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT)");
+    for (let id = 1; id <= 5; id++) {
+      database.run("INSERT INTO items VALUES (?, ?)", [id, `item ${id}`]);
+    }
+    directory = await fs.mkdtemp(join(tmpdir(), "sql-query-"));
+    const path = join(directory, "items.db");
+    await fs.writeFile(path, database.export());
+    database.close();
+    connection = connectSql(path);
+  });
+
+  after(() => fs.rm(directory, { recursive: true, force: true }));
+
+  it("stops reading after the limit and reports the cut", async () => {
+    const result = await runReadOnlyQuery(connection, "SELECT id FROM items ORDER BY id", 2);
+    assert.deepEqual(result, { rows: [{ id: 1 }, { id: 2 }], truncated: true });
+    assert.equal((await runReadOnlyQuery(connection, "SELECT id FROM items", 5)).truncated, false);
+  });
+
+  it("runs the query as written, with a terminator and a trailing comment", async () => {
+    const result = await runReadOnlyQuery(connection, "SELECT a.id, b.name FROM items a JOIN items b ON b.id = a.id WHERE a.id = 3; -- note", 10);
+    assert.deepEqual(result.rows, [{ id: 3, name: "item 3" }]);
+  });
+});
@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, realpath, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { diffSwaggerDocuments, resolveBaselineSource } from "../dist/utils/swaggerDiff.js";
+
+const json = schema => ({ content: { "application/json": { schema } } });
+
+const baseline = {
+  openapi: "3.0.0",
+  paths: {
+    "/users": {
+      get: {
+        parameters: [{ name: "limit", in: "query", schema: { type: "integer" } }],
+        responses: { 200: { description: "", ...json({ type: "object", properties: { id: { type: "string" }, status: { type: "string", enum: ["a", "b"] }, legacy: { type: "string" } } }) } },
+      },
+      post: {
+        requestBody: json({ type: "object", properties: { name: { type: "string" } } }),
+        responses: { 201: { description: "" } },
+      },
+    },
+    "/old": { get: { responses: { 200: { description: "" } } } },
+  },
+};
+
+const current = {
+  openapi: "3.0.0",
+  paths: {
+    "/users": {
+      get: {
+        parameters: [
+          { name: "limit", in: "query", required: true, schema: { type: "integer" } },
+          { name: "q", in: "query", schema: { type: "string" } },
+        ],
+        responses: { 200: { description: "", ...json({ type: "object", properties: { id: { type: "integer" }, status: { type: "string", enum: ["a", "b", "c"] }, extra: { type: "string" } } }) } },
+      },
+      post: {
+        requestBody: json({ type: "object", required: ["email"], properties: { name: { type: "string" }, email: { type: "string" } } }),
+        responses: { 201: { description: "" } },
+      },
+    },
+    "/new": { post: { summary: "Create", responses: { 201: { description: "" } } } },
+  },
+};
+
+const describeChanges = changes => changes.map(change => `${change.endpoint} ${change.kind}${change.location ? ` (${change.location})` : ""}`);
+
+describe("diffSwaggerDocuments", () => {
+  const diff = diffSwaggerDocuments(baseline, current);
+
+  it("classifies breaking changes", () => {
+    assert.deepEqual(describeChanges(diff.breaking), [
+      "GET /users parameter-required (query parameter `limit`)",
+      "GET /users field-type-changed (response 200 field `id`)",
+      "GET /users enum-values-added (response 200 field `status`)",
+      "GET /users field-removed (response 200 field `legacy`)",
+      "POST /users field-added (request body field `email`)",
+      "GET /old endpoint-removed",
+    ]);
+    assert.equal(diff.breaking[4].message, "new required field");
+  });
+
+  it("classifies additions as non-breaking", () => {
+    assert.deepEqual(describeChanges(diff.nonBreaking), [
+      "GET /users parameter-added (query parameter `q`)",
+      "GET /users field-added (response 200 field `extra`)",
+      "POST /new endpoint-added",
+    ]);
+  });
+
+  it("counts the changes per endpoint", () => {
+    assert.deepEqual(diff.summary, { endpointsAdded: 1, endpointsRemoved: 1, endpointsChanged: 2, breaking: 6, nonBreaking: 3 });
+  });
+
+  it("reports nothing for identical documents", () => {
+    const same = diffSwaggerDocuments(baseline, structuredClone(baseline));
+    assert.deepEqual([same.breaking, same.nonBreaking], [[], []]);
+  });
+});
+
+describe("resolveBaselineSource", () => {
+  let directory;
+  let outside;
+
+  before(async () => {
+    directory = await realpath(await mkdtemp(join(tmpdir(), "baseline-")));
+    outside = await realpath(await mkdtemp(join(tmpdir(), "outside-")));
+    await mkdir(join(directory, "snapshots"));
+    await writeFile(join(directory, "backends.json"), "{}");
+    await writeFile(join(directory, "snapshots", "v1.json"), "{}");
+    await writeFile(join(outside, "secret.json"), "{}");
+    await symlink(join(outside, "secret.json"), join(directory, "snapshots", "link.json"));
+    process.env.BACKEND_EXPLORER_CONFIG = join(directory, "backends.json");
+  });
+
+  after(async () => {
+    delete process.env.BACKEND_EXPLORER_CONFIG;
+    await rm(directory, { recursive: true, force: true });
+    await rm(outside, { recursive: true, force: true });
+  });
+
+  it("accepts http(s) URLs as they are", async () => {
+    assert.equal(await resolveBaselineSource("https://staging.example.com/swagger.json"), "https://staging.example.com/swagger.json");
+  });
+
+  it("resolves files relative to the config directory", async () => {
+    assert.equal(await resolveBaselineSource("snapshots/v1.json"), join(directory, "snapshots", "v1.json"));
+  });
+
+  it("rejects files outside the config directory, including through symlinks", async () => {
+    await assert.rejects(resolveBaselineSource(join(outside, "secret.json")), /outside the config directory/);
+    await assert.rejects(resolveBaselineSource("../outside/secret.json"), /ENOENT|outside the config directory/);
+    await assert.rejects(resolveBaselineSource("snapshots/link.json"), /outside the config directory/);
+    await assert.rejects(resolveBaselineSource(`file://${join(outside, "secret.json")}`), /outside the config directory/);
+  });
+
+  it("rejects other URL schemes", async () => {
+    await assert.rejects(resolveBaselineSource("ftp://example.com/swagger.json"), /Unsupported baseline/);
+  });
+
+  it("needs a config file for local baselines", async () => {
+    const configPath = process.env.BACKEND_EXPLORER_CONFIG;
+    delete process.env.BACKEND_EXPLORER_CONFIG;
+    try {
+      await assert.rejects(resolveBaselineSource("snapshots/v1.json"), /BACKEND_EXPLORER_CONFIG is not set/);
+    } finally {
+      process.env.BACKEND_EXPLORER_CONFIG = configPath;
+    }
+  });
+});
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { closestMatches, filterSwaggerDocument } from "../dist/utils/swaggerFilter.js";
+
+const doc = {
+  openapi: "3.0.0",
+  servers: [{ url: "https://api.example.com/api/v1" }],
+  paths: {
+    "/users": { get: { operationId: "listUsers", tags: ["users"] }, post: { operationId: "createUser", tags: ["users"] } },
+    "/users/{id}": { get: { operationId: "getUser", tags: ["users"] }, delete: { operationId: "deleteUser", tags: ["users", "admin"] } },
+    "/users/{id}/orders": { get: { operationId: "listUserOrders", tags: ["orders"] } },
+    "/admin/reports/daily": { get: { operationId: "dailyReport", tags: ["admin"] } },
+  },
+};
+
+const matched = filter => {
+  const result = filterSwaggerDocument(doc, filter);
+  return Object.entries(result.doc.paths).flatMap(([path, item]) => Object.keys(item).map(method => `${method.toUpperCase()} ${path}`));
+};
+
+describe("filterSwaggerDocument", () => {
+  it("prefers an exact path", () => {
+    assert.deepEqual(matched({ path: "/users" }), ["GET /users", "POST /users"]);
+  });
+
+  it("matches concrete values against path templates, with or without the server base path", () => {
+    assert.deepEqual(matched({ path: "/users/123" }), ["GET /users/{id}", "DELETE /users/{id}"]);
+    assert.deepEqual(matched({ path: "/api/v1/users/123/orders" }), ["GET /users/{id}/orders"]);
+  });
+
+  it("falls back to paths containing the given segments", () => {
+    assert.deepEqual(matched({ path: "/orders" }), ["GET /users/{id}/orders"]);
+  });
+
+  it("supports * within a segment and ** across segments", () => {
+    assert.deepEqual(matched({ path: "/users/*" }), ["GET /users/{id}", "DELETE /users/{id}"]);
+    assert.deepEqual(matched({ path: "/admin/**" }), ["GET /admin/reports/daily"]);
+  });
+
+  it("filters by method list, tag and operationId", () => {
+    assert.deepEqual(matched({ path: "/users/**", method: "get,delete", tag: "admin" }), ["DELETE /users/{id}"]);
+    assert.deepEqual(matched({ operationId: "GETUSER" }), ["GET /users/{id}"]);
+  });
+
+  it("suggests close operationIds and paths when nothing matches", () => {
+    const byId = filterSwaggerDocument(doc, { operationId: "getUsr" });
+    assert.equal(byId.matchCount, 0);
+    assert.equal(byId.suggestions[0], "getUser");
+    assert.equal(filterSwaggerDocument(doc, { path: "/userz" }).suggestions[0], "GET, POST /users");
+  });
+});
+
+describe("closestMatches", () => {
+  it("ranks substring hits ahead of edit distance", () => {
+    assert.deepEqual(closestMatches("order", ["orders", "border_line", "odder"], 2), ["orders", "border_line"]);
+  });
+});
@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { dereferenceSchema, flattenSchema, normalizeSchemas, normalizeSpec } from "../dist/utils/swaggerSpec.js";
+
+const rowNames = schema => flattenSchema(schema).map(row => row.name);
+
+describe("normalizeSpec", () => {
+  it("normalizes Swagger 2.0 parameters, bodies and responses", () => {
+    const spec = normalizeSpec({
+      swagger: "2.0",
+      host: "api.example.com",
+      basePath: "/v1",
+      schemes: ["https"],
+      paths: {
+        "/users/{id}": {
+          parameters: [{ name: "id", in: "path", type: "string" }],
+          put: {
+            operationId: "updateUser",
+            tags: ["users"],
+            parameters: [{ name: "body", in: "body", required: true, schema: { $ref: "#/definitions/User" } }],
+            responses: { 200: { description: "OK", schema: { $ref: "#/definitions/User" } } },
+          },
+        },
+      },
+      definitions: { User: { type: "object", required: ["id"], properties: { id: { type: "string" }, age: { type: "integer" } } } },
+    });
+
+    assert.equal(spec.specVersion, "2.0");
+    assert.deepEqual(spec.servers, ["https://api.example.com/v1"]);
+    const [operation] = spec.operations;
+    assert.deepEqual(operation.parameters.map(param => [param.name, param.in, param.required]), [["id", "path", true]]);
+    assert.equal(operation.requestBody.contentType, "application/json");
+    assert.equal(operation.requestBody.schema.refName, "User");
+    assert.deepEqual(rowNames(operation.responses[0].schema), ["id", "age"]);
+  });
+
+  it("normalizes OpenAPI 3 request bodies, components and 3.1 nullable types", () => {
+    const spec = normalizeSpec({
+      openapi: "3.1.0",
+      servers: [{ url: "https://api.example.com" }],
+      paths: {
+        "/orders": {
+          post: {
+            requestBody: { $ref: "#/components/requestBodies/Order" },
+            responses: { 201: { description: "Created", content: { "application/json": { schema: { $ref: "#/components/schemas/Order" } } } } },
+          },
+        },
+      },
+      components: {
+        requestBodies: { Order: { required: true, content: { "application/json": { schema: { $ref: "#/components/schemas/Order" } } } } },
+        schemas: { Order: { type: "object", properties: { note: { type: ["string", "null"] } } } },
+      },
+    });
+
+    const [operation] = spec.operations;
+    assert.equal(operation.requestBody.required, true);
+    assert.deepEqual(operation.responses[0].schema.properties.note, { type: "string", nullable: true });
+  });
+});
+
+describe("dereferenceSchema", () => {
+  it("merges allOf members and marks cycles", () => {
+    const doc = { components: { schemas: {
+      Base: { type: "object", required: ["id"], properties: { id: { type: "string" } } },
+      Node: { allOf: [{ $ref: "#/components/schemas/Base" }, { properties: { child: { $ref: "#/components/schemas/Node" } } }] },
+    } } };
+    const node = dereferenceSchema(doc, { $ref: "#/components/schemas/Node" });
+    assert.deepEqual(node.required, ["id"]);
+    assert.equal(node.properties.child.circular, true);
+    assert.deepEqual(rowNames(node), ["id", "child"]);
+  });
+
+  it("flattens the other members of an allOf that includes a cycle", () => {
+    const doc = { components: { schemas: {
+      A: { type: "object", properties: { b: { $ref: "#/components/schemas/B" } } },
+      B: { allOf: [{ $ref: "#/components/schemas/A" }, { properties: { x: { type: "string" } } }] },
+    } } };
+    const a = dereferenceSchema(doc, { $ref: "#/components/schemas/A" });
+    assert.equal(a.properties.b.circular, true);
+    assert.deepEqual(rowNames(a), ["b", "b.x"]);
+  });
+
+  it("does not reuse a schema that was cut off at the depth limit", () => {
+    const schemas = {};
+    for (let i = 0; i < 15; i++) {
+      schemas[`S${i}`] = { type: "object", properties: { next: { $ref: `#/components/schemas/S${i + 1}` } } };
+    }
+    schemas.S15 = { type: "object", properties: { leaf: { type: "string" } } };
+    const doc = { components: { schemas } };
+
+    dereferenceSchema(doc, { $ref: "#/components/schemas/S0" });
+    const shallow = dereferenceSchema(doc, { $ref: "#/components/schemas/S10" });
+    assert.equal(rowNames(shallow).pop(), "next.next.next.next.next.leaf");
+  });
+
+  it("reports missing targets instead of throwing", () => {
+    const schema = dereferenceSchema({}, { $ref: "#/components/schemas/Missing" });
+    assert.equal(schema.type, "unknown");
+    assert.equal(schema.refName, "Missing");
+  });
+
+  it("decodes pointer escapes and keeps a stray '%' as written", () => {
+    const doc = { components: { schemas: { "pets/Cat": { type: "string" }, "Rate%": { type: "number" } } } };
+    assert.equal(dereferenceSchema(doc, { $ref: "#/components/schemas/pets~1Cat" }).type, "string");
+    const rate = dereferenceSchema(doc, { $ref: "#/components/schemas/Rate%" });
+    assert.equal(rate.type, "number");
+    assert.equal(rate.refName, "Rate%");
+  });
+});
+
+describe("normalizeSchemas", () => {
+  it("resolves every named schema, whatever characters its name has", () => {
+    const schemas = normalizeSchemas({ openapi: "3.0.0", components: { schemas: {
+      "a%20b": { type: "string" },
+      "Rate%": { type: "number" },
+      "x/y~z": { type: "boolean" },
+    } } });
+    assert.deepEqual(Object.fromEntries(Object.entries(schemas).map(([name, schema]) => [name, schema.type])), {
+      "a%20b": "string",
+      "Rate%": "number",
+      "x/y~z": "boolean",
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { normalizeSchemas, normalizeSpec } from "../dist/utils/swaggerSpec.js";
+import { collectReferencedSchemas, generateClient, generateTypeDeclaration, toTypeName } from "../dist/utils/typescriptGenerator.js";
+
+const doc = {
+  openapi: "3.0.0",
+  paths: {
+    "/pets/{petId}": {
+      get: {
+        operationId: "get-pet",
+        parameters: [
+          { name: "petId", in: "path", required: true, schema: { type: "integer" } },
+          { name: "fields", in: "query", schema: { type: "array", items: { type: "string" } } },
+        ],
+        responses: { 200: { description: "OK", content: { "application/json": { schema: { $ref: "#/components/schemas/pets~1Cat" } } } } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      "pets/Cat": {
+        type: "object",
+        description: "A cat",
+        required: ["name"],
+        properties: {
+          name: { type: "string" },
+          "owner-id": { type: "string", nullable: true },
+          status: { type: "string", enum: ["alive", "asleep"] },
+          friend: { $ref: "#/components/schemas/pets~1Cat" },
+        },
+      },
+    },
+  },
+};
+
+describe("toTypeName", () => {
+  it("builds PascalCase names that are valid identifiers", () => {
+    assert.equal(toTypeName("pets/Cat~v2"), "PetsCatV2");
+    assert.equal(toTypeName("2fa-settings"), "_2faSettings");
+    assert.equal(toTypeName("%%"), "Unnamed");
+  });
+});
+
+describe("generateTypeDeclaration", () => {
+  it("renders interfaces with optional, nullable, enum and referenced members", () => {
+    const schemas = normalizeSchemas(doc);
+    assert.equal(generateTypeDeclaration("pets/Cat", schemas["pets/Cat"]), [
+      "/** A cat */",
+      "export interface PetsCat {",
+      "  name: string;",
+      '  "owner-id"?: string | null;',
+      '  status?: "alive" | "asleep";',
+      "  friend?: PetsCat;",
+      "}",
+      "",
+    ].join("\n"));
+  });
+});
+
+describe("collectReferencedSchemas", () => {
+  it("uses the decoded schema name of a $ref", () => {
+    const names = new Set();
+    collectReferencedSchemas(normalizeSpec(doc).operations[0].responses[0].schema, names);
+    assert.deepEqual([...names], ["pets/Cat"]);
+  });
+});
+
+describe("generateClient", () => {
+  it("generates typed fetch functions with path and query parameters", () => {
+    const client = generateClient(normalizeSchemas(doc), normalizeSpec(doc).operations, "fetch", "https://api.example.com");
+    assert.deepEqual(client.types, ["PetsCat"]);
+    assert.deepEqual(client.functions, ["getPet"]);
+    assert.match(client.code, /export async function getPet\(petId: number, query\?: \{ fields\?: string\[\] \}\): Promise<PetsCat>/);
+    assert.match(client.code, /\$\{BASE_URL\}\/pets\/\$\{encodeURIComponent\(String\(petId\)\)\}\$\{toQueryString\(query\)\}/);
+  });
+
+  it("disambiguates functions with the same name", () => {
+    const operations = normalizeSpec(doc).operations;
+    const client = generateClient({}, [...operations, ...operations], "axios", "");
+    assert.deepEqual(client.functions, ["getPet", "getPet2"]);
+  });
+});